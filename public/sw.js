@@ -0,0 +1,99 @@
+// オフライン用のサービスワーカー（登録は src/pwa.ts）
+// 登録時の ?build= ごとにキャッシュを分け、新しいビルドはユーザーが選ぶまで待機させる
+
+const CACHE_PREFIX = 'oosan-river-';
+const BUILD_ID = new URL(self.location.href).searchParams.get('build') || 'dev';
+const CACHE_NAME = CACHE_PREFIX + BUILD_ID;
+
+// アプリの外枠と川の画像
+const APP_SHELL = [
+  '/',
+  '/manifest.json',
+  '/icon-192.png',
+  '/icon-512.png',
+  '/river.png',
+  '/baby_oosan.png',
+  '/mizukusa.png',
+];
+
+// index.html が読み込むバンドル（ファイル名にハッシュが付くので HTML から探す）
+const findBundleUrls = (html) => {
+  const urls = [];
+  const pattern = /<script[^>]+src="([^"]+)"/g;
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    urls.push(match[1]);
+  }
+  return urls;
+};
+
+const precacheBuild = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(APP_SHELL);
+  const page = await cache.match('/');
+  if (page) {
+    const html = await page.clone().text();
+    await cache.addAll(findBundleUrls(html));
+  }
+};
+
+// 新しい版はここで待機する（skipWaiting はユーザーが更新を選んだときだけ）
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheBuild());
+});
+
+// 古いビルドのキャッシュを片付ける
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  } else if (data.type === 'PRECACHE' && Array.isArray(data.urls)) {
+    // アプリが実際に使う画像の URL（バンドラーが付けた名前）を保存する
+    event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(data.urls)));
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  // ページはネットワークを優先し、つながらないときは保存した外枠を返す
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/', { cacheName: CACHE_NAME }))
+    );
+    return;
+  }
+
+  // バンドルや画像は保存したものを優先し、なければ取得して保存する
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then(
+      (cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+    )
+  );
+});
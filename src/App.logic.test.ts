@@ -4,14 +4,28 @@ import {
   processGrowth,
   processCondition,
   generateDailyLog,
+  processVisit,
+  getToday,
+  createFarewell,
+  welcomeNewSalamander,
+  describeFarewell,
+  replayMissedDays,
+  getConditionForGap,
+  getDailyGrowthRate,
+  getLatestLogText,
+  getLifeStage,
+  MAX_SIZE_FACTOR,
   AppState,
 } from './logic';
+import { addDays } from './calendar';
+import { createSeededContext } from './simulation';
+import { NO_REPEAT_DAYS, getMessageText } from './messages';
 
 describe('ロジック関数のテスト', () => {
   describe('createInitialState', () => {
     test('初期状態が正しく生成される', () => {
       const state = createInitialState();
-      const today = new Date().toISOString().split('T')[0];
+      const today = getToday();
       
       expect(state.startDate).toBe(today);
       expect(state.lastVisitDate).toBe(today);
@@ -29,12 +43,25 @@ describe('ロジック関数のテスト', () => {
       expect(getDaysDiff('2024-01-10', '2024-01-01')).toBe(9);
       expect(getDaysDiff('2024-01-01', '2024-01-01')).toBe(0);
     });
+
+    test('月・年・うるう日をまたいでも暦日で数える', () => {
+      expect(getDaysDiff('2024-01-31', '2024-02-01')).toBe(1);
+      expect(getDaysDiff('2023-12-31', '2024-01-01')).toBe(1);
+      expect(getDaysDiff('2024-02-28', '2024-03-01')).toBe(2);
+    });
+
+    test('夏時間の切り替えをまたいでも 1 日は 1 日', () => {
+      // 米国の夏時間開始日（2024-03-10）は 23 時間しかない
+      expect(getDaysDiff('2024-03-09', '2024-03-10')).toBe(1);
+      expect(getDaysDiff('2024-03-10', '2024-03-11')).toBe(1);
+      expect(getDaysDiff('2024-11-02', '2024-11-04')).toBe(2);
+    });
   });
 
   describe('processGrowth', () => {
     test('healthy状態のとき成長する', () => {
-      const today = new Date().toISOString().split('T')[0];
-      const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+      const today = getToday();
+      const yesterday = addDays(getToday(), -1);
       
       const state: AppState = {
         startDate: '2024-01-01',
@@ -53,7 +80,7 @@ describe('ロジック関数のテスト', () => {
     });
 
     test('今日すでに成長処理済みの場合は成長しない', () => {
-      const today = new Date().toISOString().split('T')[0];
+      const today = getToday();
       
       const state: AppState = {
         startDate: '2024-01-01',
@@ -71,8 +98,8 @@ describe('ロジック関数のテスト', () => {
     });
 
     test('weak状態のときは成長しない', () => {
-      const today = new Date().toISOString().split('T')[0];
-      const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+      const today = getToday();
+      const yesterday = addDays(getToday(), -1);
       
       const state: AppState = {
         startDate: '2024-01-01',
@@ -90,8 +117,8 @@ describe('ロジック関数のテスト', () => {
     });
 
     test('dead状態のときは成長しない', () => {
-      const today = new Date().toISOString().split('T')[0];
-      const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+      const today = getToday();
+      const yesterday = addDays(getToday(), -1);
       
       const state: AppState = {
         startDate: '2024-01-01',
@@ -111,8 +138,8 @@ describe('ロジック関数のテスト', () => {
 
   describe('processCondition', () => {
     test('2日放置はhealthyのまま', () => {
-      const today = new Date().toISOString().split('T')[0];
-      const twoDaysAgo = new Date(Date.now() - 2 * 86400000).toISOString().split('T')[0];
+      const today = getToday();
+      const twoDaysAgo = addDays(getToday(), -2);
       
       const state: AppState = {
         startDate: '2024-01-01',
@@ -130,8 +157,8 @@ describe('ロジック関数のテスト', () => {
     });
 
     test('3日放置でweakになる', () => {
-      const today = new Date().toISOString().split('T')[0];
-      const threeDaysAgo = new Date(Date.now() - 3 * 86400000).toISOString().split('T')[0];
+      const today = getToday();
+      const threeDaysAgo = addDays(getToday(), -3);
       
       const state: AppState = {
         startDate: '2024-01-01',
@@ -149,8 +176,8 @@ describe('ロジック関数のテスト', () => {
     });
 
     test('7日放置でdeadになる', () => {
-      const today = new Date().toISOString().split('T')[0];
-      const sevenDaysAgo = new Date(Date.now() - 7 * 86400000).toISOString().split('T')[0];
+      const today = getToday();
+      const sevenDaysAgo = addDays(getToday(), -7);
       
       const state: AppState = {
         startDate: '2024-01-01',
@@ -168,8 +195,8 @@ describe('ロジック関数のテスト', () => {
     });
 
     test('weakから復帰できる（2日以内に訪問）', () => {
-      const today = new Date().toISOString().split('T')[0];
-      const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+      const today = getToday();
+      const yesterday = addDays(getToday(), -1);
       
       const state: AppState = {
         startDate: '2024-01-01',
@@ -217,12 +244,17 @@ describe('ロジック関数のテスト', () => {
         '今日も静かに過ごしています。',
         'ゆっくりと時間が流れています。',
         '川の音が聞こえます。',
+        // 冬だけのログ
+        '冷たい水の中で、じっと春を待っています。',
+        'ほとんど動かず、冬の眠りについています。',
+        // 夜だけのログ
+        '水面に星の光がゆれています。',
       ];
       expect(weakMessages).toContain(log);
     });
 
     test('初日のとき適切なログを返す', () => {
-      const today = new Date().toISOString().split('T')[0];
+      const today = getToday();
       const state: AppState = {
         startDate: today,
         lastVisitDate: today,
@@ -253,8 +285,453 @@ describe('ロジック関数のテスト', () => {
         '川の流れに身を任せています。',
         '岩の陰で休んでいます。',
         '水草の間を泳いでいます。',
+        // 幼生の時期だけのログ
+        '小さなえらをゆらしています。',
+        '砂利のすき間に隠れています。',
+        // 冬だけのログ
+        '冷たい水の中で、じっと春を待っています。',
+        'ほとんど動かず、冬の眠りについています。',
+        // 時間帯ごとのログ
+        '朝もやの中、川が静かに光っています。',
+        '夜の散歩を終えて、岩の下へ戻っていきます。',
+        '明るいうちは岩の下でじっとしています。',
+        '明るいうちは岩の下にもぐって、目だけをのぞかせています。',
+        '夕暮れの光が水面に揺れています。',
+        '日が傾き、岩の下からそっと顔を出しました。',
+        '夜になって、ゆっくりと動き出しました。',
+        '暗い川底で、流れてくる小魚をじっと待ち伏せしています。',
+        '水面に星の光がゆれています。',
       ];
       expect(healthyMessages).toContain(log);
     });
   });
+
+  describe('シミュレーションコンテキストの注入', () => {
+    const baseState: AppState = {
+      startDate: '2024-01-01',
+      lastVisitDate: '2024-01-04',
+      lastGrowthDate: '2024-01-04',
+      sizeFactor: 1.0,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    };
+
+    test('getToday はコンテキストの時計を使う', () => {
+      const ctx = createSeededContext(1, '2024-01-05T12:00:00Z');
+      expect(getToday(ctx)).toBe('2024-01-05');
+    });
+
+    test('createInitialState はコンテキストの日付で開始する', () => {
+      const ctx = createSeededContext(1, '2024-01-05T12:00:00Z');
+      const state = createInitialState(ctx);
+
+      expect(state.startDate).toBe('2024-01-05');
+      expect(state.lastVisitDate).toBe('2024-01-05');
+      expect(state.lastGrowthDate).toBe('2024-01-05');
+    });
+
+    test('processCondition はコンテキストの日付で放置日数を数える', () => {
+      const ctx = createSeededContext(1, '2024-01-07T12:00:00Z');
+      const result = processCondition(baseState, ctx);
+
+      expect(result.condition).toBe('weak');
+      expect(result.lastVisitDate).toBe('2024-01-07');
+    });
+
+    test('同じシードと日付なら成長量が完全に一致する', () => {
+      const a = processGrowth(baseState, createSeededContext(99, '2024-01-05T12:00:00Z'));
+      const b = processGrowth(baseState, createSeededContext(99, '2024-01-05T12:00:00Z'));
+
+      expect(a.sizeFactor).toBe(b.sizeFactor);
+      expect(a.sizeFactor).toBeGreaterThanOrEqual(1.001);
+      expect(a.sizeFactor).toBeLessThanOrEqual(1.003);
+      expect(a.lastGrowthDate).toBe('2024-01-05');
+    });
+
+    test('乱数が 0 のとき最小の成長率になる', () => {
+      const ctx = { now: () => new Date('2024-01-05T12:00:00Z'), random: () => 0, timeZone: 'UTC' };
+      const result = processGrowth(baseState, ctx);
+
+      expect(result.sizeFactor).toBeCloseTo(1.001, 10);
+    });
+
+    test('日次ログは乱数に従って選ばれる', () => {
+      const ctx = { now: () => new Date('2024-01-05T12:00:00Z'), random: () => 0, timeZone: 'UTC' };
+      expect(generateDailyLog(baseState, ctx)).toBe('今日も静かに過ごしています。');
+
+      const lastCtx = { now: () => new Date('2024-01-05T12:00:00Z'), random: () => 0.99, timeZone: 'UTC' };
+      expect(generateDailyLog(baseState, lastCtx)).toBe('ほとんど動かず、冬の眠りについています。');
+    });
+
+    test('processVisit は同じシードと日付で同じ一日を再現する', () => {
+      const a = processVisit(baseState, createSeededContext(2024, '2024-01-05T12:00:00Z'));
+      const b = processVisit(baseState, createSeededContext(2024, '2024-01-05T12:00:00Z'));
+
+      expect(a).toEqual(b);
+      expect(a.lastVisitDate).toBe('2024-01-05');
+      expect(a.lastGrowthDate).toBe('2024-01-05');
+      expect(a.sizeFactor).toBeGreaterThan(1.0);
+    });
+  });
+
+  describe('ローカルタイムゾーンでの日付境界', () => {
+    const baseState: AppState = {
+      startDate: '2024-01-01',
+      lastVisitDate: '2024-01-04',
+      lastGrowthDate: '2024-01-04',
+      sizeFactor: 1.0,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    };
+
+    test('JST の 08:00 と 10:00 は同じ日として扱う', () => {
+      // 2024-01-05 08:00 JST = 2024-01-04 23:00 UTC
+      const morning = createSeededContext(1, '2024-01-04T23:00:00Z', 'Asia/Tokyo');
+      // 2024-01-05 10:00 JST = 2024-01-05 01:00 UTC
+      const later = createSeededContext(1, '2024-01-05T01:00:00Z', 'Asia/Tokyo');
+
+      expect(getToday(morning)).toBe('2024-01-05');
+      expect(getToday(later)).toBe('2024-01-05');
+
+      const first = processGrowth(baseState, morning);
+      const second = processGrowth(first, later);
+      expect(second).toBe(first);
+    });
+
+    test('日付はタイムゾーンごとに異なる', () => {
+      const instant = '2024-01-05T20:00:00Z';
+
+      expect(getToday(createSeededContext(1, instant, 'UTC'))).toBe('2024-01-05');
+      expect(getToday(createSeededContext(1, instant, 'Asia/Tokyo'))).toBe('2024-01-06');
+      expect(getToday(createSeededContext(1, instant, 'America/Los_Angeles'))).toBe('2024-01-05');
+    });
+
+    test('計算したタイムゾーンが状態に記録される', () => {
+      const ctx = createSeededContext(1, '2024-01-05T01:00:00Z', 'Asia/Tokyo');
+
+      expect(createInitialState(ctx).timeZone).toBe('Asia/Tokyo');
+      expect(processCondition(baseState, ctx).timeZone).toBe('Asia/Tokyo');
+      expect(processGrowth(baseState, ctx).timeZone).toBe('Asia/Tokyo');
+    });
+
+    test('タイムゾーンが変わっても暦日の差で放置日数を数える', () => {
+      const tokyoState: AppState = { ...baseState, timeZone: 'Asia/Tokyo' };
+      // ロサンゼルスでは 2024-01-06
+      const ctx = createSeededContext(1, '2024-01-06T20:00:00Z', 'America/Los_Angeles');
+      const result = processCondition(tokyoState, ctx);
+
+      expect(result.condition).toBe('healthy');
+      expect(result.lastVisitDate).toBe('2024-01-06');
+      expect(result.timeZone).toBe('America/Los_Angeles');
+    });
+  });
+
+  describe('姿が消えたあとのライフサイクル', () => {
+    const deadState: AppState = {
+      startDate: '2024-01-01',
+      lastVisitDate: '2024-01-20',
+      lastGrowthDate: '2024-01-10',
+      sizeFactor: 1.02,
+      condition: 'dead',
+      latestLog: '静かな川の流れだけが残っています。',
+      endDate: '2024-01-17',
+    };
+
+    test('dead は翌日訪問しても戻らない', () => {
+      const ctx = createSeededContext(1, '2024-01-21T12:00:00Z');
+      const result = processCondition(deadState, ctx);
+
+      expect(result.condition).toBe('dead');
+      expect(result.lastVisitDate).toBe('2024-01-21');
+      expect(result.endDate).toBe('2024-01-17');
+    });
+
+    test('dead になった日はしきい値を越えた日として記録される', () => {
+      const state: AppState = {
+        startDate: '2024-01-01',
+        lastVisitDate: '2024-01-10',
+        lastGrowthDate: '2024-01-10',
+        sizeFactor: 1.0,
+        condition: 'healthy',
+        latestLog: 'テスト',
+      };
+      const result = processCondition(state, createSeededContext(1, '2024-01-30T12:00:00Z'));
+
+      expect(result.condition).toBe('dead');
+      expect(result.endDate).toBe('2024-01-17');
+    });
+
+    test('お別れの記録を作成できる', () => {
+      expect(createFarewell(deadState)).toEqual({
+        startDate: '2024-01-01',
+        endDate: '2024-01-17',
+        finalSizeFactor: 1.02,
+        daysLived: 16,
+      });
+    });
+
+    test('お別れの記録は穏やかな文章になり、言語に合わせて書かれる', () => {
+      expect(describeFarewell(createFarewell(deadState))).toBe(
+        '2024-01-01 から 16 日間、この川で静かに過ごしました。'
+      );
+      expect(describeFarewell(createFarewell(deadState), 'en')).toBe(
+        'From 2024-01-01, it spent 16 quiet days in this river.'
+      );
+    });
+
+    test('名前をつけていた子はお別れの記録にも名前が残る', () => {
+      const farewell = createFarewell({ ...deadState, name: 'ハンザキ' });
+      expect(farewell.name).toBe('ハンザキ');
+      expect(describeFarewell(farewell)).toBe('ハンザキは、2024-01-01 から 16 日間、この川で静かに過ごしました。');
+      expect(describeFarewell(farewell, 'en')).toBe('From 2024-01-01, ハンザキ spent 16 quiet days in this river.');
+    });
+
+    test('新しい子を迎えると記録を引き継いで初期状態になる', () => {
+      const ctx = createSeededContext(1, '2024-01-21T12:00:00Z');
+      const result = welcomeNewSalamander(deadState, ctx);
+
+      expect(result.condition).toBe('healthy');
+      expect(result.startDate).toBe('2024-01-21');
+      expect(result.sizeFactor).toBe(1.0);
+      expect(result.endDate).toBeUndefined();
+      expect(result.farewells).toEqual([createFarewell(deadState)]);
+    });
+
+    test('記録は代々積み重なる', () => {
+      const previous = createFarewell({ ...deadState, startDate: '2023-06-01', endDate: '2023-12-01' });
+      const ctx = createSeededContext(1, '2024-01-21T12:00:00Z');
+      const result = welcomeNewSalamander({ ...deadState, farewells: [previous] }, ctx);
+
+      expect(result.farewells).toHaveLength(2);
+      expect(result.farewells?.[0]).toEqual(previous);
+    });
+
+    test('まだ川にいる子は入れ替えない', () => {
+      const alive: AppState = { ...deadState, condition: 'weak', endDate: undefined };
+      const ctx = createSeededContext(1, '2024-01-21T12:00:00Z');
+
+      expect(welcomeNewSalamander(alive, ctx)).toBe(alive);
+    });
+  });
+
+  describe('訪問しなかった日の再現', () => {
+    const visitedState: AppState = {
+      startDate: '2024-01-01',
+      lastVisitDate: '2024-01-10',
+      lastGrowthDate: '2024-01-10',
+      sizeFactor: 1.0,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    };
+    const at = (date: string) => createSeededContext(42, `${date}T12:00:00Z`);
+
+    test('放置日数に応じた状態を返す', () => {
+      expect(getConditionForGap(0)).toBe('healthy');
+      expect(getConditionForGap(2)).toBe('healthy');
+      expect(getConditionForGap(3)).toBe('weak');
+      expect(getConditionForGap(6)).toBe('weak');
+      expect(getConditionForGap(7)).toBe('dead');
+    });
+
+    test('しきい値を変えると元気がなくなる・姿が消えるまでの日数が延びる', () => {
+      const gentle = { weakDays: 7, deadDays: 21 };
+      expect(getConditionForGap(6, gentle)).toBe('healthy');
+      expect(getConditionForGap(7, gentle)).toBe('weak');
+      expect(getConditionForGap(20, gentle)).toBe('weak');
+      expect(getConditionForGap(21, gentle)).toBe('dead');
+    });
+
+    test('コンテキストのしきい値で放置を判定する', () => {
+      const ctx = { ...at('2024-01-20'), thresholds: { weakDays: 7, deadDays: 21 } };
+
+      expect(processCondition(visitedState, at('2024-01-20')).condition).toBe('dead');
+      expect(processCondition(visitedState, ctx).condition).toBe('weak');
+      expect(processVisit(visitedState, ctx).condition).toBe('weak');
+    });
+
+    test('前日まで訪問していれば何も再現しない', () => {
+      expect(replayMissedDays(visitedState, at('2024-01-11'))).toBe(visitedState);
+    });
+
+    test('しきい値を越えるまでの空白の日も1日ずつ成長する', () => {
+      const result = replayMissedDays(visitedState, at('2024-01-13'));
+
+      expect(result.lastGrowthDate).toBe('2024-01-12');
+      expect(result.condition).toBe('healthy');
+      expect(result.sizeFactor).toBeGreaterThan(1.001 * 1.001);
+      expect(result.sizeFactor).toBeLessThan(1.003 * 1.003);
+    });
+
+    test('毎日開いていた場合と同じ大きさになる', () => {
+      // 毎日開いた場合
+      let daily = processVisit(visitedState, at('2024-01-11'));
+      daily = processVisit(daily, at('2024-01-12'));
+
+      // 3日後にまとめて開いた場合（今日は弱っているので成長しない）
+      const caughtUp = processVisit(visitedState, at('2024-01-13'));
+
+      expect(caughtUp.sizeFactor).toBe(daily.sizeFactor);
+      expect(caughtUp.condition).toBe('weak');
+      expect(caughtUp.lastGrowthDate).toBe('2024-01-13');
+    });
+
+    test('放置が続くと途中で弱り、成長が止まる', () => {
+      const result = replayMissedDays(visitedState, at('2024-01-16'));
+      const untilWeak = replayMissedDays(visitedState, at('2024-01-13'));
+
+      expect(result.condition).toBe('weak');
+      expect(result.sizeFactor).toBe(untilWeak.sizeFactor);
+      expect(result.lastGrowthDate).toBe('2024-01-15');
+    });
+
+    test('しきい値を越えた日に姿が消え、その後は何も起きない', () => {
+      const result = replayMissedDays(visitedState, at('2024-03-01'));
+
+      expect(result.condition).toBe('dead');
+      expect(result.endDate).toBe('2024-01-17');
+      expect(result.lastGrowthDate).toBe('2024-02-29');
+    });
+
+    test('processVisit は空白の日を再現してから今日を処理する', () => {
+      const result = processVisit(visitedState, at('2024-01-20'));
+
+      expect(result.condition).toBe('dead');
+      expect(result.endDate).toBe('2024-01-17');
+      expect(result.lastVisitDate).toBe('2024-01-20');
+      expect(result.latestLog).toBe('静かな川の流れだけが残っています。');
+    });
+  });
+
+  describe('成長段階と成長の上限', () => {
+    const stateAt = (startDate: string, sizeFactor: number): AppState => ({
+      startDate,
+      lastVisitDate: '2030-01-01',
+      lastGrowthDate: '2030-01-01',
+      sizeFactor,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    });
+
+    test('年齢と大きさの両方を満たした段階になる', () => {
+      expect(getLifeStage(stateAt('2030-01-01', 1.0), '2030-01-01')).toBe('larva');
+      expect(getLifeStage(stateAt('2029-09-01', 1.2), '2030-01-01')).toBe('juvenile');
+      expect(getLifeStage(stateAt('2028-12-01', 1.7), '2030-01-01')).toBe('subadult');
+      expect(getLifeStage(stateAt('2027-01-01', 2.4), '2030-01-01')).toBe('adult');
+      expect(getLifeStage(stateAt('2010-01-01', 2.9), '2030-01-01')).toBe('elder');
+    });
+
+    test('年齢を満たしても大きさが足りなければ進まない', () => {
+      expect(getLifeStage(stateAt('2020-01-01', 1.1), '2030-01-01')).toBe('larva');
+      expect(getLifeStage(stateAt('2020-01-01', 2.0), '2030-01-01')).toBe('subadult');
+    });
+
+    test('大きくても年齢が足りなければ進まない', () => {
+      expect(getLifeStage(stateAt('2029-12-01', 2.9), '2030-01-01')).toBe('larva');
+    });
+
+    test('初期サイズでは従来どおり 0.1% 〜 0.3% 成長する', () => {
+      expect(getDailyGrowthRate(() => 0, 1.0)).toBeCloseTo(1.001, 10);
+      expect(getDailyGrowthRate(() => 1, 1.0)).toBeCloseTo(1.003, 10);
+    });
+
+    test('上限に近づくほど成長がゆるやかになり、上限で止まる', () => {
+      const rate = (size: number) => getDailyGrowthRate(() => 0.5, size);
+
+      expect(rate(2.0)).toBeLessThan(rate(1.0));
+      expect(rate(MAX_SIZE_FACTOR)).toBe(1.0);
+      expect(rate(MAX_SIZE_FACTOR + 1)).toBe(1.0);
+    });
+
+    test('毎日成長し続けても上限を超えない', () => {
+      let size = 1.0;
+      for (let i = 0; i < 365 * 30; i++) {
+        size *= getDailyGrowthRate(() => 1, size);
+      }
+
+      expect(size).toBeLessThanOrEqual(MAX_SIZE_FACTOR);
+      expect(size).toBeGreaterThan(MAX_SIZE_FACTOR * 0.99);
+    });
+
+    test('成長段階に応じたログが加わる', () => {
+      // 共通のログを最近使ったことにすると、次の候補は成長段階のログになる
+      const elder: AppState = {
+        ...stateAt('2010-01-01', 2.9),
+        recentLogIds: [
+          'healthy.quiet',
+          'healthy.growing',
+          'healthy.drifting',
+          'healthy.underRock',
+          'healthy.amongWeeds',
+        ],
+      };
+      const ctx = { now: () => new Date('2030-01-01T12:00:00Z'), random: () => 0, timeZone: 'UTC' };
+
+      expect(generateDailyLog(elder, ctx)).toBe('長い年月を川と共に過ごしています。');
+    });
+  });
+
+  describe('日次ログの言語と繰り返し', () => {
+    const state: AppState = {
+      startDate: '2024-01-01',
+      lastVisitDate: '2024-01-04',
+      lastGrowthDate: '2024-01-04',
+      sizeFactor: 1.0,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    };
+
+    test('コンテキストの言語でログを生成する', () => {
+      const ctx = { ...createSeededContext(1, '2024-01-05T12:00:00Z'), locale: 'en' as const };
+
+      expect(createInitialState(ctx).latestLog).toBe('Resting quietly at the bottom of the river.');
+      expect(generateDailyLog({ ...state, condition: 'dead' }, ctx)).toBe(
+        'Only the quiet flow of the river remains.'
+      );
+    });
+
+    test('表示中のログは文言の ID から、あとで選んだ言葉で表せる', () => {
+      const result = processVisit(state, createSeededContext(1, '2024-01-05T12:00:00Z'));
+
+      expect(result.latestLogId).toBe(result.recentLogIds?.[0]);
+      expect(getLatestLogText(result, 'ja')).toBe(result.latestLog);
+      expect(getLatestLogText(result, 'en')).toBe(getMessageText(result.latestLogId!, 'en'));
+      expect(getLatestLogText(result, 'en')).not.toBe(result.latestLog);
+      // 文言の ID を持たない古い保存データは、保存した文章のまま
+      expect(getLatestLogText(state, 'en')).toBe('テスト');
+    });
+
+    test('訪問するたびに表示したログを覚えておく', () => {
+      const result = processVisit(state, createSeededContext(1, '2024-01-05T12:00:00Z'));
+
+      expect(result.recentLogIds).toHaveLength(1);
+    });
+
+    test('数日のうちは同じログを繰り返さない', () => {
+      let current = state;
+      const logs: string[] = [];
+      ['2024-01-05', '2024-01-06', '2024-01-07'].forEach((date) => {
+        current = processVisit(current, createSeededContext(3, `${date}T12:00:00Z`));
+        logs.push(current.latestLog);
+      });
+
+      expect(new Set(logs).size).toBe(3);
+    });
+
+    test('1日に何度開いても、その日のログは選び直さず、繰り返さない日数も日ごとに数える', () => {
+      let current = state;
+      const logs: string[] = [];
+      ['2024-01-05', '2024-01-06', '2024-01-07'].forEach((date) => {
+        const daily = ['07:00', '12:00', '18:00', '22:00'].map((time, index) => {
+          current = processVisit(current, createSeededContext(index + 1, `${date}T${time}:00Z`));
+          return current.latestLog;
+        });
+        expect(new Set(daily).size).toBe(1);
+        expect(current.latestLogDate).toBe(date);
+        logs.push(daily[0]);
+      });
+
+      expect(current.recentLogIds).toHaveLength(NO_REPEAT_DAYS);
+      expect(new Set(logs).size).toBe(3);
+    });
+  });
 });
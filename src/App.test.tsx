@@ -1,17 +1,29 @@
 import React from 'react';
-import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Animated, Dimensions, StyleSheet } from 'react-native';
+import { render, fireEvent, waitFor, within, act } from '@testing-library/react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import App from './App';
+import { createAudioPlayer } from 'expo-audio';
+import App, { loadState, saveState, AppState, RenderMode } from './App';
 import {
   createInitialState,
-  loadState,
-  saveState,
   getDaysDiff,
   processGrowth,
   processCondition,
   generateDailyLog,
-  AppState,
-} from './App';
+} from './logic';
+import { createSeededContext, SimulationContext, systemContext } from './simulation';
+import { addDays } from './calendar';
+import { getToday } from './logic';
+import { createExportBundle, toTransferCode } from './transfer';
+import { DEFAULT_ROSTER } from './river';
+import { WeatherProvider } from './weather';
+import { MAX_LOG_FONT_SCALE } from './accessibility';
+import { RIPPLE_LIFETIME_MS } from './interaction';
+import { SoundEngine } from './sound';
+import { DEFAULT_PREFERENCES } from './preferences';
+import { STAGE_SPRITES } from './sprites';
+import { getMessageText } from './messages';
+import { RIVER_LAYOUT, resolveRect } from './movement';
 
 // AsyncStorage のモック
 jest.mock('@react-native-async-storage/async-storage', () => ({
@@ -21,9 +33,47 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
   clear: jest.fn(),
 }));
 
+// 端末版の水音の再生（作った音ごとに、鳴らしたかどうかを確かめられるようにする）
+jest.mock('expo-audio', () => ({
+  setAudioModeAsync: jest.fn().mockResolvedValue(undefined),
+  createAudioPlayer: jest.fn(() => ({
+    volume: 1,
+    loop: false,
+    playing: false,
+    play: jest.fn(),
+    pause: jest.fn(),
+    seekTo: jest.fn().mockResolvedValue(undefined),
+    setPlaybackRate: jest.fn(),
+    remove: jest.fn(),
+  })),
+}));
+
+// 端末のお知らせの予約（本物は読み込むだけで Expo Go 向けの警告を出すので、使う分だけ差し替える）
+jest.mock('expo-notifications', () => ({
+  AndroidImportance: { DEFAULT: 3 },
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+  setNotificationChannelAsync: jest.fn().mockResolvedValue(null),
+  cancelAllScheduledNotificationsAsync: jest.fn().mockResolvedValue(undefined),
+  scheduleNotificationAsync: jest.fn().mockResolvedValue(''),
+  getPermissionsAsync: jest.fn().mockResolvedValue({ granted: true }),
+  requestPermissionsAsync: jest.fn().mockResolvedValue({ granted: true }),
+}));
+
 const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+const mockCreateAudioPlayer = createAudioPlayer as jest.Mock;
+
+// 日次ログを日本語にそろえるため、端末の言語設定によらず日本語に決めたコンテキストを使う
+const jaContext: SimulationContext = { ...systemContext, locale: 'ja' };
+
+// 最後に保存した設定（音とお知らせの設定もこの中に保存する）
+const lastSavedPreferences = () => {
+  const saved = mockAsyncStorage.setItem.mock.calls.filter(([key]) => key === 'oosanRiverPreferences');
+  return saved.length > 0 ? JSON.parse(saved[saved.length - 1][1]).preferences : undefined;
+};
+
+const RENDER_MODES: RenderMode[] = ['illustrated', 'drawn'];
 
-describe('App コンポーネント', () => {
+describe.each(RENDER_MODES)('App コンポーネント（%s）', (renderMode) => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockAsyncStorage.getItem.mockResolvedValue(null);
@@ -31,11 +81,64 @@ describe('App コンポーネント', () => {
 
   test('初期レンダリングが正常に動作する', async () => {
     mockAsyncStorage.getItem.mockResolvedValue(null);
-    const { getByText } = render(<App />);
+    const { getByText } = render(<App context={jaContext} renderMode={renderMode} />);
     
     await waitFor(() => {
       const logElement = getByText(/川の底で静かに過ごしています|新しい住処を見つけました|今日も静かに過ごしています/);
       expect(logElement).toBeTruthy();
+    }, { timeout: 3000 }); // 最初の描画はモジュールの読み込みで時間がかかることがある
+  });
+
+  test('オオサンショウウオと水草が描かれる', async () => {
+    const { findByTestId, getAllByTestId, getByTestId } = render(
+      <App context={jaContext} renderMode={renderMode} />
+    );
+
+    expect(await findByTestId('oosan-image')).toBeTruthy();
+    expect(getAllByTestId('waterweed')).toHaveLength(3);
+    expect(getByTestId(renderMode === 'illustrated' ? 'river-image' : 'river-drawn')).toBeTruthy();
+  });
+
+  test('成長段階に合わせて、その段階の絵で描かれる', async () => {
+    const larva = render(<App context={jaContext} renderMode={renderMode} />);
+    expect((await larva.findByTestId('oosan-image')).props.source).toBe(STAGE_SPRITES.larva.source);
+    larva.unmount();
+
+    const today = getToday(systemContext);
+    const elderState: AppState = {
+      startDate: addDays(today, -4000),
+      lastVisitDate: today,
+      lastGrowthDate: today,
+      sizeFactor: 2.9,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    };
+    mockAsyncStorage.getItem.mockImplementation(async (key) =>
+      key === 'oosanRiverState' ? JSON.stringify(elderState) : null
+    );
+    const elder = render(<App context={jaContext} renderMode={renderMode} />);
+    expect((await elder.findByTestId('oosan-image')).props.source).toBe(STAGE_SPRITES.elder.source);
+    expect(STAGE_SPRITES.elder.source).not.toBe(STAGE_SPRITES.larva.source);
+  });
+
+  test('うろうろでよける岩と水草が、その配置の場所に描かれる', async () => {
+    const { findByTestId, getAllByTestId } = render(<App context={jaContext} renderMode={renderMode} />);
+
+    expect(await findByTestId('oosan-image')).toBeTruthy();
+    const { width, height } = Dimensions.get('window');
+    const rocks = RIVER_LAYOUT.filter((item) => item.kind === 'rock');
+    const weeds = RIVER_LAYOUT.filter((item) => item.kind === 'weed');
+    expect(getAllByTestId('rock')).toHaveLength(rocks.length);
+    expect(getAllByTestId('waterweed')).toHaveLength(weeds.length);
+    getAllByTestId('rock').forEach((rock, index) => {
+      expect(StyleSheet.flatten(rock.props.style)).toMatchObject(resolveRect(rocks[index], width, height));
+    });
+    getAllByTestId('waterweed').forEach((weed, index) => {
+      const rect = resolveRect(weeds[index], width, height);
+      const style = StyleSheet.flatten(weed.props.style);
+      // 茎の中心と根元が配置とそろう
+      expect(style.bottom).toBe(rect.bottom);
+      expect(Number(style.left) + Number(style.width) / 2).toBeCloseTo(rect.left + rect.width / 2);
     });
   });
 
@@ -49,15 +152,626 @@ describe('App コンポーネント', () => {
       latestLog: '静かな川の流れだけが残っています。',
     };
     
-    mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(deadState));
-    const { queryByTestId } = render(<App />);
+    mockAsyncStorage.getItem.mockImplementation(async (key) =>
+      key === 'oosanRiverState' ? JSON.stringify(deadState) : null
+    );
+    const { findByTestId, queryByTestId, queryAllByTestId } = render(<App context={jaContext} renderMode={renderMode} />);
     
+    // 読み込みが終わり、新しい子を迎えるボタンが出るまで待つ
+    expect(await findByTestId('welcome-button')).toBeTruthy();
+    expect(queryByTestId('oosan-image')).toBeNull();
+    // 水草は川のものなので、いなくなった子と一緒に消えない
+    expect(queryAllByTestId('waterweed')).toHaveLength(3);
+  });
+});
+
+describe('昼と夜', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  test('夜は川が暗くなり、オオサンショウウオは岩から出ている', async () => {
+    const night = createSeededContext(1, '2024-05-10T23:00:00Z');
+    const { findByTestId, getByTestId } = render(<App context={night} />);
+
+    expect((await findByTestId('oosan')).props.accessibilityLabel).not.toContain('隠れています');
+    expect(getByTestId('lighting')).toBeTruthy();
+  });
+
+  test('昼は岩の下に隠れている', async () => {
+    const noon = createSeededContext(1, '2024-05-10T12:00:00Z');
+    const { findByTestId, queryByTestId } = render(<App context={noon} renderMode="drawn" />);
+
+    expect((await findByTestId('oosan')).props.accessibilityLabel).toContain('今は岩の下に隠れています');
+    expect(queryByTestId('lighting')).toBeNull();
+  });
+});
+
+describe('読み上げと動きを減らす設定', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  const noon = createSeededContext(1, '2024-05-10T12:00:00Z');
+
+  test('オオサンショウウオの成長段階と様子を読み上げられる', async () => {
+    const { findByTestId, getByTestId } = render(<App context={noon} renderMode="drawn" />);
+
+    const oosan = await findByTestId('oosan');
+    expect(oosan.props.accessibilityRole).toBe('image');
+    expect(oosan.props.accessibilityLabel).toBe(
+      '幼生のオオサンショウウオ。迎えたときの 1.00 倍の大きさで、元気に過ごしています。今は岩の下に隠れています。'
+    );
+    expect(getByTestId('journal-button').props.accessibilityRole).toBe('button');
+    // 日次ログは文字の大きさの設定に合わせて大きくなり、変わると読み上げる
+    expect(getByTestId('daily-log').props.allowFontScaling).toBe(true);
+    expect(getByTestId('daily-log').props.maxFontSizeMultiplier).toBe(MAX_LOG_FONT_SCALE);
+    expect(getByTestId('daily-log').props.accessibilityLiveRegion).toBe('polite');
+  });
+
+  test('読み上げの操作からそっと見守れる', async () => {
+    const { findByTestId, getByTestId, queryByTestId } = render(<App context={noon} renderMode="drawn" />);
+
+    fireEvent(await findByTestId('oosan'), 'accessibilityAction', { nativeEvent: { actionName: 'longpress' } });
+    expect(await findByTestId('watching')).toBeTruthy();
+    expect(getByTestId('oosan').props.accessibilityLabel).toContain('そっと見守っています');
+
+    fireEvent(getByTestId('oosan'), 'accessibilityAction', { nativeEvent: { actionName: 'longpress' } });
+    await waitFor(() => expect(queryByTestId('watching')).toBeNull());
+  });
+
+  test('動きを減らす設定のときは水草を揺らさず、うろうろもしない', async () => {
+    const loop = jest.spyOn(Animated, 'loop');
+    const timing = jest.spyOn(Animated, 'timing');
+    try {
+      const { findByTestId } = render(<App context={noon} reduceMotion />);
+      expect(await findByTestId('oosan-image')).toBeTruthy();
+      expect(loop).not.toHaveBeenCalled();
+      expect(timing).not.toHaveBeenCalled();
+    } finally {
+      loop.mockRestore();
+      timing.mockRestore();
+    }
+  });
+
+  test('ふだんは水草が揺れ、うろうろする', async () => {
+    const loop = jest.spyOn(Animated, 'loop');
+    const timing = jest.spyOn(Animated, 'timing');
+    try {
+      const { findByTestId } = render(<App context={noon} />);
+      expect(await findByTestId('oosan-image')).toBeTruthy();
+      await waitFor(() => expect(loop).toHaveBeenCalled());
+      expect(timing).toHaveBeenCalled();
+    } finally {
+      loop.mockRestore();
+      timing.mockRestore();
+    }
+  });
+});
+
+describe('何匹かで暮らす', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  const noon = createSeededContext(1, '2024-05-10T12:00:00Z');
+  const resident = (condition: AppState['condition'], name?: string): AppState => ({
+    ...(name ? { name } : {}),
+    startDate: '2024-05-01',
+    lastVisitDate: '2024-05-10',
+    lastGrowthDate: '2024-05-10',
+    sizeFactor: 1.01,
+    condition,
+    latestLog: 'テスト',
+  });
+
+  test('1匹だけだった頃の記録は最初の子として読み込み、ほかの子と並んで暮らす', async () => {
+    mockAsyncStorage.getItem.mockImplementation(async (key) => {
+      if (key === 'oosanRiverState') return JSON.stringify(resident('dead'));
+      if (key === 'oosanRiverState.r1') return JSON.stringify(resident('healthy', 'ハンザキ'));
+      if (key === 'oosanRiverResidents') return JSON.stringify({ residentIds: ['main', 'r1'], focusedId: 'r1' });
+      return null;
+    });
+    const { findByTestId, findByText, getAllByTestId, getByTestId, queryByTestId } = render(
+      <App context={noon} renderMode="drawn" />
+    );
+
+    expect(await findByText('ハンザキ')).toBeTruthy();
+    expect(getByTestId('resident-0')).toBeTruthy();
+    // 姿が消えた最初の子は描かれず、ハンザキだけが泳いでいる
+    expect(getAllByTestId('oosan')).toHaveLength(1);
+    expect(queryByTestId('welcome-button')).toBeNull();
+
+    // 選んだ子の様子に切り替わり、選んだことを覚えておく
+    fireEvent.press(getByTestId('resident-0'));
+    expect(await findByTestId('welcome-button')).toBeTruthy();
+    await waitFor(() =>
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        'oosanRiverResidents',
+        JSON.stringify({ residentIds: ['main', 'r1'], focusedId: 'main' })
+      )
+    );
+  });
+
+  test('仲間を迎えると一緒に暮らしはじめ、3匹までで迎えられなくなる', async () => {
+    const { findByTestId, getAllByTestId, getByTestId, queryByTestId } = render(<App context={noon} renderMode="drawn" />);
+
+    expect(await findByTestId('oosan')).toBeTruthy();
+    expect(queryByTestId('resident-0')).toBeNull();
+
+    fireEvent.press(getByTestId('add-resident'));
+    await waitFor(() => expect(getAllByTestId('oosan')).toHaveLength(2));
+    expect(getByTestId('resident-1')).toBeTruthy();
+
+    fireEvent.press(getByTestId('add-resident'));
+    await waitFor(() => expect(getAllByTestId('oosan')).toHaveLength(3));
+    expect(queryByTestId('add-resident')).toBeNull();
+  });
+
+  test('迎えた子は自分の色味と模様を持ち、名前をつけると保存される', async () => {
+    const { findByTestId, getByTestId, queryByTestId } = render(<App context={noon} renderMode="drawn" />);
+
+    expect(await findByTestId('oosan-tint')).toBeTruthy();
+
+    fireEvent.press(getByTestId('name-button'));
+    fireEvent.changeText(getByTestId('name-input'), '  ハンザキ ');
+    fireEvent.press(getByTestId('name-save'));
+
+    expect(queryByTestId('name-view')).toBeNull();
+    await waitFor(() =>
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        'oosanRiverState',
+        expect.stringContaining('"name":"ハンザキ"')
+      )
+    );
+  });
+});
+
+describe('川の生きもの', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  test('夏の夜にはホタルが訪れ、図鑑に記録される', async () => {
+    const summerNight = createSeededContext(1, '2024-07-04T23:00:00Z');
+    const { findByTestId, getAllByText, getByTestId, getByText, queryByTestId } = render(
+      <App context={summerNight} />
+    );
+
+    expect(await findByTestId('visitor-firefly')).toBeTruthy();
+    expect(queryByTestId('visitor-dragonfly')).toBeNull();
+    await waitFor(() =>
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith('oosanRiverCollection', expect.stringContaining('firefly'))
+    );
+
+    fireEvent.press(getByTestId('settings-button'));
+    fireEvent.press(getByTestId('settings-collection'));
+    expect(getByTestId('collection-view')).toBeTruthy();
+    expect(getByText('ホタル')).toBeTruthy();
+    expect(getAllByText(/はじめて見た日 2024-07-04/).length).toBeGreaterThan(0);
+    // 見かけていない生きものは名前を伏せる
+    expect(getByTestId('collection-kingfisher')).toBeTruthy();
+    expect(() => getByText('カワセミ')).toThrow();
+  });
+});
+
+describe('触れ合い', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  const touchAt = (pageX: number, pageY: number) => ({ nativeEvent: { pageX, pageY } });
+
+  test('長押しするとそっと見守り、離すと元に戻る', async () => {
+    const { findByTestId, getByTestId, queryByTestId } = render(<App context={jaContext} />);
+    const river = await findByTestId('river');
+
+    fireEvent(river, 'responderGrant', touchAt(100, 300));
+    expect(await findByTestId('watching', {}, { timeout: 2000 })).toBeTruthy();
+    expect(getByTestId('oosan')).toBeTruthy();
+
+    fireEvent(river, 'responderRelease', touchAt(100, 300));
+    expect(queryByTestId('watching')).toBeNull();
+  });
+
+  test('つついたときの反応はコンテキストの乱数で決まる', async () => {
+    const night = createSeededContext(1, '2024-05-10T23:00:00Z');
+    const tap = async (random: () => number) => {
+      const engine: SoundEngine = {
+        isSupported: true,
+        unlock: jest.fn().mockResolvedValue(true),
+        setAmbient: jest.fn(),
+        playSplash: jest.fn(),
+        stop: jest.fn(),
+      };
+      // うろうろの水音が混ざらないよう、動きを減らして持ち場でじっとさせる
+      const view = render(<App context={{ ...night, locale: 'ja', random }} soundEngine={engine} reduceMotion />);
+      fireEvent(await view.findByTestId('oosan'), 'accessibilityAction', { nativeEvent: { actionName: 'activate' } });
+      view.unmount();
+      return engine.playSplash as jest.Mock;
+    };
+
+    // 必ず反応する乱数ならしぶきが上がり、決して反応しない乱数なら何も起きない
+    expect(await tap(() => 0)).toHaveBeenCalled();
+    expect(await tap(() => 0.999999)).not.toHaveBeenCalled();
+  });
+
+  test('水面をなぞると波紋が広がる', async () => {
+    const { findByTestId, getAllByTestId, queryAllByTestId, queryByTestId } = render(<App context={jaContext} />);
+    const river = await findByTestId('river');
+
+    fireEvent(river, 'responderGrant', touchAt(50, 200));
+    fireEvent(river, 'responderMove', touchAt(120, 200));
+    fireEvent(river, 'responderMove', touchAt(200, 200));
+    fireEvent(river, 'responderRelease', touchAt(200, 200));
+
+    expect(getAllByTestId('ripple')).toHaveLength(2);
+    // なぞったときは見守りにならない
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 700));
+    });
+    expect(queryByTestId('watching')).toBeNull();
+    // 波紋は広がり終わると消える
+    await waitFor(() => expect(queryAllByTestId('ripple')).toHaveLength(0), { timeout: RIPPLE_LIFETIME_MS });
+  });
+});
+
+describe('天気', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  test('雨で濁った川は色合いが変わる', async () => {
+    const provider: WeatherProvider = {
+      getWeather: jest.fn().mockResolvedValue({ rain: 25, temperature: 20, turbidity: 0.9 }),
+    };
+    const { findByTestId } = render(<App context={jaContext} weatherProvider={provider} />);
+
+    expect(await findByTestId('weather-tint')).toBeTruthy();
+    expect(provider.getWeather).toHaveBeenCalledWith(jaContext);
+  });
+
+  test('天気を取得できなくても川を開ける', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider: WeatherProvider = { getWeather: () => Promise.reject(new Error('offline')) };
+    const { findByTestId, queryByTestId } = render(<App context={jaContext} weatherProvider={provider} />);
+
+    expect(await findByTestId('daily-log')).toBeTruthy();
+    expect(queryByTestId('weather-tint')).toBeNull();
+    warn.mockRestore();
+  });
+});
+
+describe('川の音', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  const createEngine = (): SoundEngine => ({
+    isSupported: true,
+    unlock: jest.fn().mockResolvedValue(true),
+    setAmbient: jest.fn(),
+    playSplash: jest.fn(),
+    stop: jest.fn(),
+  });
+
+  test('雨の日は雨音が加わり、川に触れると鳴らせるようになる', async () => {
+    const engine = createEngine();
+    const provider: WeatherProvider = {
+      getWeather: jest.fn().mockResolvedValue({ rain: 25, temperature: 20, turbidity: 0.9 }),
+    };
+    const { findByTestId } = render(<App context={jaContext} weatherProvider={provider} soundEngine={engine} />);
+
+    await findByTestId('weather-tint');
+    await waitFor(() =>
+      expect(engine.setAmbient).toHaveBeenLastCalledWith({ river: expect.any(Number), rain: expect.any(Number) })
+    );
+    const mix = (engine.setAmbient as jest.Mock).mock.calls.slice(-1)[0][0];
+    expect(mix.rain).toBeGreaterThan(0);
+    expect(engine.unlock).not.toHaveBeenCalled();
+
+    fireEvent(await findByTestId('river'), 'responderGrant', { nativeEvent: { pageX: 100, pageY: 300 } });
+    expect(engine.unlock).toHaveBeenCalled();
+  });
+
+  test('音を消すと環境音が止まり、設定が保存される', async () => {
+    const engine = createEngine();
+    const { findByTestId, getByTestId } = render(<App context={jaContext} soundEngine={engine} />);
+
+    fireEvent.press(await findByTestId('settings-button'));
+    fireEvent.press(getByTestId('settings-sound'));
+    fireEvent.press(getByTestId('sound-toggle'));
+
+    await waitFor(() => expect(engine.setAmbient).toHaveBeenLastCalledWith({ river: 0, rain: 0 }));
+    expect(lastSavedPreferences()).toEqual({ ...DEFAULT_PREFERENCES, sound: { muted: true, volume: 0.6 } });
+  });
+
+  test('端末版は触れるのを待たずに川のせせらぎをくり返し鳴らし、閉じると止める', async () => {
+    const view = render(<App context={jaContext} />);
+
+    await waitFor(() => expect(mockCreateAudioPlayer).toHaveBeenCalledTimes(3));
+    const [river, rain, splash] = mockCreateAudioPlayer.mock.results.map((result) => result.value);
+    expect(river.loop).toBe(true);
+    expect(rain.loop).toBe(true);
+    expect(river.volume).toBeGreaterThan(0);
+    expect(river.play).toHaveBeenCalled();
+    // 晴れの日は雨音を鳴らさない
+    expect(rain.play).not.toHaveBeenCalled();
+
+    fireEvent.press(await view.findByTestId('settings-button'));
+    expect(view.getByTestId('settings-sound')).toBeTruthy();
+
+    view.unmount();
+    [river, rain, splash].forEach((player) => expect(player.remove).toHaveBeenCalled());
+  });
+
+  test('音を鳴らせない環境では設定に音の項目を出さない', async () => {
+    const { findByTestId, getByTestId, queryByTestId } = render(
+      <App context={jaContext} soundEngine={{ ...createEngine(), isSupported: false }} />
+    );
+
+    fireEvent.press(await findByTestId('settings-button'));
+    expect(getByTestId('settings-view')).toBeTruthy();
+    expect(queryByTestId('settings-sound')).toBeNull();
+    expect(getByTestId('settings-reminder')).toBeTruthy();
+  });
+});
+
+describe('お知らせの設定', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  test('設定を開いて時刻を変えられる', async () => {
+    const { findByTestId, getByTestId, getByText } = render(<App context={jaContext} />);
+
+    fireEvent.press(await findByTestId('settings-button'));
+    fireEvent.press(getByTestId('settings-reminder'));
+    const reminderView = within(getByTestId('reminder-view'));
+    expect(reminderView.getByText('オフ')).toBeTruthy();
+    expect(getByText('20:00')).toBeTruthy();
+
+    fireEvent.press(getByTestId('reminder-later'));
+    await waitFor(() => expect(getByText('20:30')).toBeTruthy());
+    expect(lastSavedPreferences()).toEqual({
+      ...DEFAULT_PREFERENCES,
+      reminder: { enabled: false, hour: 20, minute: 30 },
+    });
+  });
+});
+
+describe('設定', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  // 4日前に訪れたきりの子（ふだんなら元気がなくなっている）
+  const awayState = (): AppState => {
+    const today = getToday(systemContext);
+    return {
+      startDate: addDays(today, -10),
+      lastVisitDate: addDays(today, -4),
+      lastGrowthDate: addDays(today, -4),
+      sizeFactor: 1.0,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    };
+  };
+
+  const lastSavedCondition = () => {
+    const saved = mockAsyncStorage.setItem.mock.calls
+      .filter(([key]) => key === 'oosanRiverState')
+      .map(([, value]) => JSON.parse(value).state);
+    return saved[saved.length - 1].condition;
+  };
+
+  test('やさしいモードを切り替えると設定が保存される', async () => {
+    const { findByTestId, getByTestId } = render(<App context={jaContext} />);
+
+    fireEvent.press(await findByTestId('settings-button'));
+    expect(getByTestId('settings-view')).toBeTruthy();
+    fireEvent.press(getByTestId('settings-gentle'));
+    fireEvent.press(getByTestId('settings-motion-reduce'));
+
+    await waitFor(() =>
+      expect(lastSavedPreferences()).toEqual({ ...DEFAULT_PREFERENCES, gentleMode: true, motion: 'reduce' })
+    );
+  });
+
+  test('日次ログの言葉を変えると、表示中のログもその言葉になる', async () => {
+    const { findByTestId, getByTestId } = render(<App context={jaContext} />);
+
+    fireEvent.press(await findByTestId('settings-button'));
+    const saved = mockAsyncStorage.setItem.mock.calls.filter(([key]) => key === 'oosanRiverState');
+    const { latestLogId } = JSON.parse(saved[saved.length - 1][1]).state;
+    expect(getByTestId('daily-log').props.children).toBe(getMessageText(latestLogId, 'ja'));
+
+    fireEvent.press(getByTestId('settings-language-en'));
+    await waitFor(() => expect(getByTestId('daily-log').props.children).toBe(getMessageText(latestLogId, 'en')));
+  });
+
+  test('やさしいモードでは数日あいても元気なまま', async () => {
+    const preferences = { ...DEFAULT_PREFERENCES, gentleMode: true };
+    mockAsyncStorage.getItem.mockImplementation(async (key) => {
+      if (key === 'oosanRiverState') return JSON.stringify(awayState());
+      if (key === 'oosanRiverPreferences') return JSON.stringify({ schemaVersion: 1, preferences });
+      return null;
+    });
+    render(<App context={jaContext} />);
+
+    await waitFor(() => expect(lastSavedCondition()).toBe('healthy'));
+  });
+
+  test('ふだんは数日あくと元気がなくなる', async () => {
+    mockAsyncStorage.getItem.mockImplementation(async (key) =>
+      key === 'oosanRiverState' ? JSON.stringify(awayState()) : null
+    );
+    render(<App context={jaContext} />);
+
+    await waitFor(() => expect(lastSavedCondition()).toBe('weak'));
+  });
+});
+
+describe('引き継ぎ', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  test('引き継ぎコードを確かめてから、川に暮らす子たち全員と図鑑を読み込む', async () => {
+    const today = getToday(systemContext);
+    const imported: AppState = {
+      startDate: addDays(today, -30),
+      lastVisitDate: today,
+      lastGrowthDate: today,
+      sizeFactor: 1.05,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    };
+    const friend: AppState = { ...imported, startDate: addDays(today, -10), sizeFactor: 1.01, name: 'ゆら' };
+    const roster = { residentIds: ['main', 'rfriend1'], focusedId: 'rfriend1' };
+    const collection = { crab: { firstSeen: today, lastSeen: today, days: 1 } };
+    const bundle = createExportBundle(
+      roster,
+      [
+        { id: 'main', state: imported, journal: [] },
+        { id: 'rfriend1', state: friend, journal: [] },
+      ],
+      collection,
+      systemContext
+    );
+    const { findByTestId, getByTestId, getByText } = render(<App context={jaContext} />);
+
+    fireEvent.press(await findByTestId('settings-button'));
+    fireEvent.press(getByTestId('settings-transfer'));
+    fireEvent.changeText(getByTestId('transfer-import-input'), toTransferCode(bundle));
+    fireEvent.press(getByTestId('transfer-check'));
+    expect(getByTestId('transfer-preview')).toBeTruthy();
+    expect(getByText(/過ごした日数 30 日・大きさ 105.0/)).toBeTruthy();
+    expect(getByText(/過ごした日数 10 日・大きさ 101.0/)).toBeTruthy();
+    expect(getByText('図鑑の生きもの 1 種')).toBeTruthy();
+
+    fireEvent.press(getByTestId('transfer-confirm'));
     await waitFor(() => {
-      // オオサンショウウオの画像が表示されないことを確認
-      // 実際のテストでは、testIDを追加する必要があるかもしれません
-      expect(queryByTestId('oosan-image')).toBeNull();
+      const lastSaved = (key: string) => {
+        const saved = mockAsyncStorage.setItem.mock.calls.filter(([savedKey]) => savedKey === key);
+        return saved.length > 0 ? JSON.parse(saved[saved.length - 1][1]) : undefined;
+      };
+      expect(lastSaved('oosanRiverState')?.state.startDate).toBe(imported.startDate);
+      expect(lastSaved('oosanRiverState.rfriend1')?.state.name).toBe('ゆら');
+      expect(lastSaved('oosanRiverResidents')).toEqual(roster);
+      expect(lastSaved('oosanRiverCollection')).toEqual(collection);
     });
   });
+
+  test('書き換えられたデータは読み込まない', async () => {
+    const today = getToday(systemContext);
+    const original: AppState = {
+      startDate: today,
+      lastVisitDate: today,
+      lastGrowthDate: today,
+      sizeFactor: 1.0,
+      condition: 'healthy',
+      latestLog: 'テスト',
+    };
+    const bundle = createExportBundle(DEFAULT_ROSTER, [{ id: 'main', state: original, journal: [] }], {}, systemContext);
+    const [first] = bundle.residents;
+    const tampered = JSON.stringify({ ...bundle, residents: [{ ...first, state: { ...first.state, sizeFactor: 2.5 } }] });
+    const { findByTestId, getByTestId, getByText, queryByTestId } = render(<App context={jaContext} />);
+
+    fireEvent.press(await findByTestId('settings-button'));
+    fireEvent.press(getByTestId('settings-transfer'));
+    fireEvent.changeText(getByTestId('transfer-import-input'), tampered);
+    fireEvent.press(getByTestId('transfer-check'));
+    expect(getByText('データが書き換えられているか、壊れています')).toBeTruthy();
+    expect(queryByTestId('transfer-preview')).toBeNull();
+  });
+});
+
+describe('読み込めなかった保存データ', () => {
+  // 書き込んだ値を読み出せる AsyncStorage
+  let stored: Record<string, string>;
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    stored = {};
+    mockAsyncStorage.getItem.mockImplementation(async (key) => stored[key] ?? null);
+    mockAsyncStorage.setItem.mockImplementation(async (key, value) => {
+      stored[key] = value;
+    });
+    mockAsyncStorage.removeItem.mockImplementation(async (key) => {
+      delete stored[key];
+    });
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+    mockAsyncStorage.setItem.mockReset();
+    mockAsyncStorage.removeItem.mockReset();
+  });
+
+  test('壊れていたことを知らせ、退避した元のデータに戻せる', async () => {
+    stored.oosanRiverState = 'not json';
+    const { findByTestId, getAllByTestId, getByTestId } = render(<App context={jaContext} />);
+
+    expect(await findByTestId('recovery-view')).toBeTruthy();
+    expect(getAllByTestId('recovery-error').length).toBeGreaterThan(0);
+    expect(stored['oosanRiverState.backup']).toBe('not json');
+
+    fireEvent.press(getByTestId('recovery-restore'));
+    // 戻したデータも読めなければ、もう一度退避してたずねる
+    await waitFor(() => expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith('oosanRiverState.backup'));
+    expect(await findByTestId('recovery-view')).toBeTruthy();
+    expect(stored['oosanRiverState.backup']).toBe('not json');
+  });
+
+  test('元のデータを消すと、次からはたずねない', async () => {
+    stored.oosanRiverState = 'not json';
+    const first = render(<App context={jaContext} />);
+
+    fireEvent.press(await first.findByTestId('recovery-discard'));
+    await waitFor(() => expect(stored['oosanRiverState.backup']).toBeUndefined());
+    expect(first.queryByTestId('recovery-view')).toBeNull();
+    first.unmount();
+
+    const second = render(<App context={jaContext} />);
+    expect(await second.findByTestId('oosan')).toBeTruthy();
+    expect(second.queryByTestId('recovery-view')).toBeNull();
+  });
+
+  test('閉じただけなら、次に開いたときもたずねる', async () => {
+    stored.oosanRiverState = 'not json';
+    const first = render(<App context={jaContext} />);
+
+    fireEvent.press(await first.findByTestId('recovery-close'));
+    expect(first.queryByTestId('recovery-view')).toBeNull();
+    first.unmount();
+
+    const second = render(<App context={jaContext} />);
+    expect(await second.findByTestId('recovery-view')).toBeTruthy();
+  });
+
+  test('新しい版で保存されたデータは上書きせず、川を開かない', async () => {
+    const newer = JSON.stringify({ schemaVersion: 99, state: {} });
+    stored.oosanRiverState = newer;
+    const { findByTestId, queryByTestId } = render(<App context={jaContext} />);
+
+    expect(await findByTestId('unsupported-save')).toBeTruthy();
+    expect(queryByTestId('oosan')).toBeNull();
+    expect(stored.oosanRiverState).toBe(newer);
+    expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+  });
 });
 
 describe('ロジック関数のテスト', () => {
@@ -94,10 +808,10 @@ describe('ロジック関数のテスト', () => {
       await saveState(state);
       expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
         'oosanRiverState',
-        JSON.stringify(state)
+        JSON.stringify({ schemaVersion: 1, state })
       );
       
-      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(state));
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify({ schemaVersion: 1, state }));
       const loaded = await loadState();
       
       expect(loaded).toEqual(state);
@@ -306,6 +1020,11 @@ describe('ロジック関数のテスト', () => {
         '今日も静かに過ごしています。',
         'ゆっくりと時間が流れています。',
         '川の音が聞こえます。',
+        // 冬だけのログ
+        '冷たい水の中で、じっと春を待っています。',
+        'ほとんど動かず、冬の眠りについています。',
+        // 夜だけのログ
+        '水面に星の光がゆれています。',
       ];
       expect(weakMessages).toContain(log);
     });
@@ -342,6 +1061,22 @@ describe('ロジック関数のテスト', () => {
         '川の流れに身を任せています。',
         '岩の陰で休んでいます。',
         '水草の間を泳いでいます。',
+        // 幼生の時期だけのログ
+        '小さなえらをゆらしています。',
+        '砂利のすき間に隠れています。',
+        // 冬だけのログ
+        '冷たい水の中で、じっと春を待っています。',
+        'ほとんど動かず、冬の眠りについています。',
+        // 時間帯ごとのログ
+        '朝もやの中、川が静かに光っています。',
+        '夜の散歩を終えて、岩の下へ戻っていきます。',
+        '明るいうちは岩の下でじっとしています。',
+        '明るいうちは岩の下にもぐって、目だけをのぞかせています。',
+        '夕暮れの光が水面に揺れています。',
+        '日が傾き、岩の下からそっと顔を出しました。',
+        '夜になって、ゆっくりと動き出しました。',
+        '暗い川底で、流れてくる小魚をじっと待ち伏せしています。',
+        '水面に星の光がゆれています。',
       ];
       expect(healthyMessages).toContain(log);
     });
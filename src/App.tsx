@@ -1,96 +1,703 @@
 import React, { useState, useEffect } from 'react';
-import { StyleSheet, View, Text, Image, TouchableOpacity, Animated, Dimensions } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  Animated,
+  Dimensions,
+  Platform,
+  ScrollView,
+  GestureResponderEvent,
+  AccessibilityInfo,
+  AccessibilityActionEvent,
+} from 'react-native';
+import { Asset } from 'expo-asset';
 import {
   AppState,
   Condition,
+  createFarewell,
+  describeFarewell,
+  getLatestLogText,
+  getLifeStage,
+  getToday,
+  LifeStage,
   createInitialState,
-  processGrowth,
-  processCondition,
-  generateDailyLog,
+  processVisitWithHistory,
+  welcomeNewSalamander,
 } from './logic';
+import { SimulationContext, createDeviceContext } from './simulation';
+import {
+  discardBackup,
+  loadBackup,
+  loadCollection,
+  loadJournal,
+  loadPersistedState,
+  loadPreferences,
+  loadRoster,
+  loadState,
+  restoreBackup,
+  saveCollection,
+  saveJournal,
+  savePreferences,
+  saveRoster,
+  saveState,
+} from './storage';
+import { recordVisit } from './journal';
+import {
+  DEFAULT_ROSTER,
+  Resident,
+  Roster,
+  addToRoster,
+  canAddResident,
+  createResidentId,
+  focusResident,
+  getResidentLabel,
+} from './river';
+import JournalView from './JournalView';
+import { calculateStats } from './stats';
+import StatsView from './StatsView';
+import { CreatureCollection, CreatureId, getVisitorRandom, pickVisitors, recordSightings } from './ecosystem';
+import CollectionView from './CollectionView';
+import NameView from './NameView';
+import SoundView from './SoundView';
+import SettingsView from './SettingsView';
+import RecoveryView from './RecoveryView';
+import { applyPreferences, DEFAULT_PREFERENCES, Preferences, shouldReduceMotion } from './preferences';
+import { planRosterReminders, ReminderSettings } from './reminder';
+import { reminderScheduler } from './notifications';
+import ReminderView from './ReminderView';
+import { ExportBundle } from './transfer';
+import TransferView from './TransferView';
+import { STAGE_SPRITES } from './sprites';
+import { getSeason, getSeasonalScene } from './season';
+import { Weather, WeatherProvider, fetchWeather, getWeatherScene } from './weather';
+import { TimeOfDay, getTimeOfDay, getTimeOfDayScene } from './timeOfDay';
+import {
+  Body,
+  Facing,
+  LONG_PRESS_MS,
+  Point,
+  Ripple as RippleState,
+  addRipple,
+  classifyTap,
+  countRecentPokes,
+  decideReaction,
+  getFacingAway,
+  getFacingToward,
+  isDrag,
+  pruneRipples,
+  rememberPoke,
+} from './interaction';
+import { RESIDENT_ACTIONS, describeSalamander } from './accessibility';
+import { soundEngine as platformSoundEngine } from './audio';
+import { getBoldnessFactor } from './identity';
+import { HOME_BOTTOM, Keyframe, RIVER_LAYOUT, resolveRect } from './movement';
+import {
+  SoundEngine,
+  SoundSettings,
+  getAmbientMix,
+  getMoveSplash,
+  getReactionSplash,
+} from './sound';
+import { DEFAULT_RENDER_MODE, RenderMode } from './components/renderMode';
+import RiverBackground from './components/RiverBackground';
+import WanderingSalamander from './components/WanderingSalamander';
+import Waterweed from './components/Waterweed';
+import DailyLogBanner from './components/DailyLogBanner';
+import UpdateBanner from './components/UpdateBanner';
+import Ripple from './components/Ripple';
+import Visitor from './components/Visitor';
+import { applyUpdate, registerServiceWorker } from './pwa';
 
 // 型を再エクスポート（後方互換性のため）
-export type { Condition, AppState };
+export type { Condition, AppState, RenderMode };
 
-// AsyncStorage のキー
-const STORAGE_KEY = 'oosanRiverState';
+// 保存・読み込みは storage モジュールに任せる
+export { loadState, saveState };
 
-// AsyncStorage から状態を読み込む
-export const loadState = async (): Promise<AppState> => {
-  try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (error) {
-    console.error('Failed to load state:', error);
-  }
-  return createInitialState();
-};
+interface AppProps {
+  // テストなどで時計と乱数を差し替えるためのコンテキスト
+  context?: SimulationContext;
+  // 川の描き方（画像を使うか、View で軽く描くか）
+  renderMode?: RenderMode;
+  // 天気の取得（省略時は天気を使わない）
+  weatherProvider?: WeatherProvider;
+  // 動きを減らすか（省略時は端末の「視差効果を減らす」などの設定に従う）
+  reduceMotion?: boolean;
+  // 川の音を鳴らす仕組み（省略時は Web 版なら Web Audio API）
+  soundEngine?: SoundEngine;
+}
 
-// AsyncStorage に状態を保存
-export const saveState = async (state: AppState): Promise<void> => {
-  try {
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  } catch (error) {
-    console.error('Failed to save state:', error);
-  }
-};
+// 端末の時計・タイムゾーン・言語設定を使うコンテキスト
+const deviceContext = createDeviceContext();
+
+// 時間帯が変わっていないか確かめる間隔
+const TIME_OF_DAY_CHECK_MS = 60 * 1000;
+
+// 川の絵に使う画像（プリロードと Web 版のオフライン保存に使う）
+const SCENE_IMAGES = [
+  require('../assets/river.png'),
+  ...Object.values(STAGE_SPRITES).map((sprite) => sprite.source),
+  require('../assets/mizukusa.png'),
+];
 
 // メインコンポーネント
-const App: React.FC = () => {
-  const [state, setState] = useState<AppState | null>(null);
-  const [isPetting, setIsPetting] = useState(false);
+const App: React.FC<AppProps> = ({
+  context = deviceContext,
+  renderMode = DEFAULT_RENDER_MODE,
+  weatherProvider,
+  reduceMotion: reduceMotionOverride,
+  soundEngine = platformSoundEngine,
+}) => {
+  const isIllustrated = renderMode === 'illustrated';
+  // 川に暮らす子たち（読み込むまでは空）と、いま見ている子
+  const [residents, setResidents] = useState<Resident[]>([]);
+  // 保存し終えたあとの処理から全員の最新の様子を参照する
+  const residentsRef = React.useRef<Resident[]>([]);
+  const [roster, setRoster] = useState<Roster>(DEFAULT_ROSTER);
+  const focused = residents.find((resident) => resident.id === roster.focusedId) ?? residents[0];
+  const state = focused ? focused.state : null;
+  const journal = focused ? focused.journal : [];
+  const [showJournal, setShowJournal] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showReminder, setShowReminder] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showCollection, setShowCollection] = useState(false);
+  const [showName, setShowName] = useState(false);
+  const [showSound, setShowSound] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // 生きもの図鑑と、今川に来ている生きもの
+  const [collection, setCollection] = useState<CreatureCollection>({});
+  const [visitors, setVisitors] = useState<CreatureId[]>([]);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+  // 読み込めずに退避した保存データ（戻すか消すかを選ぶまで残す）と、今回読み込めなかった理由
+  const [recovery, setRecovery] = useState<{ residentIds: string[]; errors: string[] } | null>(null);
+  // このアプリより新しい版の保存データがあるか（読めないので何も書き込まない）
+  const [unsupportedSave, setUnsupportedSave] = useState(false);
+  // ユーザーの設定（日次ログの言葉・やさしいモード・動き・音・お知らせ）
+  // うろうろの水音や保存し終えたあとの処理では ref から最新の設定を参照する
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const preferencesRef = React.useRef<Preferences>(DEFAULT_PREFERENCES);
+  // 長押しでそっと見守っている間（うろうろを止めてこちらを向く）
+  const [watching, setWatching] = useState(false);
+  // 子ごとの向き
+  const [facings, setFacings] = useState<Record<string, Facing>>({});
+  const [ripples, setRipples] = useState<RippleState[]>([]);
+  // 最近つついた時刻（つつきすぎると反応しにくくなる）
+  const pokesRef = React.useRef<number[]>([]);
+  // 押している指の様子
+  const pressRef = React.useRef<{ start: Point; moved: boolean } | null>(null);
+  const longPressTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const nextRippleIdRef = React.useRef(0);
+  // いま見ている子の位置（画面の中央・ふだんの高さからのずれ。タップした場所との位置関係に使う）
+  const focusedPositionRef = React.useRef<Point>({ x: 0, y: 0 });
+  // 開いたときの天気（取得できなければ null）
+  const [weather, setWeather] = useState<Weather | null>(null);
+  // 今の時間帯（開いている間も移り変わる）
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>(() => getTimeOfDay(context.now(), context.timeZone));
+  // Web 版で新しい版が待機しているときの登録
+  const [pendingUpdate, setPendingUpdate] = useState<ServiceWorkerRegistration | null>(null);
+  // 端末の動きを減らす設定（指定があればそちらを使う）
+  const [systemReduceMotion, setSystemReduceMotion] = useState(false);
+  const reduceMotion = reduceMotionOverride ?? shouldReduceMotion(preferences, systemReduceMotion);
+  // drawn では画像を使わないので読み込みを待たない
+  const [imagesLoaded, setImagesLoaded] = useState(!isIllustrated || Platform.OS === 'web');
+  const stage: LifeStage = state ? getLifeStage(state, state.lastVisitDate) : 'larva';
+  // 訪れた日の季節の川の様子
+  const scene = getSeasonalScene(state ? state.lastVisitDate : getToday(context));
+  // 天気による川の様子
+  const weatherScene = getWeatherScene(weather);
+  // 時間帯による川の様子
+  const timeOfDayScene = getTimeOfDayScene(timeOfDay);
   const scaleAnim = React.useRef(new Animated.Value(1)).current;
+  // 水草のアニメーション用（2個）
+  const swayAnim1 = React.useRef(new Animated.Value(0)).current;
+  const swayAnim2 = React.useRef(new Animated.Value(0)).current;
 
-  // 初回マウント時に状態を読み込む
+  // 画像をプリロード
   useEffect(() => {
-    const initializeState = async () => {
-      const loadedState = await loadState();
-      const today = new Date().toISOString().split('T')[0];
-      
-      // 状態を更新
-      let updatedState = processCondition(loadedState);
-      updatedState = processGrowth(updatedState);
-      
-      // 日次ログを生成
-      const newLog = generateDailyLog(updatedState);
-      if (updatedState.lastVisitDate === today) {
-        updatedState.latestLog = newLog;
+    if (imagesLoaded) return;
+
+    const loadImages = async () => {
+      try {
+        await Asset.loadAsync(SCENE_IMAGES);
+        setImagesLoaded(true);
+      } catch (error) {
+        console.error('Failed to load images:', error);
+        setImagesLoaded(true); // エラーでも続行
+      }
+    };
+    loadImages();
+  }, []);
+
+  // Web 版ではサービスワーカーを登録してオフラインでも開けるようにする
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+      return;
+    }
+
+    registerServiceWorker(
+      navigator.serviceWorker,
+      Array.from(document.scripts).map((script) => script.src),
+      {
+        onUpdateReady: setPendingUpdate,
+        precacheUrls: SCENE_IMAGES.map((image) => Asset.fromModule(image).uri),
       }
-      
-      setState(updatedState);
-      await saveState(updatedState);
+    );
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
     };
+  }, []);
+
+  // 動きを減らす設定を読み、変わったら追いかける
+  useEffect(() => {
+    if (reduceMotionOverride !== undefined) return;
+
+    AccessibilityInfo.isReduceMotionEnabled()
+      .then(setSystemReduceMotion)
+      .catch((error) => console.error('Failed to read reduce motion setting:', error));
+    const subscription = AccessibilityInfo.addEventListener('reduceMotionChanged', setSystemReduceMotion);
+    return () => subscription.remove();
+  }, [reduceMotionOverride]);
+
+  // 天気と時間帯に合わせて川の音を変える（ブラウザでは川に触れるまでは鳴らない）
+  const ambientMix = getAmbientMix(weather, timeOfDay, preferences.sound);
+  useEffect(() => {
+    soundEngine.setAmbient(ambientMix);
+  }, [ambientMix.river, ambientMix.rain]);
+
+  useEffect(() => {
+    return () => soundEngine.stop();
+  }, []);
+
+  // 開いている間も時間帯の移り変わりに合わせて光と動き方を変える
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setTimeOfDay(getTimeOfDay(context.now(), context.timeZone));
+    }, TIME_OF_DAY_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 設定（日次ログの言葉・やさしいモード）を反映したコンテキスト
+  const getAppContext = (): SimulationContext => applyPreferences(context, preferencesRef.current);
+
+  // 川に暮らす子たち全員の様子から、お知らせを予約し直す
+  const rescheduleReminders = async (settings: ReminderSettings) => {
+    const states = residentsRef.current.map((resident) => resident.state);
+    await reminderScheduler.schedule(planRosterReminders(states, settings, getAppContext()));
+  };
+
+  // 川に暮らす子たちを置き換える
+  const replaceResidents = (updated: Resident[]) => {
+    residentsRef.current = updated;
+    setResidents(updated);
+  };
+
+  // 子たちの状態と日記を保存し、保存し終えたらお知らせを1度だけ予約し直す
+  const saveResidents = async (saved: Resident[]) => {
+    for (const resident of saved) {
+      await saveState(resident.state, resident.id);
+      await saveJournal(resident.journal, resident.id);
+    }
+    if (preferencesRef.current.reminder.enabled) {
+      await rescheduleReminders(preferencesRef.current.reminder);
+    }
+  };
+
+  // 子の状態と日記を置き換えて保存する
+  const updateResident = async (resident: Resident) => {
+    replaceResidents(residentsRef.current.map((other) => (other.id === resident.id ? resident : other)));
+    await saveResidents([resident]);
+  };
+
+  // 1匹がこの川を訪れられる（空白の日の再現 → 放置判定 → 成長 → 日次ログ）
+  const visitResident = (resident: Resident, currentWeather: Weather | null): Resident => {
+    const appContext = getAppContext();
+    const visitContext = currentWeather ? { ...appContext, weather: currentWeather } : appContext;
+    const { state: updatedState, missedDays } = processVisitWithHistory(resident.state, visitContext);
+    return { ...resident, state: updatedState, journal: recordVisit(resident.journal, missedDays, updatedState) };
+  };
 
+  // 保存データを読み込み、川に暮らす子たちがそれぞれこの川を訪れる
+  const initializeState = async () => {
+    const [
+      loadedRoster,
+      loadedPreferences,
+      loadedCollection,
+      loadedWeather,
+    ] = await Promise.all([
+      loadRoster(),
+      loadPreferences(),
+      loadCollection(),
+      weatherProvider ? fetchWeather(weatherProvider, context) : null,
+    ]);
+    // やさしいモードなどの設定を反映してから訪れる
+    preferencesRef.current = loadedPreferences;
+    setPreferences(loadedPreferences);
+    const loaded = await Promise.all(
+      loadedRoster.residentIds.map(async (id) => ({
+        id,
+        result: await loadPersistedState(context, id),
+        journal: await loadJournal(id),
+        backup: await loadBackup(id),
+      }))
+    );
+    // 新しい版で保存されたデータは読まずに残し、上書きしないよう川も開かない
+    if (loaded.some(({ result }) => result.status === 'unsupported')) {
+      setUnsupportedSave(true);
+      return;
+    }
+    // 読み込めずに退避したデータがあれば知らせる（前に開いたときのものも、選ぶまでたずねる）
+    const backedUp = loaded.filter(({ backup }) => backup !== null).map(({ id }) => id);
+    setRecovery(
+      backedUp.length > 0
+        ? { residentIds: backedUp, errors: loaded.flatMap(({ result }) => result.errors) }
+        : null
+    );
+    // 川に暮らす子たちが、それぞれこの川を訪れる
+    const visitedResidents = loaded.map(({ id, result, journal: loadedJournal }) =>
+      visitResident({ id, state: result.state, journal: loadedJournal }, loadedWeather)
+    );
+
+    setCollection(loadedCollection);
+    setWeather(loadedWeather);
+    setRoster(loadedRoster);
+    replaceResidents(visitedResidents);
+    await saveResidents(visitedResidents);
+  };
+
+  // 初回マウント時に状態を読み込む
+  useEffect(() => {
     initializeState();
   }, []);
 
-  // なでる挙動（タップ）
-  const handlePress = () => {
+  // 季節と時間帯、オオサンショウウオの様子に合わせてほかの生きものが訪れ、見かけたものを図鑑に記録する
+  // 何匹かで暮らしていても、川の顔ぶれは最初の子で決める
+  const primary = residents.length > 0 ? residents[0].state : null;
+  useEffect(() => {
+    if (!primary) return;
+
+    const date = primary.lastVisitDate;
+    const found = pickVisitors(
+      { season: getSeason(date), timeOfDay, condition: primary.condition },
+      getVisitorRandom(primary, date, timeOfDay)
+    );
+    setVisitors(found);
+    const updated = recordSightings(collection, found, date);
+    if (updated !== collection) {
+      setCollection(updated);
+      saveCollection(updated);
+    }
+  }, [primary?.startDate, primary?.lastVisitDate, primary?.condition, timeOfDay]);
+
+  // 水草のゆらゆらアニメーション（季節と雨による流れで揺れの速さが変わる）
+  // 動きを減らす設定のときは揺らさず、まっすぐ立たせておく
+  useEffect(() => {
+    if (!isIllustrated) return;
+    if (reduceMotion) {
+      swayAnim1.setValue(0);
+      swayAnim2.setValue(0);
+      return;
+    }
+
+    const createSwayAnimation = (animValue: Animated.Value, delay: number, duration: number) => {
+      return Animated.loop(
+        Animated.sequence([
+          Animated.delay(delay),
+          Animated.timing(animValue, {
+            toValue: 1,
+            duration: duration,
+            useNativeDriver: true,
+          }),
+          Animated.timing(animValue, {
+            toValue: -1,
+            duration: duration,
+            useNativeDriver: true,
+          }),
+        ])
+      );
+    };
+
+    const swaySpeed = scene.swaySpeed * weatherScene.swaySpeed;
+    const anim1 = createSwayAnimation(swayAnim1, 0, 2000 / swaySpeed);
+    const anim2 = createSwayAnimation(swayAnim2, 500, 1800 / swaySpeed);
+
+    anim1.start();
+    anim2.start();
+
+    return () => {
+      anim1.stop();
+      anim2.stop();
+    };
+  }, [isIllustrated, scene.id, weatherScene.swaySpeed, reduceMotion]);
+
+  // 今のオオサンショウウオの姿の範囲
+  const getSalamanderBody = (): Body => {
+    const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+    const width = (state?.sizeFactor ?? 1) * 100;
+    const height = width * STAGE_SPRITES[stage].aspectRatio;
+    return {
+      x: screenWidth / 2 + focusedPositionRef.current.x,
+      y: screenHeight - screenHeight * HOME_BOTTOM - height / 2 + focusedPositionRef.current.y,
+      width,
+      height,
+    };
+  };
+
+  // いま見ている子の向きを変える
+  const setFacing = (value: Facing) => {
+    if (!focused) return;
+    setFacings((current) => ({ ...current, [focused.id]: value }));
+  };
+
+  const toPoint = (event: GestureResponderEvent): Point => ({
+    x: event.nativeEvent.pageX,
+    y: event.nativeEvent.pageY,
+  });
+
+  const pulse = (toValue: number) => {
+    Animated.sequence([
+      Animated.timing(scaleAnim, { toValue, duration: 200, useNativeDriver: true }),
+      Animated.timing(scaleAnim, { toValue: 1, duration: 300, useNativeDriver: true }),
+    ]).start();
+  };
+
+  // つつく（タップした場所・状態・時間帯・最近つついた回数で反応が決まる）
+  const handleTap = (point: Point) => {
     if (!state) return;
-    
-    // 10% の確率でアニメーション（weak状態のときは動かない）
-    if (Math.random() < 0.1 && state.condition === 'healthy') {
-      setIsPetting(true);
-      Animated.sequence([
-        Animated.timing(scaleAnim, {
-          toValue: 1.05,
-          duration: 200,
-          useNativeDriver: true,
-        }),
-        Animated.timing(scaleAnim, {
-          toValue: 1,
-          duration: 300,
-          useNativeDriver: true,
-        }),
-      ]).start(() => {
-        setIsPetting(false);
-      });
+
+    // 時計と乱数はコンテキストのものを使う（テストでは反応を決めておける）
+    const now = context.now().getTime();
+    const body = getSalamanderBody();
+    const reaction = decideReaction(
+      {
+        condition: state.condition,
+        timeOfDay,
+        zone: classifyTap(point, body),
+        recentPokes: countRecentPokes(pokesRef.current, now),
+        boldness: getBoldnessFactor(state.traits),
+      },
+      context.random
+    );
+    pokesRef.current = rememberPoke(pokesRef.current, now);
+    const splash = getReactionSplash(reaction, preferences.sound);
+    if (splash > 0) soundEngine.playSplash(splash);
+
+    if (reaction === 'pulse') {
+      pulse(1.05);
+    } else if (reaction === 'turn') {
+      setFacing(getFacingToward(point, body));
+    } else if (reaction === 'startle') {
+      setFacing(getFacingAway(point, body));
+      pulse(0.92);
+    }
+  };
+
+  // 指を置いたとき（しばらく動かさなければ見守りはじめる）
+  const handleTouchStart = (event: GestureResponderEvent) => {
+    // ブラウザは触れたときにはじめて音を鳴らせる
+    soundEngine.unlock();
+    const start = toPoint(event);
+    pressRef.current = { start, moved: false };
+    longPressTimerRef.current = setTimeout(() => {
+      if (pressRef.current && !pressRef.current.moved && state?.condition !== 'dead') {
+        setFacing(getFacingToward(start, getSalamanderBody()));
+        setWatching(true);
+      }
+    }, LONG_PRESS_MS);
+  };
+
+  // 指を動かしたとき（見守っている間は指の方を向き、それ以外は水面に波紋を描く）
+  const handleTouchMove = (event: GestureResponderEvent) => {
+    const press = pressRef.current;
+    if (!press) return;
+
+    const point = toPoint(event);
+    if (watching) {
+      setFacing(getFacingToward(point, getSalamanderBody()));
+      return;
+    }
+    if (!press.moved && !isDrag(press.start, point)) return;
+
+    press.moved = true;
+    if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
+    const now = context.now().getTime();
+    const id = nextRippleIdRef.current++;
+    setRipples((current) => addRipple(pruneRipples(current, now), point, now, id));
+  };
+
+  // 指を離したとき
+  const handleTouchEnd = (event: GestureResponderEvent) => {
+    const press = pressRef.current;
+    pressRef.current = null;
+    if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
+
+    if (watching) {
+      setWatching(false);
+    } else if (press && !press.moved) {
+      handleTap(toPoint(event));
+    }
+  };
+
+  // スクロールなどに指を奪われたとき
+  const handleTouchCancel = () => {
+    pressRef.current = null;
+    if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
+    setWatching(false);
+  };
+
+  // 読み上げから選んだ操作（見ている子はつついたり見守ったりでき、ほかの子は選ぶとその子を見る）
+  const handleAccessibilityAction = (resident: Resident, event: AccessibilityActionEvent) => {
+    const { actionName } = event.nativeEvent;
+    if (resident.id !== focused?.id) {
+      if (actionName === 'activate') handleFocus(resident.id);
+      return;
+    }
+    if (actionName === 'activate') {
+      const body = getSalamanderBody();
+      handleTap({ x: body.x, y: body.y });
+    } else if (actionName === 'longpress') {
+      setWatching((current) => !current);
+    }
+  };
+
+  // うろうろの動き出しに、ときどき水音を鳴らす（鳴らすかどうかもコンテキストの乱数で決める）
+  const handleMove = (keyframe: Keyframe) => {
+    const splash = getMoveSplash(keyframe, preferencesRef.current.sound, context.random);
+    if (splash > 0) soundEngine.playSplash(splash);
+  };
+
+  // 設定を置き換えて保存する
+  const updatePreferences = async (updated: Preferences) => {
+    preferencesRef.current = updated;
+    setPreferences(updated);
+    await savePreferences(updated);
+  };
+
+  // 音の設定を変える（設定を変えたときも、触れたときと同じく音を鳴らせるようにする）
+  const handleSoundChange = async (sound: SoundSettings) => {
+    soundEngine.unlock();
+    await updatePreferences({ ...preferencesRef.current, sound });
+  };
+
+  // お知らせの設定を変える（オンにするときだけ通知の許可を求める）
+  const handleReminderChange = async (reminder: ReminderSettings) => {
+    if (reminder.enabled && !preferencesRef.current.reminder.enabled) {
+      const granted = await reminderScheduler.requestPermission();
+      setPermissionDenied(!granted);
+      if (!granted) return;
+    }
+
+    await updatePreferences({ ...preferencesRef.current, reminder });
+    if (state) {
+      await rescheduleReminders(reminder);
+    }
+  };
+
+  // 設定を変える（やさしいモードではお知らせの日数も変わるので予約し直す）
+  const handlePreferencesChange = async (updated: Preferences) => {
+    await updatePreferences(updated);
+    if (state && updated.reminder.enabled) {
+      await rescheduleReminders(updated.reminder);
+    }
+  };
+
+  // 引き継いだ記録（子たち全員と図鑑）で川を続ける（書き出した日からの空白の日も再現する）
+  const handleImport = async (bundle: ExportBundle) => {
+    setShowTransfer(false);
+    setShowSettings(false);
+    const imported = bundle.residents.map((resident) => visitResident(resident, weather));
+    replaceResidents(imported);
+    setRoster(bundle.roster);
+    setCollection(bundle.collection);
+    setWatching(false);
+    await saveResidents(imported);
+    await saveRoster(bundle.roster);
+    await saveCollection(bundle.collection);
+  };
+
+  // 新しい版に切り替える（ユーザーが選んだときだけ読み込み直す）
+  const handleApplyUpdate = () => {
+    if (!pendingUpdate) return;
+    applyUpdate(pendingUpdate, navigator.serviceWorker, () => window.location.reload());
+  };
+
+  // 新しい子を迎える（姿が消えたあと、ユーザーが選んだときだけ）
+  const handleWelcome = async () => {
+    if (!focused) return;
+
+    const newState = welcomeNewSalamander(focused.state, getAppContext());
+    await updateResident({ ...focused, state: newState, journal: recordVisit(focused.journal, [], newState) });
+  };
+
+  // 見る子を選ぶ
+  const handleFocus = async (id: string) => {
+    const updated = focusResident(roster, id);
+    setRoster(updated);
+    setWatching(false);
+    await saveRoster(updated);
+  };
+
+  // 見ている子に名前をつける（空なら名前を外す）
+  const handleRename = async (name: string | undefined) => {
+    setShowName(false);
+    if (!focused) return;
+
+    await updateResident({ ...focused, state: { ...focused.state, name } });
+  };
+
+  // 一緒に暮らす子を迎える
+  const handleAddResident = async () => {
+    if (!canAddResident(roster)) return;
+
+    const appContext = getAppContext();
+    const newState = createInitialState(appContext);
+    const resident: Resident = { id: createResidentId(appContext), state: newState, journal: recordVisit([], [], newState) };
+    const updated = addToRoster(roster, resident.id);
+    replaceResidents([...residentsRef.current, resident]);
+    setRoster(updated);
+    setWatching(false);
+    await saveResidents([resident]);
+    await saveRoster(updated);
+  };
+
+  // 退避した元のデータを戻し、読み込み直す（戻したデータも読めなければ、また退避してたずねる）
+  const handleRestoreBackup = async () => {
+    if (!recovery) return;
+    for (const id of recovery.residentIds) {
+      await restoreBackup(id);
+    }
+    setRecovery(null);
+    await initializeState();
+  };
+
+  // 退避した元のデータを消して、今の子のまま続ける
+  const handleDiscardBackup = async () => {
+    if (!recovery) return;
+    for (const id of recovery.residentIds) {
+      await discardBackup(id);
     }
+    setRecovery(null);
   };
 
+  if (unsupportedSave) {
+    return (
+      <View style={styles.container} testID="unsupported-save">
+        <Text style={[styles.loadingText, styles.noticeText]}>
+          この川の保存データは、新しい版のアプリで保存されています。データはそのまま残してあるので、アプリを新しい版にしてから開いてください。
+        </Text>
+        {/* Web 版で新しい版が待機していれば、ここから切り替えられる */}
+        {pendingUpdate && (
+          <UpdateBanner onApply={handleApplyUpdate} onDismiss={() => setPendingUpdate(null)} />
+        )}
+      </View>
+    );
+  }
+
   if (!state) {
     return (
       <View style={styles.container}>
@@ -99,71 +706,291 @@ const App: React.FC = () => {
     );
   }
 
-  const size = state.sizeFactor * 100; // ベースサイズ100
-  const opacity = state.condition === 'weak' ? 0.5 : 1.0;
   const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
-  
-  // パーセンテージ値を計算
-  const oosanBottom = screenHeight * 0.3;
-  const rock1Left = screenWidth * 0.1;
-  const rock1Bottom = screenHeight * 0.2;
-  const rock2Right = screenWidth * 0.2;
-  const rock2Bottom = screenHeight * 0.15;
-  const rock3Left = screenWidth * 0.6;
-  const rock3Bottom = screenHeight * 0.25;
 
   return (
-    <TouchableOpacity 
-      style={styles.container} 
-      onPress={handlePress}
-      activeOpacity={1}
+    <ScrollView
+      style={styles.scrollContainer}
+      contentContainerStyle={styles.scrollContent}
+      showsVerticalScrollIndicator={false}
+      showsHorizontalScrollIndicator={false}
     >
-      {/* 川の背景 */}
-      <View style={styles.riverBackground} />
-      
-      {/* 岩 */}
-      <View style={[styles.rock, styles.rock1, { left: rock1Left, bottom: rock1Bottom }]} />
-      <View style={[styles.rock, styles.rock2, { right: rock2Right, bottom: rock2Bottom }]} />
-      <View style={[styles.rock, styles.rock3, { left: rock3Left, bottom: rock3Bottom }]} />
-      
-      {/* 水草 */}
-      <View style={[styles.weed, styles.weed1]} />
-      <View style={[styles.weed, styles.weed2]} />
-      <View style={[styles.weed, styles.weed3]} />
-      
-      {/* オオサンショウウオ */}
-      {state.condition !== 'dead' && (
-        <Animated.View
-          style={[
-            styles.oosanContainer,
-            {
-              bottom: oosanBottom,
-              transform: [{ scale: scaleAnim }],
-              opacity: opacity,
-            },
-          ]}
-        >
-          <Image
-            source={require('../assets/baby_oosan.png')}
-            style={[styles.oosan, { width: size, height: size * 0.8 }]}
-            resizeMode="contain"
+      <View
+        style={styles.container}
+        onStartShouldSetResponder={() => true}
+        onResponderTerminationRequest={() => pressRef.current === null}
+        onResponderGrant={handleTouchStart}
+        onResponderMove={handleTouchMove}
+        onResponderRelease={handleTouchEnd}
+        onResponderTerminate={handleTouchCancel}
+        testID="river"
+      >
+        {/* 川の背景と季節・天気の色合い */}
+        <RiverBackground
+          mode={renderMode}
+          tint={scene.tint}
+          weatherTint={weatherScene.tint}
+          lighting={timeOfDayScene.lighting}
+          imagesLoaded={imagesLoaded}
+        />
+
+        {/* 川底の水草（うろうろがよける配置と同じ場所に、どちらの描き方でも描く） */}
+        {RIVER_LAYOUT.filter((item) => item.kind === 'weed').map((item, index) => (
+          <Waterweed
+            key={item.id}
+            mode={renderMode}
+            rect={resolveRect(item, screenWidth, screenHeight)}
+            sway={index % 2 === 0 ? swayAnim1 : swayAnim2}
+            imagesLoaded={imagesLoaded}
+          />
+        ))}
+
+        {/* 川を訪れたほかの生きもの */}
+        {visitors.map((creature) => (
+          <Visitor key={creature} creature={creature} still={reduceMotion} />
+        ))}
+
+        {/* オオサンショウウオ（何匹かで暮らすときは、それぞれ自分の持ち場をうろうろする） */}
+        {residents.map((resident, index) => {
+          const isFocused = resident.id === focused?.id;
+          const hiding = timeOfDayScene.hiding && !(isFocused && watching);
+          return (
+            <WanderingSalamander
+              key={resident.id}
+              state={resident.state}
+              lane={index}
+              laneCount={residents.length}
+              activity={scene.activity * weatherScene.activity * timeOfDayScene.activity}
+              moveSpeed={weatherScene.moveSpeed}
+              wanderRange={timeOfDayScene.wanderRange}
+              paused={isFocused && watching}
+              still={reduceMotion}
+              hiding={hiding}
+              facing={facings[resident.id] ?? 1}
+              onFacingChange={(value) => setFacings((current) => ({ ...current, [resident.id]: value }))}
+              onMove={handleMove}
+              scale={isFocused ? scaleAnim : undefined}
+              positionRef={isFocused ? focusedPositionRef : undefined}
+              imagesLoaded={imagesLoaded}
+              accessibilityLabel={describeSalamander(resident.state, {
+                name: residents.length > 1 ? getResidentLabel(resident.state, index) : resident.state.name,
+                hiding,
+                watching: isFocused && watching,
+              })}
+              accessibilityActions={isFocused ? undefined : RESIDENT_ACTIONS}
+              onAccessibilityAction={(event) => handleAccessibilityAction(resident, event)}
+            />
+          );
+        })}
+
+        {/* 見る子を選ぶ・名前をつける・一緒に暮らす子を迎える */}
+        <View style={styles.residentBar}>
+          {residents.length > 1 &&
+            residents.map((resident, index) => (
+              <TouchableOpacity
+                key={resident.id}
+                style={[styles.residentChip, resident.id === focused?.id && styles.residentChipFocused]}
+                onPress={() => handleFocus(resident.id)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: resident.id === focused?.id }}
+                testID={`resident-${index}`}
+              >
+                <Text style={styles.journalButtonText}>{getResidentLabel(resident.state, index)}</Text>
+              </TouchableOpacity>
+            ))}
+          {state.condition !== 'dead' && (
+            <TouchableOpacity
+              style={styles.residentChip}
+              onPress={() => setShowName(true)}
+              accessibilityRole="button"
+              testID="name-button"
+            >
+              <Text style={styles.journalButtonText}>名前をつける</Text>
+            </TouchableOpacity>
+          )}
+          {canAddResident(roster) && (
+            <TouchableOpacity
+              style={styles.residentChip}
+              onPress={handleAddResident}
+              accessibilityRole="button"
+              testID="add-resident"
+            >
+              <Text style={styles.journalButtonText}>仲間を迎える</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* なぞったところの波紋 */}
+        {ripples.map((ripple) => (
+          <Ripple
+            key={ripple.id}
+            x={ripple.x}
+            y={ripple.y}
+            onDone={() => setRipples((current) => current.filter((other) => other.id !== ripple.id))}
+          />
+        ))}
+
+        {/* 見守っている間の表示 */}
+        {watching && (
+          <Text style={styles.watchingText} accessibilityLiveRegion="polite" testID="watching">
+            そっと見守っています
+          </Text>
+        )}
+
+        {/* 日次ログ */}
+        <DailyLogBanner text={getLatestLogText(state, getAppContext().locale)} />
+
+        {/* お別れの記録と新しい子を迎えるボタン */}
+        {state.condition === 'dead' && (
+          <View style={styles.farewellContainer}>
+            <Text style={styles.farewellText}>{describeFarewell(createFarewell(state), getAppContext().locale)}</Text>
+            <TouchableOpacity
+              style={styles.welcomeButton}
+              onPress={handleWelcome}
+              accessibilityRole="button"
+              testID="welcome-button"
+            >
+              <Text style={styles.welcomeButtonText}>新しい子を迎える</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* 画面上部のボタン（左から設定・記録・日記。図鑑や引き継ぎなどは設定から開く） */}
+        <View style={styles.topBar}>
+          <TouchableOpacity
+            style={styles.topButton}
+            onPress={() => setShowSettings(true)}
+            accessibilityRole="button"
+            testID="settings-button"
+          >
+            <Text style={styles.journalButtonText}>設定</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.topButton}
+            onPress={() => setShowStats(true)}
+            accessibilityRole="button"
+            testID="stats-button"
+          >
+            <Text style={styles.journalButtonText}>記録</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.topButton}
+            onPress={() => setShowJournal(true)}
+            accessibilityRole="button"
+            testID="journal-button"
+          >
+            <Text style={styles.journalButtonText}>日記</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* 読み込めなかった保存データのお知らせ */}
+        {recovery && (
+          <RecoveryView
+            errors={recovery.errors}
+            onRestore={handleRestoreBackup}
+            onDiscard={handleDiscardBackup}
+            onClose={() => setRecovery(null)}
           />
-        </Animated.View>
-      )}
-      
-      {/* 日次ログ */}
-      <View style={styles.dailyLogContainer}>
-        <Text style={styles.dailyLog}>{state.latestLog}</Text>
+        )}
+
+        {/* 新しい版のお知らせ（Web 版のみ） */}
+        {pendingUpdate && (
+          <UpdateBanner onApply={handleApplyUpdate} onDismiss={() => setPendingUpdate(null)} />
+        )}
+
+        {/* 日記 */}
+        {showJournal && (
+          <JournalView entries={journal} onClose={() => setShowJournal(false)} />
+        )}
+
+        {/* 成長の記録 */}
+        {showStats && (
+          <StatsView
+            stats={calculateStats(state, journal, getToday(context))}
+            onClose={() => setShowStats(false)}
+          />
+        )}
+
+        {/* 名前 */}
+        {showName && (
+          <NameView name={state.name} onSave={handleRename} onClose={() => setShowName(false)} />
+        )}
+
+        {/* 設定（音・お知らせ・図鑑・引き継ぎの画面はこの上に重ねて開く） */}
+        {showSettings && (
+          <SettingsView
+            preferences={preferences}
+            onChange={handlePreferencesChange}
+            onOpenSound={soundEngine.isSupported ? () => setShowSound(true) : undefined}
+            onOpenReminder={() => setShowReminder(true)}
+            onOpenCollection={() => setShowCollection(true)}
+            onOpenTransfer={() => setShowTransfer(true)}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
+        {/* 生きもの図鑑 */}
+        {showCollection && (
+          <CollectionView collection={collection} onClose={() => setShowCollection(false)} />
+        )}
+
+        {/* 音の設定 */}
+        {showSound && (
+          <SoundView
+            settings={preferences.sound}
+            onChange={handleSoundChange}
+            onClose={() => setShowSound(false)}
+          />
+        )}
+
+        {/* お知らせの設定 */}
+        {showReminder && (
+          <ReminderView
+            settings={preferences.reminder}
+            isSupported={reminderScheduler.isSupported}
+            permissionDenied={permissionDenied}
+            onChange={handleReminderChange}
+            onClose={() => setShowReminder(false)}
+          />
+        )}
+
+        {/* 引き継ぎ */}
+        {showTransfer && (
+          <TransferView
+            roster={roster}
+            residents={residents}
+            collection={collection}
+            context={context}
+            onImport={handleImport}
+            onClose={() => setShowTransfer(false)}
+          />
+        )}
       </View>
-    </TouchableOpacity>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
+  scrollContainer: {
+    flex: 1,
+  },
+  scrollContent: {
+    minHeight: Dimensions.get('window').height,
+    width: '100%',
+  },
   container: {
     flex: 1,
     width: '100%',
-    height: '100%',
+    minHeight: Dimensions.get('window').height,
+  },
+  watchingText: {
+    position: 'absolute',
+    top: 100,
+    left: 0,
+    right: 0,
+    textAlign: 'center',
+    color: 'rgba(255, 255, 255, 0.75)',
+    fontSize: 14,
   },
   loadingText: {
     fontSize: 16,
@@ -171,90 +998,70 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: '50%',
   },
-  riverBackground: {
+  noticeText: {
+    paddingHorizontal: 24,
+    lineHeight: 24,
+  },
+  farewellContainer: {
     position: 'absolute',
-    top: 0,
+    bottom: 110,
     left: 0,
     right: 0,
-    bottom: 0,
-    backgroundColor: '#4a90a4',
-  },
-  rock: {
-    position: 'absolute',
-    backgroundColor: '#6b5b4f',
-    borderRadius: 50,
-    opacity: 0.7,
+    alignItems: 'center',
+    paddingHorizontal: 20,
   },
-  rock1: {
-    width: 120,
-    height: 80,
-    transform: [{ rotate: '-15deg' }],
+  farewellText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
   },
-  rock2: {
-    width: 90,
-    height: 60,
-    transform: [{ rotate: '20deg' }],
+  welcomeButton: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
   },
-  rock3: {
-    width: 70,
-    height: 50,
-    transform: [{ rotate: '-10deg' }],
+  welcomeButtonText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
   },
-  weed: {
+  topBar: {
     position: 'absolute',
-    bottom: 0,
-    backgroundColor: '#2d5a3d',
-    borderRadius: 2,
-    opacity: 0.6,
-  },
-  weed1: {
-    width: 8,
-    height: 150,
-    left: '25%',
-    bottom: 0,
-  },
-  weed2: {
-    width: 6,
-    height: 120,
-    left: '50%',
-    bottom: 0,
+    top: 48,
+    right: 20,
+    flexDirection: 'row',
+    gap: 8,
   },
-  weed3: {
-    width: 7,
-    height: 100,
-    right: '30%',
-    bottom: 0,
+  topButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.15)',
   },
-  oosanContainer: {
+  residentBar: {
     position: 'absolute',
-    left: 0,
-    right: 0,
-    alignItems: 'center',
-    justifyContent: 'center',
+    top: 88,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
   },
-  oosan: {
-    width: 100,
-    height: 80,
+  residentChip: {
+    marginRight: 8,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.15)',
   },
-  dailyLogContainer: {
-    position: 'absolute',
-    bottom: 40,
-    left: 0,
-    right: 0,
-    alignItems: 'center',
-    backgroundColor: 'rgba(0, 0, 0, 0.2)',
-    borderRadius: 20,
-    paddingHorizontal: 20,
-    paddingVertical: 10,
-    marginHorizontal: 20,
+  residentChipFocused: {
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
   },
-  dailyLog: {
-    color: 'rgba(255, 255, 255, 0.8)',
-    fontSize: 16,
-    textAlign: 'center',
-    textShadowColor: 'rgba(0, 0, 0, 0.3)',
-    textShadowOffset: { width: 0, height: 1 },
-    textShadowRadius: 3,
+  journalButtonText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 13,
   },
 });
 
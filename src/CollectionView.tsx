@@ -0,0 +1,87 @@
+import React from 'react';
+import { StyleSheet, View, Text, ScrollView } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+import { CREATURES, CreatureCollection, getCollectionProgress } from './ecosystem';
+
+interface CollectionViewProps {
+  collection: CreatureCollection;
+  onClose: () => void;
+}
+
+// 生きもの図鑑（まだ見かけていない生きものは名前を伏せる）
+const CollectionView: React.FC<CollectionViewProps> = ({ collection, onClose }) => {
+  const progress = getCollectionProgress(collection);
+
+  return (
+    <OverlayScreen title="川の生きもの図鑑" onClose={onClose} testID="collection-view" closeTestID="collection-close">
+      <Text style={styles.progress} testID="collection-progress">
+        {progress.seen} / {progress.total} 種（めずらしい生きもの {progress.rareSeen} / {progress.rareTotal}）
+      </Text>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {CREATURES.map((creature) => {
+          const sighting = collection[creature.id];
+          return (
+            <View key={creature.id} style={styles.entry} testID={`collection-${creature.id}`}>
+              <View style={styles.nameRow}>
+                <Text style={styles.name}>{sighting ? creature.name : '？？？'}</Text>
+                {creature.rarity === 'rare' && <Text style={styles.rare}>めずらしい</Text>}
+              </View>
+              {sighting ? (
+                <>
+                  <Text style={styles.description}>{creature.description}</Text>
+                  <Text style={styles.meta}>
+                    はじめて見た日 {sighting.firstSeen}・見かけた日数 {sighting.days} 日
+                  </Text>
+                </>
+              ) : (
+                <Text style={styles.meta}>まだ見かけていません。</Text>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </OverlayScreen>
+  );
+};
+
+const styles = StyleSheet.create({
+  progress: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  content: {
+    paddingBottom: 40,
+  },
+  entry: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  name: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 15,
+  },
+  rare: {
+    marginLeft: 8,
+    color: 'rgba(240, 210, 120, 0.9)',
+    fontSize: 11,
+  },
+  description: {
+    color: 'rgba(255, 255, 255, 0.75)',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  meta: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 11,
+    marginTop: 4,
+  },
+});
+
+export default CollectionView;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { StyleSheet, View, Text, ScrollView } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+import { JournalEntry } from './journal';
+import { Condition } from './logic';
+
+interface JournalViewProps {
+  entries: JournalEntry[];
+  onClose: () => void;
+}
+
+// 日記に表示する様子（責める表現は使わない）
+export const CONDITION_LABELS: Record<Condition, string> = {
+  healthy: '元気',
+  weak: 'ひっそり',
+  dead: '姿は見えない',
+};
+
+// 日記の一覧（新しい日が上）
+const JournalView: React.FC<JournalViewProps> = ({ entries, onClose }) => {
+  const sortedEntries = [...entries].reverse();
+
+  return (
+    <OverlayScreen title="川の日記" onClose={onClose} testID="journal-view" closeTestID="journal-close">
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        {sortedEntries.length === 0 && (
+          <Text style={styles.emptyText}>まだ日記はありません。</Text>
+        )}
+        {sortedEntries.map((entry) => (
+          <View key={entry.date} style={styles.entry}>
+            <View style={styles.entryHeader}>
+              <Text style={styles.entryDate}>{entry.date}</Text>
+              <Text style={styles.entryMeta}>
+                {CONDITION_LABELS[entry.condition]}・大きさ {(entry.sizeFactor * 100).toFixed(1)}
+                {entry.visited ? '' : '・訪れなかった日'}
+              </Text>
+            </View>
+            <Text style={styles.entryLog}>{entry.log}</Text>
+          </View>
+        ))}
+      </ScrollView>
+    </OverlayScreen>
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  entry: {
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+    paddingVertical: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  entryDate: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+  },
+  entryMeta: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 12,
+  },
+  entryLog: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 15,
+  },
+});
+
+export default JournalView;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, TextInput } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+import { MAX_NAME_LENGTH, normalizeName } from './identity';
+
+interface NameViewProps {
+  name?: string;
+  onSave: (name: string | undefined) => void;
+  onClose: () => void;
+}
+
+// 名前をつける（空にすると名前を外し、迎えた順で呼ぶ）
+const NameView: React.FC<NameViewProps> = ({ name, onSave, onClose }) => {
+  const [text, setText] = useState(name ?? '');
+
+  return (
+    <OverlayScreen title="名前をつける" onClose={onClose} testID="name-view" closeTestID="name-close">
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={setText}
+        placeholder="名前（空のままなら迎えた順で呼びます）"
+        placeholderTextColor="rgba(255, 255, 255, 0.4)"
+        maxLength={MAX_NAME_LENGTH}
+        autoCorrect={false}
+        testID="name-input"
+      />
+      <Text style={styles.note}>{MAX_NAME_LENGTH} 文字まで</Text>
+
+      <TouchableOpacity style={styles.button} onPress={() => onSave(normalizeName(text))} testID="name-save">
+        <Text style={styles.buttonText}>この名前にする</Text>
+      </TouchableOpacity>
+    </OverlayScreen>
+  );
+};
+
+const styles = StyleSheet.create({
+  input: {
+    padding: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+    borderRadius: 8,
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 15,
+  },
+  note: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  button: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginTop: 16,
+  },
+  buttonText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+  },
+});
+
+export default NameView;
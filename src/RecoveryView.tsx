@@ -0,0 +1,74 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+
+interface RecoveryViewProps {
+  // 読み込めなかった理由（今回開いたときに読み込めなかったものだけ）
+  errors: string[];
+  onRestore: () => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+// 保存データを読み込めずに新しく始めたことを知らせ、退避した元のデータを戻すか消すかを選んでもらう
+// 閉じただけなら退避したデータは残り、次に開いたときにもう一度たずねる
+const RecoveryView: React.FC<RecoveryViewProps> = ({ errors, onRestore, onDiscard, onClose }) => (
+  <OverlayScreen
+    title="保存データについて"
+    onClose={onClose}
+    testID="recovery-view"
+    closeTestID="recovery-close"
+    closeLabel="あとで"
+  >
+    <Text style={styles.message}>
+      保存データを読み込めなかったため、新しい子で始めました。元のデータは消さずに退避してあります。
+    </Text>
+    {errors.map((error, index) => (
+      <Text key={index} style={styles.error} testID="recovery-error">
+        {error}
+      </Text>
+    ))}
+
+    <TouchableOpacity style={styles.button} onPress={onRestore} testID="recovery-restore">
+      <Text style={styles.buttonText}>元のデータに戻す</Text>
+    </TouchableOpacity>
+    <Text style={styles.note}>今の子の様子は、戻した元のデータで置き換わります</Text>
+
+    <TouchableOpacity style={styles.button} onPress={onDiscard} testID="recovery-discard">
+      <Text style={styles.buttonText}>元のデータを消して、このまま続ける</Text>
+    </TouchableOpacity>
+  </OverlayScreen>
+);
+
+const styles = StyleSheet.create({
+  message: {
+    color: 'rgba(255, 255, 255, 0.85)',
+    fontSize: 14,
+    lineHeight: 22,
+  },
+  error: {
+    color: 'rgba(255, 200, 180, 0.8)',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  note: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  button: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginTop: 16,
+  },
+  buttonText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+  },
+});
+
+export default RecoveryView;
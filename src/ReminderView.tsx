@@ -0,0 +1,109 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+import { ReminderSettings } from './reminder';
+
+interface ReminderViewProps {
+  settings: ReminderSettings;
+  // この環境でお知らせを届けられるか
+  isSupported: boolean;
+  // お知らせが許可されなかったか
+  permissionDenied: boolean;
+  onChange: (settings: ReminderSettings) => void;
+  onClose: () => void;
+}
+
+// 時刻を変える幅（分）
+const TIME_STEP_MINUTES = 30;
+const MINUTES_PER_DAY = 24 * 60;
+
+const formatTime = (hour: number, minute: number): string =>
+  `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+// 時刻を TIME_STEP_MINUTES ずつずらす（0時をまたいでも一周する）
+const shiftTime = (settings: ReminderSettings, steps: number): ReminderSettings => {
+  const total = settings.hour * 60 + settings.minute + steps * TIME_STEP_MINUTES;
+  const wrapped = ((total % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return { ...settings, hour: Math.floor(wrapped / 60), minute: wrapped % 60 };
+};
+
+// お知らせの設定
+const ReminderView: React.FC<ReminderViewProps> = ({
+  settings,
+  isSupported,
+  permissionDenied,
+  onChange,
+  onClose,
+}) => (
+  <OverlayScreen title="お知らせ" onClose={onClose} testID="reminder-view" closeTestID="reminder-close">
+    {!isSupported ? (
+      <Text style={styles.note}>この環境ではお知らせを届けられません。</Text>
+    ) : (
+      <>
+        <View style={styles.row}>
+          <Text style={styles.label}>川からのお知らせを受け取る</Text>
+          <TouchableOpacity
+            onPress={() => onChange({ ...settings, enabled: !settings.enabled })}
+            testID="reminder-toggle"
+          >
+            <Text style={styles.value}>{settings.enabled ? 'オン' : 'オフ'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.row}>
+          <Text style={styles.label}>お知らせする時刻</Text>
+          <View style={styles.timeControls}>
+            <TouchableOpacity onPress={() => onChange(shiftTime(settings, -1))} testID="reminder-earlier">
+              <Text style={styles.value}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.value} testID="reminder-time">
+              {formatTime(settings.hour, settings.minute)}
+            </Text>
+            <TouchableOpacity onPress={() => onChange(shiftTime(settings, 1))} testID="reminder-later">
+              <Text style={styles.value}>＋</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <Text style={styles.note}>
+          川を訪れた日にはお知らせしません。しばらく間があいたときだけ、そっとお知らせします。
+        </Text>
+        {permissionDenied && (
+          <Text style={styles.note}>お知らせが許可されていないようです。端末の設定から変えられます。</Text>
+        )}
+      </>
+    )}
+  </OverlayScreen>
+);
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  label: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+  },
+  value: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+  },
+  timeControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  note: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 16,
+    lineHeight: 20,
+  },
+});
+
+export default ReminderView;
@@ -0,0 +1,167 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+import {
+  GENTLE_THRESHOLDS,
+  LANGUAGE_PREFERENCES,
+  LanguagePreference,
+  MOTION_PREFERENCES,
+  MotionPreference,
+  Preferences,
+} from './preferences';
+import { DEFAULT_THRESHOLDS } from './logic';
+
+interface SettingsViewProps {
+  preferences: Preferences;
+  onChange: (preferences: Preferences) => void;
+  // 音とお知らせはそれぞれの画面で設定する（音を鳴らせない環境では onOpenSound を渡さず、項目を出さない）
+  onOpenSound?: () => void;
+  onOpenReminder: () => void;
+  // 毎日は使わない画面も、画面上部のボタンを増やさずここから開く
+  onOpenCollection: () => void;
+  onOpenTransfer: () => void;
+  onClose: () => void;
+}
+
+const LANGUAGE_LABELS: Record<LanguagePreference, string> = {
+  auto: '端末に合わせる',
+  ja: '日本語',
+  en: 'English',
+};
+
+const MOTION_LABELS: Record<MotionPreference, string> = {
+  system: '端末に合わせる',
+  reduce: '減らす',
+  full: '減らさない',
+};
+
+const GENTLE_NOTE =
+  `ふだんは${DEFAULT_THRESHOLDS.weakDays}日あくと元気がなくなり、${DEFAULT_THRESHOLDS.deadDays}日で姿が見えなくなります。` +
+  `やさしいモードでは${GENTLE_THRESHOLDS.weakDays}日・${GENTLE_THRESHOLDS.deadDays}日まで待っていてくれます。`;
+
+const LANGUAGE_NOTE = '日次ログ・お別れの記録・お知らせの文をこの言葉で表します。画面のボタンや項目は日本語のままです。';
+
+// 設定
+const SettingsView: React.FC<SettingsViewProps> = ({
+  preferences,
+  onChange,
+  onOpenSound,
+  onOpenReminder,
+  onOpenCollection,
+  onOpenTransfer,
+  onClose,
+}) => (
+  <OverlayScreen title="設定" onClose={onClose} testID="settings-view" closeTestID="settings-close">
+    <View style={styles.row}>
+      <Text style={styles.label}>やさしいモード</Text>
+      <TouchableOpacity
+        onPress={() => onChange({ ...preferences, gentleMode: !preferences.gentleMode })}
+        accessibilityRole="switch"
+        accessibilityState={{ checked: preferences.gentleMode }}
+        testID="settings-gentle"
+      >
+        <Text style={styles.value}>{preferences.gentleMode ? 'オン' : 'オフ'}</Text>
+      </TouchableOpacity>
+    </View>
+    <Text style={styles.note}>{GENTLE_NOTE}</Text>
+
+    <View style={styles.row}>
+      <Text style={styles.label}>日次ログの言葉</Text>
+      <View style={styles.choices}>
+        {LANGUAGE_PREFERENCES.map((language) => (
+          <TouchableOpacity
+            key={language}
+            style={[styles.choice, preferences.language === language && styles.choiceSelected]}
+            onPress={() => onChange({ ...preferences, language })}
+            accessibilityRole="button"
+            accessibilityState={{ selected: preferences.language === language }}
+            testID={`settings-language-${language}`}
+          >
+            <Text style={styles.value}>{LANGUAGE_LABELS[language]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+    <Text style={styles.note}>{LANGUAGE_NOTE}</Text>
+
+    <View style={styles.row}>
+      <Text style={styles.label}>動き</Text>
+      <View style={styles.choices}>
+        {MOTION_PREFERENCES.map((motion) => (
+          <TouchableOpacity
+            key={motion}
+            style={[styles.choice, preferences.motion === motion && styles.choiceSelected]}
+            onPress={() => onChange({ ...preferences, motion })}
+            accessibilityRole="button"
+            accessibilityState={{ selected: preferences.motion === motion }}
+            testID={`settings-motion-${motion}`}
+          >
+            <Text style={styles.value}>{MOTION_LABELS[motion]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+
+    {onOpenSound && (
+      <TouchableOpacity style={styles.row} onPress={onOpenSound} accessibilityRole="button" testID="settings-sound">
+        <Text style={styles.label}>音</Text>
+        <Text style={styles.value}>›</Text>
+      </TouchableOpacity>
+    )}
+
+    <TouchableOpacity style={styles.row} onPress={onOpenReminder} accessibilityRole="button" testID="settings-reminder">
+      <Text style={styles.label}>お知らせ</Text>
+      <Text style={styles.value}>›</Text>
+    </TouchableOpacity>
+
+    <TouchableOpacity style={styles.row} onPress={onOpenCollection} accessibilityRole="button" testID="settings-collection">
+      <Text style={styles.label}>生きもの図鑑</Text>
+      <Text style={styles.value}>›</Text>
+    </TouchableOpacity>
+
+    <TouchableOpacity style={styles.row} onPress={onOpenTransfer} accessibilityRole="button" testID="settings-transfer">
+      <Text style={styles.label}>引き継ぎ</Text>
+      <Text style={styles.value}>›</Text>
+    </TouchableOpacity>
+  </OverlayScreen>
+);
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  label: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+  },
+  value: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  choice: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  choiceSelected: {
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  note: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginVertical: 8,
+    lineHeight: 20,
+  },
+});
+
+export default SettingsView;
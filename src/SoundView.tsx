@@ -0,0 +1,88 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+import { SoundSettings, VOLUME_STEPS } from './sound';
+
+interface SoundViewProps {
+  settings: SoundSettings;
+  onChange: (settings: SoundSettings) => void;
+  onClose: () => void;
+}
+
+// 音の設定（音を鳴らせる環境でだけ開く）
+const SoundView: React.FC<SoundViewProps> = ({ settings, onChange, onClose }) => (
+  <OverlayScreen title="音" onClose={onClose} testID="sound-view" closeTestID="sound-close">
+    <View style={styles.row}>
+      <Text style={styles.label}>川の音を鳴らす</Text>
+      <TouchableOpacity
+        onPress={() => onChange({ ...settings, muted: !settings.muted })}
+        accessibilityRole="switch"
+        accessibilityState={{ checked: !settings.muted }}
+        testID="sound-toggle"
+      >
+        <Text style={styles.value}>{settings.muted ? 'オフ' : 'オン'}</Text>
+      </TouchableOpacity>
+    </View>
+
+    <View style={styles.row}>
+      <Text style={styles.label}>音の大きさ</Text>
+      <View style={styles.volumeControls}>
+        {VOLUME_STEPS.map((volume, index) => (
+          <TouchableOpacity
+            key={volume}
+            style={[styles.volumeStep, { height: 8 + index * 4 }, volume <= settings.volume && styles.volumeStepOn]}
+            onPress={() => onChange({ ...settings, volume })}
+            accessibilityRole="button"
+            accessibilityLabel={`音の大きさ ${index + 1}`}
+            accessibilityState={{ selected: volume === settings.volume }}
+            testID={`sound-volume-${index}`}
+          />
+        ))}
+      </View>
+    </View>
+
+    <Text style={styles.note}>
+      せせらぎは天気や時間帯で変わり、雨の日は雨音も聞こえます。ブラウザでは、川に触れたときから鳴りはじめます。
+    </Text>
+  </OverlayScreen>
+);
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  label: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+  },
+  value: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+  },
+  volumeControls: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  volumeStep: {
+    width: 14,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  volumeStepOn: {
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+  },
+  note: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 16,
+    lineHeight: 20,
+  },
+});
+
+export default SoundView;
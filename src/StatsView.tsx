@@ -0,0 +1,133 @@
+import React from 'react';
+import { StyleSheet, View, Text, ScrollView } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+import { RiverStats, downsampleCurve } from './stats';
+
+interface StatsViewProps {
+  stats: RiverStats;
+  onClose: () => void;
+}
+
+// グラフに描く最大の点数
+const MAX_CHART_POINTS = 60;
+const CHART_HEIGHT = 120;
+
+// 大きさを表示用の数値にする（ベースサイズ100）
+const formatSize = (sizeFactor: number): string => (sizeFactor * 100).toFixed(1);
+
+// 成長の記録（成長曲線と統計）
+const StatsView: React.FC<StatsViewProps> = ({ stats, onClose }) => {
+  const points = downsampleCurve(stats.growthCurve, MAX_CHART_POINTS);
+  const sizes = points.map((point) => point.sizeFactor);
+  const minSize = Math.min(...sizes);
+  const maxSize = Math.max(...sizes);
+  const range = maxSize - minSize;
+
+  return (
+    <OverlayScreen title="成長の記録" onClose={onClose} testID="stats-view" closeTestID="stats-close">
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* 成長曲線 */}
+        <View style={styles.chart} testID="growth-chart">
+          {points.length === 0 && <Text style={styles.emptyText}>まだ記録はありません。</Text>}
+          {points.map((point) => {
+            const ratio = range > 0 ? (point.sizeFactor - minSize) / range : 1;
+            return (
+              <View key={point.date} style={styles.barSlot}>
+                <View style={[styles.bar, { height: 8 + ratio * (CHART_HEIGHT - 8) }]} />
+              </View>
+            );
+          })}
+        </View>
+        {points.length > 0 && (
+          <View style={styles.chartLabels}>
+            <Text style={styles.chartLabel}>{points[0].date}</Text>
+            <Text style={styles.chartLabel}>{points[points.length - 1].date}</Text>
+          </View>
+        )}
+
+        {/* 統計 */}
+        <View style={styles.row}>
+          <Text style={styles.label}>この川に来てから</Text>
+          <Text style={styles.value}>{stats.daysSinceStart} 日</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>続けて訪れている日数</Text>
+          <Text style={styles.value}>{stats.currentStreak} 日</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>いちばん長く続いた日数</Text>
+          <Text style={styles.value}>{stats.longestStreak} 日</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>ひっそり過ごした日数</Text>
+          <Text style={styles.value}>{stats.weakDays} 日</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>1年後の大きさの見込み</Text>
+          <Text style={styles.value}>
+            {formatSize(stats.projectionInOneYear.expected)}
+            （{formatSize(stats.projectionInOneYear.min)}〜{formatSize(stats.projectionInOneYear.max)}）
+          </Text>
+        </View>
+      </ScrollView>
+    </OverlayScreen>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingBottom: 40,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    maxWidth: 12,
+  },
+  bar: {
+    width: '60%',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    backgroundColor: 'rgba(160, 210, 190, 0.7)',
+  },
+  chartLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  chartLabel: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 11,
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    alignSelf: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  label: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+  },
+  value: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+  },
+});
+
+export default StatsView;
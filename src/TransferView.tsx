@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, TextInput, Platform, Share } from 'react-native';
+import OverlayScreen from './components/OverlayScreen';
+import { STAGE_LABELS } from './accessibility';
+import { CreatureCollection } from './ecosystem';
+import { Resident, Roster } from './river';
+import { SimulationContext } from './simulation';
+import { CONDITION_LABELS } from './JournalView';
+import {
+  ExportBundle,
+  ImportPreview,
+  createExportBundle,
+  importBundle,
+  serializeExportBundle,
+  toTransferCode,
+} from './transfer';
+
+interface TransferViewProps {
+  // 書き出すのは川に暮らす子たち全員と図鑑
+  roster: Roster;
+  residents: Resident[];
+  collection: CreatureCollection;
+  context: SimulationContext;
+  onImport: (bundle: ExportBundle) => void;
+  onClose: () => void;
+}
+
+// 書き出したデータをファイルとして保存する（Web 版はダウンロード、端末では共有）
+const shareExportFile = async (bundle: ExportBundle): Promise<void> => {
+  const json = serializeExportBundle(bundle);
+  const fileName = `oosan-river-${bundle.exportedAt.slice(0, 10)}.json`;
+  try {
+    if (Platform.OS === 'web') {
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } else {
+      await Share.share({ title: fileName, message: json });
+    }
+  } catch (error) {
+    console.error('Failed to export data:', error);
+  }
+};
+
+// 引き継ぎ（書き出しと読み込み）
+const TransferView: React.FC<TransferViewProps> = ({ roster, residents, collection, context, onImport, onClose }) => {
+  const [code, setCode] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [preview, setPreview] = useState<{ bundle: ExportBundle; preview: ImportPreview } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleCheck = () => {
+    const result = importBundle(importText, context);
+    if (result.ok) {
+      setPreview({ bundle: result.bundle, preview: result.preview });
+      setErrors([]);
+    } else {
+      setPreview(null);
+      setErrors(result.errors);
+    }
+  };
+
+  return (
+    <OverlayScreen title="引き継ぎ" onClose={onClose} testID="transfer-view" closeTestID="transfer-close">
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* 書き出し */}
+        <Text style={styles.sectionTitle}>この川の記録を書き出す</Text>
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => shareExportFile(createExportBundle(roster, residents, collection, context))}
+            testID="transfer-export-file"
+          >
+            <Text style={styles.buttonText}>ファイルに書き出す</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => setCode(toTransferCode(createExportBundle(roster, residents, collection, context)))}
+            testID="transfer-export-code"
+          >
+            <Text style={styles.buttonText}>引き継ぎコードを表示</Text>
+          </TouchableOpacity>
+        </View>
+        {code !== null && (
+          <TextInput
+            style={styles.codeBox}
+            value={code}
+            editable={false}
+            multiline
+            selectTextOnFocus
+            testID="transfer-code"
+          />
+        )}
+
+        {/* 読み込み */}
+        <Text style={styles.sectionTitle}>記録を読み込む</Text>
+        <TextInput
+          style={styles.codeBox}
+          value={importText}
+          onChangeText={(text) => {
+            setImportText(text);
+            setPreview(null);
+            setErrors([]);
+          }}
+          placeholder="書き出したファイルの中身か、引き継ぎコードを貼り付けてください"
+          placeholderTextColor="rgba(255, 255, 255, 0.4)"
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="transfer-import-input"
+        />
+        <TouchableOpacity style={styles.button} onPress={handleCheck} testID="transfer-check">
+          <Text style={styles.buttonText}>中身を確かめる</Text>
+        </TouchableOpacity>
+
+        {errors.map((error) => (
+          <Text key={error} style={styles.errorText}>
+            {error}
+          </Text>
+        ))}
+
+        {preview && (
+          <View style={styles.preview} testID="transfer-preview">
+            {preview.preview.residents.map((resident, index) => (
+              <View key={index} style={styles.previewResident}>
+                <Text style={styles.previewText}>
+                  {resident.label}: {resident.startDate} に来た{STAGE_LABELS[resident.stage]}の子（
+                  {CONDITION_LABELS[resident.condition]}）
+                </Text>
+                <Text style={styles.previewText}>
+                  過ごした日数 {resident.daysLived} 日・大きさ {(resident.sizeFactor * 100).toFixed(1)}
+                </Text>
+                <Text style={styles.previewText}>
+                  日記 {resident.journalEntries} 件・お別れの記録 {resident.farewells} 件
+                </Text>
+              </View>
+            ))}
+            <Text style={styles.previewText}>図鑑の生きもの {preview.preview.creatures} 種</Text>
+            <Text style={styles.note}>
+              読み込むと、今の川の記録（一緒に暮らす子たちと図鑑）はこのデータに置き換わります。
+            </Text>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => onImport(preview.bundle)}
+              testID="transfer-confirm"
+            >
+              <Text style={styles.buttonText}>この記録で川を続ける</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </OverlayScreen>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 15,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  button: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginTop: 8,
+  },
+  buttonText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+  },
+  codeBox: {
+    minHeight: 80,
+    maxHeight: 160,
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: 'rgba(255, 220, 200, 0.85)',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  preview: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  previewResident: {
+    marginBottom: 8,
+  },
+  previewText: {
+    color: 'rgba(255, 255, 255, 0.85)',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  note: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    marginTop: 8,
+  },
+});
+
+export default TransferView;
@@ -0,0 +1,22 @@
+import { describeSalamander } from './accessibility';
+import { createTestState } from './testFixtures';
+
+const state = createTestState();
+
+describe('読み上げのテスト', () => {
+  test('成長段階と大きさ、様子を伝える', () => {
+    expect(describeSalamander(state)).toBe('幼生のオオサンショウウオ。迎えたときの 1.02 倍の大きさで、元気に過ごしています。');
+  });
+
+  test('名前があれば最初に呼び、隠れているときや見守っているときはそれも伝える', () => {
+    expect(describeSalamander({ ...state, condition: 'weak' }, { name: 'ハンザキ', hiding: true, watching: true })).toBe(
+      'ハンザキ。幼生のオオサンショウウオ。迎えたときの 1.02 倍の大きさで、元気がなく、ひっそりしています。' +
+        '今は岩の下に隠れています。そっと見守っています。'
+    );
+  });
+
+  test('年月を重ねた子は長老と伝える', () => {
+    const elder = { ...state, startDate: '1990-01-01', sizeFactor: 3.5 };
+    expect(describeSalamander(elder)).toContain('長老のオオサンショウウオ');
+  });
+});
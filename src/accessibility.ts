@@ -0,0 +1,44 @@
+import { AppState, Condition, LifeStage, getLifeStage } from './logic';
+
+export const STAGE_LABELS: Record<LifeStage, string> = {
+  larva: '幼生',
+  juvenile: '幼体',
+  subadult: '亜成体',
+  adult: '成体',
+  elder: '長老',
+};
+
+// 読み上げるときの様子
+const CONDITION_DESCRIPTIONS: Record<Condition, string> = {
+  healthy: '元気に過ごしています',
+  weak: '元気がなく、ひっそりしています',
+  dead: 'もう姿は見えません',
+};
+
+// 日次ログの文字を端末の設定で大きくするときの上限（画面からはみ出さないように）
+export const MAX_LOG_FONT_SCALE = 2;
+
+// 読み上げで選べる操作（ダブルタップでつつく・長押しで見守る）
+export const SALAMANDER_ACTIONS = [
+  { name: 'activate', label: 'そっとつつく' },
+  { name: 'longpress', label: 'そっと見守る' },
+];
+// ほかの子を見ているときは、選んでその子を見る
+export const RESIDENT_ACTIONS = [{ name: 'activate', label: 'この子を見る' }];
+
+// オオサンショウウオの姿を言葉にする（読み上げ用）
+// 名前・成長段階・迎えたときからの大きさ・様子を伝え、岩の下に隠れているときはそれも伝える
+export const describeSalamander = (
+  state: AppState,
+  options: { name?: string; hiding?: boolean; watching?: boolean } = {}
+): string => {
+  const stage = STAGE_LABELS[getLifeStage(state, state.lastVisitDate)];
+  const parts = [
+    ...(options.name ? [options.name] : []),
+    `${stage}のオオサンショウウオ`,
+    `迎えたときの ${state.sizeFactor.toFixed(2)} 倍の大きさで、${CONDITION_DESCRIPTIONS[state.condition]}`,
+    ...(options.hiding ? ['今は岩の下に隠れています'] : []),
+    ...(options.watching ? ['そっと見守っています'] : []),
+  ];
+  return `${parts.join('。')}。`;
+};
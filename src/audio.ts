@@ -0,0 +1,115 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from 'expo-audio';
+import { AmbientChannel, AmbientMix, SoundEngine } from './sound';
+
+// 端末版の水音（川のせせらぎと雨音をくり返し鳴らし、水しぶきは短い音を鳴らす）
+// 音の素材（assets/sounds）は、Web 版（audio.web.ts）がその場で作るのと同じノイズを書き出したもの
+const AMBIENT_SOURCES: Record<AmbientChannel, number> = {
+  river: require('../assets/sounds/river.wav'),
+  rain: require('../assets/sounds/rain.wav'),
+};
+const SPLASH_SOURCE = require('../assets/sounds/splash.wav');
+
+let channels: Record<AmbientChannel, AudioPlayer> | null = null;
+let splash: AudioPlayer | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+let active = true;
+// 鳴らせるようになる前に決まった音量も覚えておく
+let currentMix: AmbientMix = { river: 0, rain: 0 };
+
+// 音量が 0 の音は止めておく（アプリが後ろにあるあいだはどれも止める）
+const applyMix = () => {
+  if (!channels) return;
+  (Object.keys(channels) as AmbientChannel[]).forEach((channel) => {
+    const player = channels?.[channel];
+    if (!player) return;
+    player.volume = currentMix[channel];
+    if (active && currentMix[channel] > 0) {
+      if (!player.playing) player.play();
+    } else if (player.playing) {
+      player.pause();
+    }
+  });
+};
+
+// アプリを後ろに回している間は音を止める（起動直後のまだ分からない状態では鳴らす）
+const isForeground = (status: AppStateStatus | null) => status !== 'background';
+
+const handleAppStateChange = (status: AppStateStatus) => {
+  active = isForeground(status);
+  applyMix();
+};
+
+// 端末では触れるのを待たずに鳴らせるので、最初に音量が決まったときにも呼ぶ
+// 同時に呼ばれても音を二重に作らないよう、準備中はその結果を待つ
+let starting: Promise<boolean> | null = null;
+
+const start = async (): Promise<boolean> => {
+  try {
+    // 消音モードでは鳴らさず、ほかのアプリの音は止めない
+    await setAudioModeAsync({ playsInSilentMode: false, interruptionMode: 'mixWithOthers' });
+    channels = {
+      river: createAudioPlayer(AMBIENT_SOURCES.river),
+      rain: createAudioPlayer(AMBIENT_SOURCES.rain),
+    };
+    channels.river.loop = true;
+    channels.rain.loop = true;
+    splash = createAudioPlayer(SPLASH_SOURCE);
+    active = isForeground(AppState.currentState);
+    appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+    applyMix();
+    return true;
+  } catch (error) {
+    console.error('Failed to start sound:', error);
+    return false;
+  } finally {
+    starting = null;
+  }
+};
+
+const unlock = async (): Promise<boolean> => {
+  if (channels) {
+    applyMix();
+    return true;
+  }
+  starting = starting ?? start();
+  return starting;
+};
+
+// 水しぶき（1つの音を頭から鳴らし直す。速さを少し変えて毎回同じ音に聞こえないようにする）
+const playSplash = (volume: number) => {
+  if (!splash || !active || volume <= 0) return;
+
+  splash.volume = volume;
+  splash.setPlaybackRate(0.8 + Math.random() * 0.4);
+  splash
+    .seekTo(0)
+    .then(() => splash?.play())
+    .catch((error) => console.error('Failed to play splash:', error));
+};
+
+const stop = () => {
+  if (!channels) return;
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+  channels.river.remove();
+  channels.rain.remove();
+  splash?.remove();
+  channels = null;
+  splash = null;
+};
+
+export const soundEngine: SoundEngine = {
+  isSupported: true,
+  unlock,
+  setAmbient: (mix) => {
+    currentMix = mix;
+    if (channels) {
+      applyMix();
+    } else {
+      unlock();
+    }
+  },
+  playSplash,
+  stop,
+};
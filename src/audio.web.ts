@@ -0,0 +1,137 @@
+import { AmbientChannel, AmbientMix, SoundEngine } from './sound';
+
+// Web 版の水音（Web Audio API で川のせせらぎと雨音、水しぶきをその場で作る）
+// ブラウザは画面に触れるまで音を鳴らせないため、unlock で初めて AudioContext を動かす
+const AudioContextClass: typeof AudioContext | undefined =
+  typeof window === 'undefined'
+    ? undefined
+    : window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+
+// 音量を変えるときに馴染ませる時間（秒）
+const FADE_SECONDS = 0.8;
+// くり返し鳴らすノイズの長さ（秒）
+const NOISE_SECONDS = 4;
+// 水しぶきの長さ（秒）
+const SPLASH_SECONDS = 0.4;
+
+let audio: AudioContext | null = null;
+let channels: Record<AmbientChannel, GainNode> | null = null;
+let splashBuffer: AudioBuffer | null = null;
+// 鳴らせるようになる前に決まった音量も覚えておく
+let currentMix: AmbientMix = { river: 0, rain: 0 };
+
+// ノイズを作る（brown は低い音が多く、川のせせらぎに近い）
+const createNoiseBuffer = (context: AudioContext, seconds: number, brown: boolean): AudioBuffer => {
+  const buffer = context.createBuffer(1, Math.floor(context.sampleRate * seconds), context.sampleRate);
+  const data = buffer.getChannelData(0);
+  let last = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (brown) {
+      last = (last + 0.02 * white) / 1.02;
+      data[i] = last * 3.5;
+    } else {
+      data[i] = white;
+    }
+  }
+  return buffer;
+};
+
+// ノイズをフィルターに通してくり返し鳴らし、音量のつまみを返す
+const createLoop = (
+  context: AudioContext,
+  buffer: AudioBuffer,
+  type: BiquadFilterType,
+  frequency: number
+): GainNode => {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  const filter = context.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = frequency;
+  const gain = context.createGain();
+  gain.gain.value = 0;
+  source.connect(filter).connect(gain).connect(context.destination);
+  source.start();
+  return gain;
+};
+
+const applyMix = () => {
+  if (!audio || !channels) return;
+  const now = audio.currentTime;
+  (Object.keys(channels) as AmbientChannel[]).forEach((channel) => {
+    channels?.[channel].gain.setTargetAtTime(currentMix[channel], now, FADE_SECONDS / 3);
+  });
+};
+
+// タブを隠している間は音を止める
+const handleVisibilityChange = () => {
+  if (!audio) return;
+  const change = document.hidden ? audio.suspend() : audio.resume();
+  change.catch((error) => console.error('Failed to change sound state:', error));
+};
+
+const unlock = async (): Promise<boolean> => {
+  if (!AudioContextClass) {
+    return false;
+  }
+  try {
+    if (!audio) {
+      audio = new AudioContextClass();
+      channels = {
+        river: createLoop(audio, createNoiseBuffer(audio, NOISE_SECONDS, true), 'lowpass', 900),
+        rain: createLoop(audio, createNoiseBuffer(audio, NOISE_SECONDS, false), 'highpass', 2500),
+      };
+      splashBuffer = createNoiseBuffer(audio, SPLASH_SECONDS, false);
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
+    if (audio.state === 'suspended') {
+      await audio.resume();
+    }
+    applyMix();
+    return audio.state === 'running';
+  } catch (error) {
+    console.error('Failed to start sound:', error);
+    return false;
+  }
+};
+
+// 水しぶき（短いノイズを帯域で絞り、すぐに消えるようにする）
+const playSplash = (volume: number) => {
+  if (!audio || !splashBuffer || audio.state !== 'running' || volume <= 0) return;
+
+  const now = audio.currentTime;
+  const source = audio.createBufferSource();
+  source.buffer = splashBuffer;
+  const filter = audio.createBiquadFilter();
+  filter.type = 'bandpass';
+  filter.frequency.value = 900 + Math.random() * 900;
+  const gain = audio.createGain();
+  gain.gain.setValueAtTime(0.0001, now);
+  gain.gain.exponentialRampToValueAtTime(volume, now + 0.02);
+  gain.gain.exponentialRampToValueAtTime(0.0001, now + SPLASH_SECONDS);
+  source.connect(filter).connect(gain).connect(audio.destination);
+  source.start(now);
+  source.stop(now + SPLASH_SECONDS);
+};
+
+const stop = () => {
+  if (!audio) return;
+  document.removeEventListener('visibilitychange', handleVisibilityChange);
+  audio.close().catch((error) => console.error('Failed to stop sound:', error));
+  audio = null;
+  channels = null;
+  splashBuffer = null;
+};
+
+export const soundEngine: SoundEngine = {
+  isSupported: AudioContextClass !== undefined,
+  unlock,
+  setAmbient: (mix) => {
+    currentMix = mix;
+    applyMix();
+  },
+  playSplash,
+  stop,
+};
@@ -0,0 +1,59 @@
+import {
+  addDays,
+  fromDayNumber,
+  fromLocalTime,
+  isValidTimeZone,
+  toDateKey,
+  toDayNumber,
+} from './calendar';
+
+describe('暦日計算のテスト', () => {
+  describe('toDateKey', () => {
+    test('指定したタイムゾーンの暦日を返す', () => {
+      const date = new Date('2024-01-04T23:30:00Z');
+
+      expect(toDateKey(date, 'UTC')).toBe('2024-01-04');
+      expect(toDateKey(date, 'Asia/Tokyo')).toBe('2024-01-05');
+    });
+
+    test('夏時間のあるタイムゾーンでも暦日を返す', () => {
+      // 2024-03-10 02:30 は米国東部では存在しない時刻
+      expect(toDateKey(new Date('2024-03-10T07:30:00Z'), 'America/New_York')).toBe('2024-03-10');
+      expect(toDateKey(new Date('2024-03-10T04:30:00Z'), 'America/New_York')).toBe('2024-03-09');
+    });
+  });
+
+  describe('toDayNumber / fromDayNumber', () => {
+    test('往復変換で同じ日付に戻る', () => {
+      expect(fromDayNumber(toDayNumber('2024-02-29'))).toBe('2024-02-29');
+      expect(toDayNumber('2024-01-02') - toDayNumber('2024-01-01')).toBe(1);
+    });
+  });
+
+  describe('addDays', () => {
+    test('月末・年末をまたいで加算できる', () => {
+      expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    test('IANA のタイムゾーン名を判定する', () => {
+      expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimeZone('Not/AZone')).toBe(false);
+    });
+  });
+
+  describe('fromLocalTime', () => {
+    test('タイムゾーンでの時刻を Date に変換する', () => {
+      expect(fromLocalTime('2024-01-15', 20, 0, 'Asia/Tokyo').toISOString()).toBe('2024-01-15T11:00:00.000Z');
+      expect(fromLocalTime('2024-01-15', 8, 30, 'UTC').toISOString()).toBe('2024-01-15T08:30:00.000Z');
+    });
+
+    test('夏時間の前後で時差が変わる', () => {
+      expect(fromLocalTime('2024-03-09', 20, 0, 'America/New_York').toISOString()).toBe('2024-03-10T01:00:00.000Z');
+      expect(fromLocalTime('2024-03-10', 20, 0, 'America/New_York').toISOString()).toBe('2024-03-11T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+// 暦日（YYYY-MM-DD）の計算
+// 日付の境界はすべてユーザーのタイムゾーンで判定する
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// 端末のタイムゾーンを取得（取得できない場合は UTC）
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (error) {
+    return 'UTC';
+  }
+};
+
+// タイムゾーンが有効か判定
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// 指定タイムゾーンでの暦日を YYYY-MM-DD 形式で取得
+export const toDateKey = (date: Date, timeZone: string): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+};
+
+// YYYY-MM-DD を UTC 基準の通し日数に変換（時刻・夏時間の影響を受けない）
+export const toDayNumber = (dateKey: string): number => {
+  const [year, month, day] = dateKey.slice(0, 10).split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+// 通し日数を YYYY-MM-DD に戻す
+export const fromDayNumber = (dayNumber: number): string => {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().split('T')[0];
+};
+
+// 暦日に日数を加算
+export const addDays = (dateKey: string, days: number): string => {
+  return fromDayNumber(toDayNumber(dateKey) + days);
+};
+
+// 指定タイムゾーンでの時刻と UTC の差（ミリ秒）
+const getTimeZoneOffset = (time: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUTC - Math.floor(time / 1000) * 1000;
+};
+
+// 指定タイムゾーンでの暦日と時刻を Date に変換
+export const fromLocalTime = (dateKey: string, hour: number, minute: number, timeZone: string): Date => {
+  const [year, month, day] = dateKey.slice(0, 10).split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  // 夏時間の切り替わりをまたぐときは、変換後の時刻での差で取り直す
+  return new Date(wallClock - getTimeZoneOffset(guess, timeZone));
+};
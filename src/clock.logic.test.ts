@@ -0,0 +1,167 @@
+import { CLOCK_TOLERANCE_MS, assessClock } from './clock';
+import { recordVisit } from './journal';
+import { AppState, processCondition, processGrowth, processVisit, processVisitWithHistory } from './logic';
+import { createSeededContext } from './simulation';
+
+const at = (instant: string) => createSeededContext(7, instant);
+
+// 1/10 の正午に訪れ、時計の記録がある状態
+const visited: AppState = processVisit(
+  {
+    startDate: '2024-01-01',
+    lastVisitDate: '2024-01-09',
+    lastGrowthDate: '2024-01-09',
+    sizeFactor: 1.01,
+    condition: 'healthy',
+    latestLog: 'テスト',
+  },
+  at('2024-01-10T12:00:00Z')
+);
+
+describe('時計のずれのテスト', () => {
+  test('訪れるたびに一番新しく見た時刻を記録する', () => {
+    expect(visited.clock).toEqual({ lastSeenAt: Date.parse('2024-01-10T12:00:00Z') });
+
+    const next = processVisit(visited, at('2024-01-11T08:00:00Z'));
+    expect(next.clock).toEqual({ lastSeenAt: Date.parse('2024-01-11T08:00:00Z') });
+  });
+
+  test('時計の様子を見分ける', () => {
+    expect(assessClock({ ...visited, clock: undefined }, 7, at('2024-01-10T12:00:00Z'))).toBe('first');
+    expect(assessClock(visited, 7, at('2024-01-12T12:00:00Z'))).toBe('normal');
+    expect(assessClock(visited, 7, at('2024-01-17T12:00:00Z'))).toBe('forwardJump');
+    expect(assessClock(visited, 7, at('2024-01-09T12:00:00Z'))).toBe('backward');
+  });
+
+  test('時刻合わせ程度の小さな戻りは気にしない', () => {
+    const slightlyEarlier = new Date(Date.parse('2024-01-10T12:00:00Z') - CLOCK_TOLERANCE_MS + 1000);
+    expect(assessClock(visited, 7, createSeededContext(7, slightlyEarlier))).toBe('normal');
+  });
+
+  test('時計が戻っている間は何も進めない', () => {
+    const result = processVisitWithHistory(visited, at('2024-01-08T12:00:00Z'));
+
+    expect(result.clockStatus).toBe('backward');
+    expect(result.state).toBe(visited);
+    expect(result.missedDays).toEqual([]);
+  });
+
+  test('少しずつ時計を進めて育てても、元に戻したあとに同じ日がもう一度数えられることはない', () => {
+    // 1日ずつ時計を進めて開く
+    let cheated = processVisit(visited, at('2024-01-11T12:00:00Z'));
+    cheated = processVisit(cheated, at('2024-01-12T12:00:00Z'));
+    cheated = processVisit(cheated, at('2024-01-13T12:00:00Z'));
+    expect(cheated.lastGrowthDate).toBe('2024-01-13');
+
+    // 本当の日付（1/10 の夜）に戻すと、1/13 に追いつくまで止まる
+    const back = processVisit(cheated, at('2024-01-10T20:00:00Z'));
+    const nextDay = processVisit(back, at('2024-01-11T20:00:00Z'));
+    expect(back).toBe(cheated);
+    expect(nextDay).toBe(cheated);
+
+    // 追いついたあとは、毎日開いていた場合と同じ大きさになる
+    let honest = visited;
+    ['2024-01-11', '2024-01-12', '2024-01-13', '2024-01-14'].forEach((date) => {
+      honest = processVisit(honest, at(`${date}T12:00:00Z`));
+    });
+    const caughtUp = processVisit(cheated, at('2024-01-14T12:00:00Z'));
+    expect(caughtUp.sizeFactor).toBeCloseTo(honest.sizeFactor, 12);
+  });
+
+  test('大きく進んだときは長い留守として処理し、進む前の状態を残す', () => {
+    const result = processVisitWithHistory(visited, at('2025-01-10T12:00:00Z'));
+
+    expect(result.clockStatus).toBe('forwardJump');
+    expect(result.state.condition).toBe('dead');
+    expect(result.state.clock?.lastSeenAt).toBe(Date.parse('2025-01-10T12:00:00Z'));
+    expect(result.state.clock?.checkpoint).toEqual({
+      seenAt: Date.parse('2024-01-10T12:00:00Z'),
+      state: { ...visited, clock: undefined },
+    });
+  });
+
+  test('大きく進んだ時計が元に戻されたら、進む前の状態から続ける', () => {
+    const jumped = processVisit(visited, at('2025-01-10T12:00:00Z'));
+    const result = processVisitWithHistory(jumped, at('2024-01-11T12:00:00Z'));
+
+    expect(result.clockStatus).toBe('backward');
+    expect(result.state.condition).toBe('healthy');
+    expect(result.state.lastVisitDate).toBe('2024-01-11');
+    expect(result.state.sizeFactor).toBeCloseTo(
+      processVisit(visited, at('2024-01-11T12:00:00Z')).sizeFactor,
+      12
+    );
+    expect(result.state.clock).toEqual({ lastSeenAt: Date.parse('2024-01-11T12:00:00Z') });
+  });
+
+  test('姿が消えるまでの日数が延びていれば、大きく進んだとみなす日数も延びる', () => {
+    expect(assessClock(visited, 21, at('2024-01-17T12:00:00Z'))).toBe('normal');
+    expect(assessClock(visited, 21, at('2024-01-31T12:00:00Z'))).toBe('forwardJump');
+
+    const gentle = { ...at('2024-01-19T12:00:00Z'), thresholds: { weakDays: 7, deadDays: 21 } };
+    const result = processVisitWithHistory(visited, gentle);
+    expect(result.clockStatus).toBe('normal');
+    expect(result.state.clock?.checkpoint).toBeUndefined();
+  });
+
+  test('大きく進んだあとにふつうに訪れたら、チェックポイントは捨てる', () => {
+    const jumped = processVisit(visited, at('2025-01-10T12:00:00Z'));
+    const next = processVisit(jumped, at('2025-01-11T12:00:00Z'));
+
+    expect(jumped.clock?.checkpoint).toBeDefined();
+    expect(next.clock).toEqual({ lastSeenAt: Date.parse('2025-01-11T12:00:00Z') });
+  });
+
+  test('何週間も毎日訪れたあとに時計が少し戻っても、古い状態には戻さない', () => {
+    // 9日の留守のあと、40日間毎日訪れる
+    const returnedAt = Date.parse('2024-01-19T12:00:00Z');
+    let state = processVisit(visited, at('2024-01-19T12:00:00Z'));
+    for (let day = 1; day <= 40; day++) {
+      state = processVisit(state, createSeededContext(7, new Date(returnedAt + day * 24 * 60 * 60 * 1000)));
+    }
+    // 2時間だけ時計が戻る
+    const lastSeenAt = state.clock?.lastSeenAt ?? 0;
+    const result = processVisitWithHistory(state, createSeededContext(7, new Date(lastSeenAt - 2 * 60 * 60 * 1000)));
+
+    expect(result.clockStatus).toBe('backward');
+    expect(result.state).toBe(state);
+  });
+
+  test('本当に長く留守にして姿が消えたあとは、時計が戻されても姿は戻らない', () => {
+    const gone = processVisit(visited, at('2024-01-20T12:00:00Z'));
+    expect(gone.condition).toBe('dead');
+
+    const result = processVisitWithHistory(gone, at('2024-01-20T10:00:00Z'));
+    expect(result.clockStatus).toBe('backward');
+    expect(result.state.condition).toBe('dead');
+
+    // 日付が変わるほど戻されても、留守の長さはもう姿が消えるほどだったので取り消さない
+    expect(processVisit(gone, at('2024-01-19T12:00:00Z')).condition).toBe('dead');
+  });
+
+  test('進む前よりさらに前まで戻されたときは、チェックポイントも使わず止める', () => {
+    const jumped = processVisit(visited, at('2025-01-10T12:00:00Z'));
+    expect(processVisit(jumped, at('2024-01-05T12:00:00Z'))).toBe(jumped);
+  });
+
+  test('取り消された訪問の日記は残さない', () => {
+    const jumped = processVisitWithHistory(visited, at('2025-01-10T12:00:00Z'));
+    const journal = recordVisit([], jumped.missedDays, jumped.state);
+    expect(journal[journal.length - 1].date).toBe('2025-01-10');
+
+    const restored = processVisitWithHistory(jumped.state, at('2024-01-11T12:00:00Z'));
+    const after = recordVisit(journal, restored.missedDays, restored.state);
+    expect(after[after.length - 1]).toMatchObject({ date: '2024-01-11', visited: true });
+    expect(after.every((entry) => entry.date <= '2024-01-11')).toBe(true);
+  });
+
+  test('暦日だけが戻ったとき（西へのタイムゾーン移動）は空白とみなさず、日付も巻き戻さない', () => {
+    const state = { ...visited, clock: undefined, lastVisitDate: '2024-01-10', lastGrowthDate: '2024-01-10' };
+    const ctx = createSeededContext(7, '2024-01-10T03:00:00Z', 'America/Los_Angeles');
+
+    expect(processGrowth(state, ctx)).toBe(state);
+    const condition = processCondition(state, ctx);
+    expect(condition.condition).toBe('healthy');
+    expect(condition.lastVisitDate).toBe('2024-01-10');
+  });
+});
@@ -0,0 +1,86 @@
+import type { AppState } from './logic';
+import { SimulationContext, systemContext } from './simulation';
+
+// 時計の記録（端末の時計が戻されたり、大きく進められたりしたことに気づくため）
+// lastSeenAt: これまでに見た一番新しい時刻（ミリ秒）
+// checkpoint: 大きく時計が進んだ訪問の直前の状態（時計が戻されたときに戻す先）
+// 進んだあとにふつうに訪れたら、その進みは本当の時間だったとみなして捨てる
+export interface ClockRecord {
+  lastSeenAt: number;
+  checkpoint?: ClockCheckpoint;
+}
+
+export interface ClockCheckpoint {
+  seenAt: number;
+  state: AppState;
+}
+
+// 時計の様子
+// first: 記録がない（初めて、または古い保存データ）/ normal: ふつうに進んでいる
+// forwardJump: 前回から大きく進んだ / backward: 前回より戻っている
+export type ClockStatus = 'first' | 'normal' | 'forwardJump' | 'backward';
+
+// 時刻合わせなどの小さなずれは戻ったとみなさない
+export const CLOCK_TOLERANCE_MS = 60 * 60 * 1000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// 前回の記録と今の時刻を比べる
+// forwardJumpDays 日以上進んだら、戻されたときに取り消せるよう直前の状態を残しておく
+// （姿が消えるほどの間。logic が放置のしきい値から決める）
+export const assessClock = (
+  state: AppState,
+  forwardJumpDays: number,
+  ctx: SimulationContext = systemContext
+): ClockStatus => {
+  if (!state.clock) {
+    return 'first';
+  }
+  const now = ctx.now().getTime();
+  if (now < state.clock.lastSeenAt - CLOCK_TOLERANCE_MS) {
+    return 'backward';
+  }
+  if (now - state.clock.lastSeenAt >= forwardJumpDays * MS_PER_DAY) {
+    return 'forwardJump';
+  }
+  return 'normal';
+};
+
+// 時計の記録を取り除いた状態（チェックポイントに入れ子で残さないため）
+export const withoutClock = (state: AppState): AppState => {
+  const { clock, ...rest } = state;
+  return rest;
+};
+
+// 戻された時計が、大きく進む前の時刻のあたりまで戻っているか（それならその進みは時計の誤りとして取り消す）
+// 進む前の時刻から forwardJumpDays 日以上たっているなら、戻されたあとの時計でも本当に長い留守だったので取り消さない
+export const canRestoreCheckpoint = (
+  state: AppState,
+  forwardJumpDays: number,
+  ctx: SimulationContext = systemContext
+): boolean => {
+  const checkpoint = state.clock?.checkpoint;
+  if (!checkpoint) {
+    return false;
+  }
+  const now = ctx.now().getTime();
+  return now >= checkpoint.seenAt - CLOCK_TOLERANCE_MS && now < checkpoint.seenAt + forwardJumpDays * MS_PER_DAY;
+};
+
+// 訪問を終えたときの時計の記録
+// 大きく進んだときは訪問前の状態をチェックポイントとして残す
+// それ以外の訪問では残さない（進んだあとのふつうの訪問で、古いチェックポイントは役目を終える）
+export const recordClock = (
+  previous: AppState,
+  status: ClockStatus,
+  ctx: SimulationContext = systemContext
+): ClockRecord => {
+  const now = ctx.now().getTime();
+  if (status === 'forwardJump' && previous.clock) {
+    return {
+      lastSeenAt: now,
+      checkpoint: { seenAt: previous.clock.lastSeenAt, state: withoutClock(previous) },
+    };
+  }
+  return { lastSeenAt: Math.max(now, previous.clock?.lastSeenAt ?? now) };
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { MAX_LOG_FONT_SCALE } from '../accessibility';
+
+interface DailyLogBannerProps {
+  text: string;
+}
+
+// 日次ログ（画面の下に静かに表示する）
+// 端末の文字の大きさの設定に合わせて大きくなり、変わったときは読み上げで知らせる
+const DailyLogBanner: React.FC<DailyLogBannerProps> = ({ text }) => (
+  <View style={styles.container}>
+    <Text
+      style={styles.text}
+      allowFontScaling
+      maxFontSizeMultiplier={MAX_LOG_FONT_SCALE}
+      accessibilityRole="text"
+      accessibilityLiveRegion="polite"
+      testID="daily-log"
+    >
+      {text}
+    </Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 40,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    marginHorizontal: 20,
+  },
+  text: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 16,
+    textAlign: 'center',
+    textShadowColor: 'rgba(0, 0, 0, 0.3)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
+});
+
+export default DailyLogBanner;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+
+interface OverlayScreenProps {
+  title: string;
+  onClose: () => void;
+  // 画面と閉じるボタンの testID
+  testID: string;
+  closeTestID: string;
+  // 閉じるボタンの文言（省略時は「閉じる」）
+  closeLabel?: string;
+  children?: React.ReactNode;
+}
+
+// 川の上に重ねて開く画面（日記や設定など）の枠と、題名と閉じるボタンの並ぶ見出し
+const OverlayScreen: React.FC<OverlayScreenProps> = ({
+  title,
+  onClose,
+  testID,
+  closeTestID,
+  closeLabel = '閉じる',
+  children,
+}) => (
+  <View style={styles.overlay} testID={testID}>
+    <View style={styles.header}>
+      <Text style={styles.title}>{title}</Text>
+      <TouchableOpacity onPress={onClose} accessibilityRole="button" testID={closeTestID}>
+        <Text style={styles.closeText}>{closeLabel}</Text>
+      </TouchableOpacity>
+    </View>
+    {children}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(20, 40, 50, 0.9)',
+    paddingTop: 48,
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 18,
+  },
+  closeText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+  },
+});
+
+export default OverlayScreen;
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet, Animated } from 'react-native';
+import { RIPPLE_LIFETIME_MS } from '../interaction';
+
+interface RippleProps {
+  x: number;
+  y: number;
+  // 消え終わったとき
+  onDone: () => void;
+}
+
+const RIPPLE_SIZE = 80;
+
+// 水面をなぞったところに広がる波紋
+const Ripple: React.FC<RippleProps> = ({ x, y, onDone }) => {
+  const progress = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    const animation = Animated.timing(progress, {
+      toValue: 1,
+      duration: RIPPLE_LIFETIME_MS,
+      useNativeDriver: true,
+    });
+    animation.start(({ finished }) => {
+      if (finished) onDone();
+    });
+    return () => animation.stop();
+  }, []);
+
+  const scale = progress.interpolate({ inputRange: [0, 1], outputRange: [0.2, 1] });
+  const opacity = progress.interpolate({ inputRange: [0, 1], outputRange: [0.6, 0] });
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      style={[
+        styles.ripple,
+        { left: x - RIPPLE_SIZE / 2, top: y - RIPPLE_SIZE / 2, opacity, transform: [{ scale }] },
+      ]}
+      testID="ripple"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  ripple: {
+    position: 'absolute',
+    width: RIPPLE_SIZE,
+    height: RIPPLE_SIZE,
+    borderRadius: RIPPLE_SIZE / 2,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.7)',
+  },
+});
+
+export default Ripple;
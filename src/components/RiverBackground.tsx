@@ -0,0 +1,115 @@
+import React from 'react';
+import { StyleSheet, View, Image, Dimensions } from 'react-native';
+import { RIVER_LAYOUT, resolveRect } from '../movement';
+import { RenderMode } from './renderMode';
+
+interface RiverBackgroundProps {
+  mode: RenderMode;
+  // 季節の色合い
+  tint: string;
+  // 天気（雨や濁り）の色合い（変化がなければ null）
+  weatherTint?: string | null;
+  // 時間帯の光（昼は null）
+  lighting?: string | null;
+  // 画像の読み込みが終わったか（illustrated のときだけ使う）
+  imagesLoaded: boolean;
+}
+
+// 岩の傾き
+const ROCK_ROTATIONS: Record<string, string> = {
+  rock1: '-15deg',
+  rock2: '20deg',
+  rock3: '-10deg',
+};
+
+// 川の背景（季節と天気の色合い、時間帯の光を重ねる）
+const RiverBackground: React.FC<RiverBackgroundProps> = ({
+  mode,
+  tint,
+  weatherTint = null,
+  lighting = null,
+  imagesLoaded,
+}) => {
+  const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+
+  return (
+    <>
+      {mode === 'illustrated' ? (
+        imagesLoaded && (
+          <Image
+            source={require('../../assets/river.png')}
+            style={styles.riverImage}
+            resizeMode="cover"
+            testID="river-image"
+          />
+        )
+      ) : (
+        <View style={styles.riverDrawn} testID="river-drawn" />
+      )}
+      {/* 岩（うろうろの障害物・休み場所と同じ配置。どちらの描き方でも描く） */}
+      {RIVER_LAYOUT.filter((item) => item.kind === 'rock').map((item) => {
+        const rect = resolveRect(item, screenWidth, screenHeight);
+        return (
+          <View
+            key={item.id}
+            style={[
+              mode === 'illustrated' ? styles.rockIllustrated : styles.rock,
+              { left: rect.left, bottom: rect.bottom, width: rect.width, height: rect.height },
+              { transform: [{ rotate: ROCK_ROTATIONS[item.id] ?? '0deg' }] },
+            ]}
+            testID="rock"
+          />
+        );
+      })}
+      {/* 季節の色合い */}
+      <View style={[styles.seasonTint, { backgroundColor: tint }]} testID="season-tint" />
+      {/* 天気の色合い */}
+      {weatherTint && <View style={[styles.seasonTint, { backgroundColor: weatherTint }]} testID="weather-tint" />}
+      {/* 時間帯の光 */}
+      {lighting && <View style={[styles.seasonTint, { backgroundColor: lighting }]} testID="lighting" />}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  riverImage: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    width: '100%',
+    minHeight: Dimensions.get('window').height,
+  },
+  riverDrawn: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#4a90a4',
+  },
+  seasonTint: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  rock: {
+    position: 'absolute',
+    backgroundColor: '#6b5b4f',
+    borderRadius: 50,
+    opacity: 0.7,
+  },
+  // 背景の絵の飛び石に合わせた、ふちどりのある灰色の岩
+  rockIllustrated: {
+    position: 'absolute',
+    backgroundColor: '#a9aaa4',
+    borderWidth: 2,
+    borderColor: '#4d4e4a',
+    borderRadius: 50,
+  },
+});
+
+export default RiverBackground;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { StyleSheet, Image, Animated, View, AccessibilityActionEvent } from 'react-native';
+import { SALAMANDER_ACTIONS } from '../accessibility';
+import { SpotPattern, Traits } from '../identity';
+import { Facing } from '../interaction';
+import { Condition } from '../logic';
+import { StageSprite } from '../sprites';
+
+interface SalamanderProps {
+  sprite: StageSprite;
+  sizeFactor: number;
+  condition: Condition;
+  // その子だけの模様と色味（なければ画像のまま）
+  traits?: Traits;
+  // 画面下からの位置
+  bottom: number;
+  // なでたときの拡大
+  scale: Animated.Value;
+  // うろうろの位置（X座標）。なければその場にとどまる
+  translateX?: Animated.Value;
+  // うろうろの位置（Y座標、下向きが正）
+  translateY?: Animated.Value;
+  // 画像の読み込みが終わったか
+  imagesLoaded?: boolean;
+  // 向き（1: 画像のまま / -1: 左右反転）
+  facing?: Facing;
+  // 読み上げで伝える姿の説明
+  accessibilityLabel?: string;
+  // 読み上げで選べる操作（省略時はつつく・見守る）
+  accessibilityActions?: { name: string; label: string }[];
+  onAccessibilityAction?: (event: AccessibilityActionEvent) => void;
+}
+
+// 模様の斑点の位置と大きさ（姿の幅に対する割合。胴のあたりに置く）
+const SPOT_LAYOUTS: Record<SpotPattern, [number, number, number][]> = {
+  plain: [],
+  dotted: [
+    [0.3, 0.45, 0.07],
+    [0.45, 0.4, 0.06],
+    [0.58, 0.5, 0.07],
+    [0.7, 0.42, 0.05],
+  ],
+  mottled: [
+    [0.32, 0.42, 0.14],
+    [0.52, 0.48, 0.16],
+    [0.68, 0.4, 0.12],
+  ],
+  speckled: [
+    [0.28, 0.4, 0.03],
+    [0.34, 0.52, 0.025],
+    [0.42, 0.44, 0.03],
+    [0.48, 0.55, 0.025],
+    [0.55, 0.42, 0.03],
+    [0.61, 0.52, 0.025],
+    [0.67, 0.44, 0.03],
+    [0.73, 0.5, 0.025],
+  ],
+};
+
+// オオサンショウウオ（姿が消えたあとは描かない）
+const Salamander: React.FC<SalamanderProps> = ({
+  sprite,
+  sizeFactor,
+  condition,
+  traits,
+  bottom,
+  scale,
+  translateX,
+  translateY,
+  imagesLoaded = true,
+  facing = 1,
+  accessibilityLabel,
+  accessibilityActions = SALAMANDER_ACTIONS,
+  onAccessibilityAction,
+}) => {
+  if (condition === 'dead') {
+    return null;
+  }
+
+  const size = sizeFactor * 100; // ベースサイズ100
+  const height = size * sprite.aspectRatio;
+  const opacity = condition === 'weak' ? 0.5 : 1.0;
+  const transform = [
+    { scale },
+    ...(translateX ? [{ translateX }] : []),
+    ...(translateY ? [{ translateY }] : []),
+  ];
+
+  return (
+    <Animated.View
+      style={[styles.container, { bottom, transform, opacity }]}
+      accessible
+      accessibilityRole="image"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityActions={onAccessibilityAction ? accessibilityActions : undefined}
+      onAccessibilityAction={onAccessibilityAction}
+      testID="oosan"
+    >
+      {imagesLoaded && (
+        <View style={{ width: size, height, transform: [{ scaleX: facing }] }}>
+          <Image source={sprite.source} style={{ width: size, height }} resizeMode="contain" testID="oosan-image" />
+          {/* その子の色味と模様を体に重ねる */}
+          {traits && (
+            <View style={StyleSheet.absoluteFill} pointerEvents="none">
+              <View
+                style={[styles.tint, { backgroundColor: traits.tint, borderRadius: height / 2 }]}
+                testID="oosan-tint"
+              />
+              {SPOT_LAYOUTS[traits.spotPattern].map(([x, y, diameter], index) => (
+                <View
+                  key={index}
+                  style={[
+                    styles.spot,
+                    {
+                      left: size * (x - diameter / 2),
+                      top: height * y - (size * diameter) / 2,
+                      width: size * diameter,
+                      height: size * diameter,
+                      borderRadius: (size * diameter) / 2,
+                    },
+                  ]}
+                  testID="oosan-spot"
+                />
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  tint: {
+    position: 'absolute',
+    left: '15%',
+    right: '10%',
+    top: '30%',
+    bottom: '25%',
+  },
+  spot: {
+    position: 'absolute',
+    backgroundColor: 'rgba(30, 25, 20, 0.35)',
+  },
+});
+
+export default Salamander;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+
+interface UpdateBannerProps {
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+// 新しい版があることを控えめに知らせる（自動では読み込み直さない）
+const UpdateBanner: React.FC<UpdateBannerProps> = ({ onApply, onDismiss }) => (
+  <View style={styles.container} testID="update-banner">
+    <Text style={styles.text}>川の様子が少し新しくなりました。</Text>
+    <View style={styles.actions}>
+      <TouchableOpacity onPress={onDismiss} testID="update-dismiss">
+        <Text style={styles.actionText}>あとで</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onApply} testID="update-apply">
+        <Text style={styles.actionText}>読み込み直す</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 96,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+  },
+  text: {
+    flex: 1,
+    color: 'rgba(255, 255, 255, 0.75)',
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  actionText: {
+    color: 'rgba(255, 255, 255, 0.85)',
+    fontSize: 13,
+  },
+});
+
+export default UpdateBanner;
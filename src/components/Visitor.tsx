@@ -0,0 +1,204 @@
+import React, { useEffect } from 'react';
+import { StyleSheet, View, Animated, Dimensions } from 'react-native';
+import { CreatureId, getCreature } from '../ecosystem';
+
+interface VisitorProps {
+  creature: CreatureId;
+  // 動きを減らす設定のときは揺れずにじっとしている
+  still?: boolean;
+}
+
+// 生きものごとの居場所（画面に対する割合）と、ゆらゆら動く時間
+const PLACEMENTS: Record<CreatureId, { left: number; bottom: number; loopMs: number }> = {
+  smallFish: { left: 0.3, bottom: 0.42, loopMs: 4000 },
+  crab: { left: 0.7, bottom: 0.08, loopMs: 6000 },
+  dragonfly: { left: 0.4, bottom: 0.62, loopMs: 1500 },
+  heron: { left: 0.82, bottom: 0.72, loopMs: 8000 },
+  kingfisher: { left: 0.12, bottom: 0.7, loopMs: 3000 },
+  firefly: { left: 0.2, bottom: 0.55, loopMs: 2500 },
+};
+
+// 川を訪れるほかの生きもの（図形で描く）
+const Visitor: React.FC<VisitorProps> = ({ creature, still = false }) => {
+  const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+  const placement = PLACEMENTS[creature];
+  const wave = React.useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (still) {
+      wave.setValue(creature === 'firefly' ? 1 : 0.5);
+      return;
+    }
+    const half = placement.loopMs / 2;
+    const loop = Animated.loop(
+      Animated.sequence([
+        Animated.timing(wave, { toValue: 1, duration: half, useNativeDriver: true }),
+        Animated.timing(wave, { toValue: 0, duration: half, useNativeDriver: true }),
+      ])
+    );
+    loop.start();
+    return () => loop.stop();
+  }, [creature, still]);
+
+  // 小魚とサワガニは横に、トンボは上下に揺れ、ホタルは明滅する
+  const motion = {
+    smallFish: { transform: [{ translateX: wave.interpolate({ inputRange: [0, 1], outputRange: [-30, 30] }) }] },
+    crab: { transform: [{ translateX: wave.interpolate({ inputRange: [0, 1], outputRange: [0, 20] }) }] },
+    dragonfly: { transform: [{ translateY: wave.interpolate({ inputRange: [0, 1], outputRange: [-6, 6] }) }] },
+    heron: {},
+    kingfisher: {},
+    firefly: { opacity: wave.interpolate({ inputRange: [0, 1], outputRange: [0.2, 1] }) },
+  }[creature];
+
+  return (
+    <Animated.View
+      style={[
+        styles.container,
+        { left: screenWidth * placement.left, bottom: screenHeight * placement.bottom },
+        motion,
+      ]}
+      pointerEvents="none"
+      accessible
+      accessibilityRole="image"
+      accessibilityLabel={`${getCreature(creature).name}が来ています`}
+      testID={`visitor-${creature}`}
+    >
+      {creature === 'smallFish' && (
+        <View style={styles.school}>
+          <View style={styles.fish} />
+          <View style={[styles.fish, styles.fishBehind]} />
+          <View style={styles.fish} />
+        </View>
+      )}
+      {creature === 'crab' && (
+        <View style={styles.crab}>
+          <View style={styles.crabEye} />
+          <View style={styles.crabEye} />
+        </View>
+      )}
+      {creature === 'dragonfly' && (
+        <View style={styles.dragonfly}>
+          <View style={styles.wings} />
+          <View style={styles.dragonflyBody} />
+        </View>
+      )}
+      {creature === 'heron' && (
+        <View style={styles.heron}>
+          <View style={styles.heronNeck} />
+          <View style={styles.heronBody} />
+          <View style={styles.heronLeg} />
+        </View>
+      )}
+      {creature === 'kingfisher' && (
+        <View style={styles.kingfisher}>
+          <View style={styles.kingfisherBelly} />
+        </View>
+      )}
+      {creature === 'firefly' && (
+        <View style={styles.fireflies}>
+          <View style={styles.firefly} />
+          <View style={[styles.firefly, styles.fireflyFar]} />
+          <View style={styles.firefly} />
+        </View>
+      )}
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+  },
+  school: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  fish: {
+    width: 18,
+    height: 6,
+    marginRight: 8,
+    borderRadius: 3,
+    backgroundColor: 'rgba(200, 215, 220, 0.7)',
+  },
+  fishBehind: {
+    marginTop: 10,
+  },
+  crab: {
+    width: 22,
+    height: 12,
+    borderRadius: 6,
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    backgroundColor: '#c0563a',
+  },
+  crabEye: {
+    width: 3,
+    height: 3,
+    marginTop: -2,
+    borderRadius: 1.5,
+    backgroundColor: '#2b1a14',
+  },
+  dragonfly: {
+    alignItems: 'center',
+  },
+  wings: {
+    width: 30,
+    height: 5,
+    borderRadius: 2.5,
+    backgroundColor: 'rgba(230, 240, 250, 0.6)',
+  },
+  dragonflyBody: {
+    width: 3,
+    height: 20,
+    marginTop: -4,
+    borderRadius: 1.5,
+    backgroundColor: '#b5452f',
+  },
+  heron: {
+    alignItems: 'center',
+    opacity: 0.5,
+  },
+  heronNeck: {
+    width: 3,
+    height: 14,
+    backgroundColor: '#8a949c',
+  },
+  heronBody: {
+    width: 14,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#8a949c',
+  },
+  heronLeg: {
+    width: 2,
+    height: 12,
+    backgroundColor: '#5f666c',
+  },
+  kingfisher: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    overflow: 'hidden',
+    justifyContent: 'flex-end',
+    backgroundColor: '#1c8fc2',
+  },
+  kingfisherBelly: {
+    height: 5,
+    backgroundColor: '#e08a3c',
+  },
+  fireflies: {
+    flexDirection: 'row',
+  },
+  firefly: {
+    width: 5,
+    height: 5,
+    marginRight: 24,
+    borderRadius: 2.5,
+    backgroundColor: '#f4f0a0',
+  },
+  fireflyFar: {
+    marginTop: 18,
+  },
+});
+
+export default Visitor;
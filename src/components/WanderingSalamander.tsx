@@ -0,0 +1,194 @@
+import React, { useEffect } from 'react';
+import { AccessibilityActionEvent, Animated, Dimensions } from 'react-native';
+import { getBoldnessFactor } from '../identity';
+import { Facing, Point } from '../interaction';
+import { AppState, STAGE_BEHAVIORS, getLifeStage } from '../logic';
+import { BASE_SPEED, HOME_BOTTOM, Keyframe, getLaneLayout, planWander, resolveRiverLayout } from '../movement';
+import { STAGE_SPRITES } from '../sprites';
+import Salamander from './Salamander';
+
+interface WanderingSalamanderProps {
+  state: AppState;
+  // 何匹目の持ち場か（何匹かで暮らすときは川を横に区切る）
+  lane: number;
+  laneCount: number;
+  // 季節・天気・時間帯をあわせた活発さ
+  activity: number;
+  // 天気による泳ぐ速さの倍率
+  moveSpeed: number;
+  // 時間帯によるうろうろする範囲の倍率
+  wanderRange: number;
+  // うろうろを止めるか（見守っている間）
+  paused: boolean;
+  // 動きを減らす設定のとき、持ち場の真ん中で静かにしている
+  still?: boolean;
+  // 岩の下に隠れる時間か（持ち場の岩の下へ行き、そこから動かない）
+  hiding: boolean;
+  facing: Facing;
+  onFacingChange: (facing: Facing) => void;
+  // うろうろの1区切りを動き出すとき（水音を鳴らすなど）
+  onMove?: (keyframe: Keyframe) => void;
+  // なでたときの拡大（なければ大きさは変わらない）
+  scale?: Animated.Value;
+  // 今の位置（画面の中央・ふだんの高さからのずれ。Y は下向きが正）を知らせる先
+  positionRef?: React.MutableRefObject<Point>;
+  imagesLoaded: boolean;
+  // 読み上げで伝える姿の説明と、選べる操作
+  accessibilityLabel?: string;
+  accessibilityActions?: { name: string; label: string }[];
+  onAccessibilityAction?: (event: AccessibilityActionEvent) => void;
+}
+
+// うろうろするオオサンショウウオ
+// 岩や水草をよけて泳ぎ、たまにお気に入りの岩の下にもぐって休む。ほかの子の持ち場には入らない
+// 人見知りの子ほど、ふだんの位置から離れない
+const WanderingSalamander: React.FC<WanderingSalamanderProps> = ({
+  state,
+  lane,
+  laneCount,
+  activity,
+  moveSpeed,
+  wanderRange,
+  paused,
+  still = false,
+  hiding,
+  facing,
+  onFacingChange,
+  onMove,
+  scale,
+  positionRef,
+  imagesLoaded,
+  accessibilityLabel,
+  accessibilityActions,
+  onAccessibilityAction,
+}) => {
+  const stage = getLifeStage(state, state.lastVisitDate);
+  const sprite = STAGE_SPRITES[stage];
+  const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+  // 最初は自分の持ち場の真ん中にいる
+  const initialLayout = getLaneLayout(resolveRiverLayout(screenWidth, screenHeight), lane, laneCount);
+  const initialX = initialLayout.home.x - screenWidth / 2;
+  const xAnim = React.useRef(new Animated.Value(initialX)).current;
+  const yAnim = React.useRef(new Animated.Value(0)).current;
+  const fixedScale = React.useRef(new Animated.Value(1)).current;
+  const xRef = React.useRef(initialX);
+  const yRef = React.useRef(0);
+  // うろうろの向きの決め方に使う今の向き
+  const facingRef = React.useRef<Facing>(facing);
+  facingRef.current = facing;
+
+  useEffect(() => {
+    const report = () => {
+      if (positionRef) positionRef.current = { x: xRef.current, y: yRef.current };
+    };
+    report();
+    const xId = xAnim.addListener(({ value }) => {
+      xRef.current = value;
+      report();
+    });
+    const yId = yAnim.addListener(({ value }) => {
+      yRef.current = value;
+      report();
+    });
+    return () => {
+      xAnim.removeListener(xId);
+      yAnim.removeListener(yId);
+    };
+  }, [positionRef]);
+
+  // 成長段階と季節、天気、時間帯で動き方が変わる
+  // 夜は広く活発に動き、昼は持ち場の岩の下に隠れてじっとしている。見守っている間は止まる
+  useEffect(() => {
+    if (still) {
+      const { width, height } = Dimensions.get('window');
+      xAnim.setValue(getLaneLayout(resolveRiverLayout(width, height), lane, laneCount).home.x - width / 2);
+      yAnim.setValue(0);
+      return;
+    }
+    if (paused) return;
+
+    const behavior = STAGE_BEHAVIORS[stage];
+    const bodyWidth = state.sizeFactor * 100;
+    const options = {
+      bodyWidth,
+      bodyHeight: bodyWidth * sprite.aspectRatio,
+      wanderRange: behavior.wanderRange * wanderRange * getBoldnessFactor(state.traits),
+      speed: BASE_SPEED * behavior.moveSpeed * moveSpeed * activity,
+      restChance: behavior.restChance,
+      activity,
+      preferredRestSpot: state.traits?.restingSpot,
+      hiding,
+    };
+    // 待機中（delay）は位置のアニメーションを止めても終わらないので、動き全体を止める
+    let current: Animated.CompositeAnimation | null = null;
+    let cancelled = false;
+
+    const moveOosan = () => {
+      const { width, height } = Dimensions.get('window');
+      const layout = getLaneLayout(resolveRiverLayout(width, height), lane, laneCount);
+      const center = width / 2;
+      // 今いる位置から、障害物をよけた次の動きを決める（translateY は下向きが正）
+      const from = { x: center + xRef.current, y: layout.home.y - yRef.current };
+      const keyframes = planWander(from, layout, options, Math.random, facingRef.current);
+
+      const runKeyframe = (index: number) => {
+        if (cancelled) return;
+        if (index >= keyframes.length) {
+          moveOosan(); // 次の移動を開始
+          return;
+        }
+        const keyframe = keyframes[index];
+        // 向きが変わるときだけ知らせる（同じ向きのまま描き直さない）
+        if (keyframe.facing !== facingRef.current) onFacingChange(keyframe.facing);
+        onMove?.(keyframe);
+        current = Animated.sequence([
+          Animated.parallel([
+            Animated.timing(xAnim, {
+              toValue: keyframe.x - center,
+              duration: keyframe.duration,
+              useNativeDriver: true,
+            }),
+            Animated.timing(yAnim, {
+              toValue: layout.home.y - keyframe.y,
+              duration: keyframe.duration,
+              useNativeDriver: true,
+            }),
+          ]),
+          Animated.delay(keyframe.wait),
+        ]);
+        current.start(({ finished }) => {
+          if (finished) runKeyframe(index + 1);
+        });
+      };
+
+      runKeyframe(0);
+    };
+
+    moveOosan();
+
+    return () => {
+      cancelled = true;
+      current?.stop();
+    };
+  }, [stage, state.sizeFactor, state.traits, lane, laneCount, activity, moveSpeed, wanderRange, paused, still, hiding]);
+
+  return (
+    <Salamander
+      sprite={sprite}
+      sizeFactor={state.sizeFactor}
+      condition={state.condition}
+      traits={state.traits}
+      bottom={screenHeight * HOME_BOTTOM}
+      scale={scale ?? fixedScale}
+      translateX={xAnim}
+      translateY={yAnim}
+      imagesLoaded={imagesLoaded}
+      facing={facing}
+      accessibilityLabel={accessibilityLabel}
+      accessibilityActions={accessibilityActions}
+      onAccessibilityAction={onAccessibilityAction}
+    />
+  );
+};
+
+export default WanderingSalamander;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { StyleSheet, View, Image, Animated } from 'react-native';
+import { Rect } from '../movement';
+import { RenderMode } from './renderMode';
+
+interface WaterweedProps {
+  mode: RenderMode;
+  // 配置（RIVER_LAYOUT の水草を画面の px に直したもの）
+  rect: Rect;
+  // ゆらゆらの値（-1〜1）。illustrated のときだけ使う
+  sway?: Animated.Value;
+  // 画像の読み込みが終わったか（illustrated のときだけ使う）
+  imagesLoaded?: boolean;
+}
+
+// illustrated の水草の絵の幅（配置の茎の中心にそろえて描く）
+const ILLUSTRATED_WIDTH = 60;
+
+// 水草（illustrated は画像がゆれる、drawn は細い棒で描く）
+// どちらも配置の場所に描くので、うろうろがよける水草と見える水草が同じになる
+const Waterweed: React.FC<WaterweedProps> = ({ mode, rect, sway, imagesLoaded = true }) => {
+  if (mode === 'drawn') {
+    return (
+      <View
+        style={[styles.weedDrawn, { left: rect.left, bottom: rect.bottom, width: rect.width, height: rect.height }]}
+        testID="waterweed"
+      />
+    );
+  }
+
+  const position = {
+    left: rect.left + rect.width / 2 - ILLUSTRATED_WIDTH / 2,
+    bottom: rect.bottom,
+    width: ILLUSTRATED_WIDTH,
+    height: rect.height,
+  };
+
+  const transform = sway
+    ? [
+        {
+          translateX: sway.interpolate({
+            inputRange: [-1, 1],
+            outputRange: [-10, 10],
+          }),
+        },
+        {
+          rotate: sway.interpolate({
+            inputRange: [-1, 1],
+            outputRange: ['-5deg', '5deg'],
+          }),
+        },
+      ]
+    : [];
+
+  return (
+    <Animated.View style={[styles.weedContainer, position, { transform }]} testID="waterweed">
+      {imagesLoaded && (
+        <Image
+          source={require('../../assets/mizukusa.png')}
+          style={styles.weedImage}
+          resizeMode="contain"
+        />
+      )}
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  weedContainer: {
+    position: 'absolute',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  weedImage: {
+    width: '100%',
+    height: '100%',
+  },
+  weedDrawn: {
+    position: 'absolute',
+    backgroundColor: '#2d5a3d',
+    borderRadius: 2,
+    opacity: 0.6,
+  },
+});
+
+export default Waterweed;
@@ -0,0 +1,6 @@
+// 川の描き方
+// illustrated: 画像を使った川（うろうろ・ゆらゆらのアニメーションあり）
+// drawn: 画像を使わず View で描く軽い川（アニメーションなし）
+export type RenderMode = 'illustrated' | 'drawn';
+
+export const DEFAULT_RENDER_MODE: RenderMode = 'illustrated';
@@ -0,0 +1,88 @@
+import {
+  CREATURES,
+  EcosystemContext,
+  getCollectionProgress,
+  getCreature,
+  getVisitChance,
+  getVisitorRandom,
+  pickVisitors,
+  recordSightings,
+} from './ecosystem';
+import { createTestState } from './testFixtures';
+import { TimeOfDay } from './timeOfDay';
+
+const summerNight: EcosystemContext = { season: 'summer', timeOfDay: 'night', condition: 'healthy' };
+
+const state = createTestState();
+
+describe('川の生きもののテスト', () => {
+  describe('現れやすさ', () => {
+    test('季節や時間帯が合わない生きものは現れない', () => {
+      expect(getVisitChance(getCreature('dragonfly'), summerNight)).toBe(0);
+      expect(getVisitChance(getCreature('firefly'), { ...summerNight, season: 'autumn' })).toBe(0);
+      expect(getVisitChance(getCreature('firefly'), summerNight)).toBeGreaterThan(0);
+    });
+
+    test('冬の夜は生きものがほとんど来ない', () => {
+      const winterNight = { ...summerNight, season: 'winter' as const };
+      expect(CREATURES.filter((creature) => getVisitChance(creature, winterNight) > 0)).toEqual([]);
+    });
+
+    test('弱っているときはサワガニが寄ってきて、アオサギが見張りに来る', () => {
+      const crab = getCreature('crab');
+      const heron = getCreature('heron');
+      const day = { ...summerNight, timeOfDay: 'day' as const };
+      expect(getVisitChance(crab, { ...summerNight, condition: 'weak' })).toBeGreaterThan(getVisitChance(crab, summerNight));
+      expect(getVisitChance(heron, { ...day, condition: 'weak' })).toBeGreaterThan(getVisitChance(heron, day));
+    });
+
+    test('めずらしい生きものは現れにくい', () => {
+      CREATURES.filter((creature) => creature.rarity === 'rare').forEach((creature) => {
+        expect(creature.chance).toBeLessThan(0.1);
+      });
+    });
+
+    test('知らない生きものは取得できない', () => {
+      // @ts-expect-error 壊れた保存データなどから来る、カタログにない id
+      expect(() => getCreature('otter')).toThrow();
+    });
+  });
+
+  describe('訪れる生きもの', () => {
+    test('確率に届いた生きものだけが現れる', () => {
+      expect(pickVisitors(summerNight, () => 0)).toEqual(['smallFish', 'crab', 'firefly']);
+      expect(pickVisitors(summerNight, () => 0.99)).toEqual([]);
+    });
+
+    test('同じ子・同じ日・同じ時間帯では同じ顔ぶれになる', () => {
+      const first = getVisitorRandom(state, '2024-06-20', 'night');
+      const again = getVisitorRandom(state, '2024-06-20', 'night');
+      expect(pickVisitors(summerNight, first)).toEqual(pickVisitors(summerNight, again));
+
+      const times: TimeOfDay[] = ['night', 'dusk'];
+      const sequences = times.map((timeOfDay) => getVisitorRandom(state, '2024-06-20', timeOfDay)());
+      expect(sequences[0]).not.toBe(sequences[1]);
+    });
+  });
+
+  describe('図鑑', () => {
+    test('はじめて見かけた日と見かけた日数を記録する', () => {
+      let collection = recordSightings({}, ['smallFish'], '2024-06-20');
+      collection = recordSightings(collection, ['smallFish', 'firefly'], '2024-06-22');
+
+      expect(collection.smallFish).toEqual({ firstSeen: '2024-06-20', lastSeen: '2024-06-22', days: 2 });
+      expect(collection.firefly).toEqual({ firstSeen: '2024-06-22', lastSeen: '2024-06-22', days: 1 });
+    });
+
+    test('同じ日に何度見かけても1日と数え、変化がなければ同じ図鑑を返す', () => {
+      const collection = recordSightings({}, ['crab'], '2024-06-20');
+      expect(recordSightings(collection, ['crab'], '2024-06-20')).toBe(collection);
+      expect(recordSightings(collection, [], '2024-06-21')).toBe(collection);
+    });
+
+    test('集まり具合を数える', () => {
+      const collection = recordSightings({}, ['smallFish', 'kingfisher'], '2024-06-20');
+      expect(getCollectionProgress(collection)).toEqual({ seen: 2, total: CREATURES.length, rareSeen: 1, rareTotal: 2 });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { toDayNumber } from './calendar';
+import { AppState, Condition } from './logic';
+import { Season } from './season';
+import { createSeededRandom, hashSeed } from './simulation';
+import { TimeOfDay } from './timeOfDay';
+
+// 川を訪れるほかの生きもの
+export type CreatureId = 'smallFish' | 'crab' | 'dragonfly' | 'heron' | 'kingfisher' | 'firefly';
+
+// めずらしさ（rare は図鑑で特に記録される）
+export type Rarity = 'common' | 'rare';
+
+// 生きものの現れ方
+// chance: 季節と時間帯が合うときに現れる確率
+// conditionWeights: オオサンショウウオの様子による確率の倍率（省略した様子は 1）
+export interface Creature {
+  id: CreatureId;
+  name: string;
+  description: string;
+  rarity: Rarity;
+  seasons: Season[];
+  timesOfDay: TimeOfDay[];
+  chance: number;
+  conditionWeights?: Partial<Record<Condition, number>>;
+}
+
+// 生きものが現れるかを決める川の様子
+export interface EcosystemContext {
+  season: Season;
+  timeOfDay: TimeOfDay;
+  condition: Condition;
+}
+
+// 図鑑の1種類分の記録
+export interface Sighting {
+  // はじめて見かけた日
+  firstSeen: string;
+  // 最後に見かけた日
+  lastSeen: string;
+  // 見かけた日数
+  days: number;
+}
+
+// 図鑑（見かけた生きものだけを記録する）
+export type CreatureCollection = Partial<Record<CreatureId, Sighting>>;
+
+// 生きもの（図鑑に並べる順）
+// 元気なオオサンショウウオは小魚やサワガニを食べるので、弱っているときほど近くに寄ってくる
+// 遠くのアオサギは弱った姿を見張るようにやって来る
+export const CREATURES: Creature[] = [
+  {
+    id: 'smallFish',
+    name: '小魚',
+    description: '群れで流れに向かって泳ぐ小さな魚。',
+    rarity: 'common',
+    seasons: ['spring', 'summer', 'autumn'],
+    timesOfDay: ['dawn', 'day', 'dusk', 'night'],
+    chance: 0.5,
+    conditionWeights: { healthy: 0.8, weak: 1.2, dead: 1.5 },
+  },
+  {
+    id: 'crab',
+    name: 'サワガニ',
+    description: '石のすき間から出てきて川底を歩くカニ。',
+    rarity: 'common',
+    seasons: ['spring', 'summer', 'autumn'],
+    timesOfDay: ['dusk', 'night'],
+    chance: 0.4,
+    conditionWeights: { healthy: 0.6, weak: 1.2, dead: 1.5 },
+  },
+  {
+    id: 'dragonfly',
+    name: 'トンボ',
+    description: '水面の上をすいすいと行き来する。',
+    rarity: 'common',
+    seasons: ['summer', 'autumn'],
+    timesOfDay: ['day', 'dusk'],
+    chance: 0.5,
+  },
+  {
+    id: 'heron',
+    name: 'アオサギ',
+    description: '遠くの浅瀬にじっと立って川を見ている。',
+    rarity: 'common',
+    seasons: ['spring', 'summer', 'autumn', 'winter'],
+    timesOfDay: ['dawn', 'day'],
+    chance: 0.15,
+    conditionWeights: { weak: 2 },
+  },
+  {
+    id: 'kingfisher',
+    name: 'カワセミ',
+    description: '青く光る小さな鳥。枝から一瞬で水に飛び込む。',
+    rarity: 'rare',
+    seasons: ['spring', 'summer', 'autumn', 'winter'],
+    timesOfDay: ['dawn', 'day'],
+    chance: 0.03,
+  },
+  {
+    id: 'firefly',
+    name: 'ホタル',
+    description: '初夏の夜、川辺にやわらかな光が灯る。',
+    rarity: 'rare',
+    seasons: ['summer'],
+    timesOfDay: ['night'],
+    chance: 0.05,
+    conditionWeights: { dead: 0.5 },
+  },
+];
+
+// 生きものの情報を取得
+export const getCreature = (id: CreatureId): Creature => {
+  const creature = CREATURES.find((candidate) => candidate.id === id);
+  if (!creature) {
+    throw new Error(`生きもの ${id} は見つかりません`);
+  }
+  return creature;
+};
+
+// 川の様子に応じた、生きものが現れる確率
+export const getVisitChance = (creature: Creature, context: EcosystemContext): number => {
+  if (!creature.seasons.includes(context.season) || !creature.timesOfDay.includes(context.timeOfDay)) {
+    return 0;
+  }
+  return Math.min(1, creature.chance * (creature.conditionWeights?.[context.condition] ?? 1));
+};
+
+// 今いる生きものを決める（それぞれが別々に現れる）
+export const pickVisitors = (context: EcosystemContext, random: () => number): CreatureId[] =>
+  CREATURES.filter((creature) => random() < getVisitChance(creature, context)).map((creature) => creature.id);
+
+// 生きものを決める乱数
+// 同じ子・同じ日・同じ時間帯では同じ顔ぶれになる（開き直してもめずらしい生きものは増えない）
+export const getVisitorRandom = (state: AppState, dateKey: string, timeOfDay: TimeOfDay): (() => number) =>
+  createSeededRandom(hashSeed(`visitors:${state.startDate}:${dateKey}:${timeOfDay}`));
+
+// 見かけた生きものを図鑑に記録する（同じ日に何度見かけても1日と数える。変化がなければ同じ図鑑を返す）
+export const recordSightings = (
+  collection: CreatureCollection,
+  visitors: CreatureId[],
+  dateKey: string
+): CreatureCollection => {
+  let updated = collection;
+  visitors.forEach((id) => {
+    const sighting = updated[id];
+    if (sighting && toDayNumber(sighting.lastSeen) >= toDayNumber(dateKey)) {
+      return;
+    }
+    updated = {
+      ...updated,
+      [id]: sighting
+        ? { ...sighting, lastSeen: dateKey, days: sighting.days + 1 }
+        : { firstSeen: dateKey, lastSeen: dateKey, days: 1 },
+    };
+  });
+  return updated;
+};
+
+// 図鑑の集まり具合
+export const getCollectionProgress = (
+  collection: CreatureCollection
+): { seen: number; total: number; rareSeen: number; rareTotal: number } => {
+  const rare = CREATURES.filter((creature) => creature.rarity === 'rare');
+  return {
+    seen: CREATURES.filter((creature) => collection[creature.id]).length,
+    total: CREATURES.length,
+    rareSeen: rare.filter((creature) => collection[creature.id]).length,
+    rareTotal: rare.length,
+  };
+};
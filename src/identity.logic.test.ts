@@ -0,0 +1,72 @@
+import {
+  MAX_NAME_LENGTH,
+  RESTING_SPOTS,
+  SPOT_PATTERNS,
+  TRAIT_TINTS,
+  generateTraits,
+  getBoldnessFactor,
+  getPersonality,
+  getTraitRandom,
+  normalizeName,
+} from './identity';
+import { createInitialState } from './logic';
+import { createSeededContext, createSeededRandom } from './simulation';
+
+describe('その子だけの個性のテスト', () => {
+  describe('個性を決める', () => {
+    test('模様・色味・人見知りの強さ・お気に入りの岩が決まる', () => {
+      [1, 2, 3, 4, 5].forEach((seed) => {
+        const traits = generateTraits(createSeededRandom(seed));
+        expect(SPOT_PATTERNS).toContain(traits.spotPattern);
+        expect(TRAIT_TINTS).toContain(traits.tint);
+        expect(RESTING_SPOTS).toContain(traits.restingSpot);
+        expect(traits.shyness).toBeGreaterThanOrEqual(0);
+        expect(traits.shyness).toBeLessThanOrEqual(1);
+      });
+    });
+
+    test('迎えた子は個性を持ち、同じシード・同じ時刻なら同じ個性になる', () => {
+      const first = createInitialState(createSeededContext(1, '2024-06-20T12:00:00Z'));
+      const again = createInitialState(createSeededContext(1, '2024-06-20T12:00:00Z'));
+      const other = createInitialState(createSeededContext(2, '2024-06-20T12:00:00Z'));
+
+      expect(first.traits).toBeDefined();
+      expect(first.traits).toEqual(again.traits);
+      expect(first.traits).not.toEqual(other.traits);
+    });
+
+    test('シード付きならその日の乱数列を使わない', () => {
+      const ctx = createSeededContext(1, '2024-06-20T12:00:00Z');
+      const untouched = createSeededContext(1, '2024-06-20T12:00:00Z');
+      getTraitRandom(ctx)();
+      expect(ctx.random()).toBe(untouched.random());
+    });
+  });
+
+  describe('性格', () => {
+    test('人見知りの強さで性格が決まり、どちらでもない子もいる', () => {
+      const traits = generateTraits(createSeededRandom(1));
+      expect(getPersonality({ ...traits, shyness: 0.9 })).toBe('shy');
+      expect(getPersonality({ ...traits, shyness: 0.1 })).toBe('bold');
+      expect(getPersonality({ ...traits, shyness: 0.5 })).toBeNull();
+    });
+
+    test('人見知りの子ほど倍率が小さく、個性がなければ変えない', () => {
+      const traits = generateTraits(createSeededRandom(1));
+      expect(getBoldnessFactor({ ...traits, shyness: 1 })).toBe(0.75);
+      expect(getBoldnessFactor({ ...traits, shyness: 0 })).toBe(1.25);
+      expect(getBoldnessFactor(undefined)).toBe(1);
+    });
+  });
+
+  describe('名前', () => {
+    test('前後の空白を除き、長すぎる名前は切り詰める', () => {
+      expect(normalizeName('  ハンザキ  ')).toBe('ハンザキ');
+      expect(normalizeName('あ'.repeat(MAX_NAME_LENGTH + 5))).toHaveLength(MAX_NAME_LENGTH);
+    });
+
+    test('空の名前は名前なしにする', () => {
+      expect(normalizeName('   ')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { RIVER_LAYOUT } from './movement';
+import { SimulationContext, createSeededRandom, hashSeed } from './simulation';
+
+// 体のまだら模様
+// plain: 模様が薄い / dotted: 丸い斑点 / mottled: 大きなまだら / speckled: 細かい点
+export type SpotPattern = 'plain' | 'dotted' | 'mottled' | 'speckled';
+
+// その子だけの個性（迎えた日に決まり、ずっと変わらない）
+// tint: 体の色味 / shyness: 人見知りの強さ（0〜1）/ restingSpot: お気に入りの岩
+export interface Traits {
+  spotPattern: SpotPattern;
+  tint: string;
+  shyness: number;
+  restingSpot: string;
+}
+
+// 性格（ログの言い回しに出る。どちらでもない子もいる）
+export type Personality = 'shy' | 'bold';
+
+export const SPOT_PATTERNS: SpotPattern[] = ['plain', 'dotted', 'mottled', 'speckled'];
+// 体の色味（茶・黒・黄土・苔色を薄く重ねる）
+export const TRAIT_TINTS = [
+  'rgba(120, 85, 50, 0.18)',
+  'rgba(40, 40, 40, 0.2)',
+  'rgba(170, 140, 70, 0.16)',
+  'rgba(90, 110, 60, 0.18)',
+];
+// 休む岩の候補
+export const RESTING_SPOTS = RIVER_LAYOUT.filter((item) => item.kind === 'rock').map((item) => item.id);
+// これ以上なら人見知り、これ以下なら物おじしない
+export const SHY_THRESHOLD = 0.65;
+export const BOLD_THRESHOLD = 0.35;
+// 名前の長さの上限
+export const MAX_NAME_LENGTH = 12;
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+// 個性を決める
+export const generateTraits = (random: () => number): Traits => ({
+  spotPattern: pick(SPOT_PATTERNS, random),
+  tint: pick(TRAIT_TINTS, random),
+  shyness: Math.round(random() * 100) / 100,
+  restingSpot: pick(RESTING_SPOTS, random),
+});
+
+// 個性を決める乱数
+// シード付きなら迎えた時刻から決め、その日のログや成長の乱数列は使わない
+export const getTraitRandom = (ctx: SimulationContext): (() => number) => {
+  if (ctx.seed === undefined) {
+    return ctx.random;
+  }
+  return createSeededRandom(hashSeed(`traits:${ctx.seed}:${ctx.now().getTime()}`));
+};
+
+// 性格（人見知りの強さで決まる）
+export const getPersonality = (traits: Traits): Personality | null => {
+  if (traits.shyness >= SHY_THRESHOLD) return 'shy';
+  if (traits.shyness <= BOLD_THRESHOLD) return 'bold';
+  return null;
+};
+
+// 人見知りの強さによる倍率（物おじしない子ほど大きい。0.75〜1.25）
+// タップへの反応しやすさと、うろうろする範囲にかける
+export const getBoldnessFactor = (traits: Traits | undefined): number =>
+  traits ? 1.25 - traits.shyness * 0.5 : 1;
+
+// 入力された名前を整える（空なら名前なし）
+export const normalizeName = (input: string): string | undefined => {
+  const name = Array.from(input.trim().replace(/\s+/g, ' ')).slice(0, MAX_NAME_LENGTH).join('');
+  return name.length > 0 ? name : undefined;
+};
@@ -0,0 +1,112 @@
+import {
+  Body,
+  MAX_REACTION_CHANCE,
+  MAX_RIPPLES,
+  POKE_WINDOW_MS,
+  RIPPLE_LIFETIME_MS,
+  RIPPLE_SPACING,
+  ReactionContext,
+  Ripple,
+  addRipple,
+  classifyTap,
+  countRecentPokes,
+  decideReaction,
+  getFacingAway,
+  getFacingToward,
+  getReactionChance,
+  isDrag,
+  pruneRipples,
+  rememberPoke,
+} from './interaction';
+
+const body: Body = { x: 200, y: 400, width: 100, height: 60 };
+const touch: ReactionContext = { condition: 'healthy', timeOfDay: 'night', zone: 'touch', recentPokes: 0 };
+
+describe('触れ合いのテスト', () => {
+  describe('タップした場所', () => {
+    test('姿の上・すぐそば・離れたところを見分ける', () => {
+      expect(classifyTap({ x: 230, y: 410 }, body)).toBe('touch');
+      expect(classifyTap({ x: 270, y: 400 }, body)).toBe('near');
+      expect(classifyTap({ x: 20, y: 100 }, body)).toBe('far');
+    });
+
+    test('指の方を向く・反対を向く', () => {
+      expect(getFacingToward({ x: 300, y: 400 }, body)).toBe(-1);
+      expect(getFacingToward({ x: 100, y: 400 }, body)).toBe(1);
+      expect(getFacingAway({ x: 300, y: 400 }, body)).toBe(1);
+    });
+  });
+
+  describe('反応のしやすさ', () => {
+    test('姿が消えたあとや離れたところでは反応しない', () => {
+      expect(getReactionChance({ ...touch, condition: 'dead' })).toBe(0);
+      expect(getReactionChance({ ...touch, zone: 'far' })).toBe(0);
+    });
+
+    test('夜ほど、元気なほど、姿に近いほど反応しやすい', () => {
+      expect(getReactionChance(touch)).toBeGreaterThan(getReactionChance({ ...touch, timeOfDay: 'day' }));
+      expect(getReactionChance(touch)).toBeGreaterThan(getReactionChance({ ...touch, condition: 'weak' }));
+      expect(getReactionChance(touch)).toBeGreaterThan(getReactionChance({ ...touch, zone: 'near' }));
+    });
+
+    test('人見知りの子ほど反応しにくい', () => {
+      expect(getReactionChance({ ...touch, boldness: 0.75 })).toBeLessThan(getReactionChance(touch));
+      expect(getReactionChance({ ...touch, boldness: 1.25 })).toBeGreaterThan(getReactionChance(touch));
+    });
+
+    test('続けてつつくほど反応しにくくなる', () => {
+      const chances = [0, 1, 2, 3].map((recentPokes) => getReactionChance({ ...touch, recentPokes }));
+      chances.slice(1).forEach((chance, i) => expect(chance).toBeLessThan(chances[i]));
+      chances.forEach((chance) => expect(chance).toBeLessThanOrEqual(MAX_REACTION_CHANCE));
+    });
+
+    test('最近の回数は期間内のものだけ数える', () => {
+      let pokes: number[] = [];
+      pokes = rememberPoke(pokes, 0);
+      pokes = rememberPoke(pokes, 1000);
+      expect(countRecentPokes(pokes, 2000)).toBe(2);
+      expect(countRecentPokes(pokes, POKE_WINDOW_MS + 500)).toBe(1);
+      expect(rememberPoke(pokes, POKE_WINDOW_MS * 2)).toEqual([POKE_WINDOW_MS * 2]);
+    });
+  });
+
+  describe('反応', () => {
+    test('確率に届かなければ反応しない', () => {
+      expect(decideReaction(touch, () => 0.99)).toBe('none');
+    });
+
+    test('姿に触れるとふくらみ、そばをつつくとこちらを向く', () => {
+      expect(decideReaction(touch, () => 0)).toBe('pulse');
+      expect(decideReaction({ ...touch, zone: 'near' }, () => 0)).toBe('turn');
+    });
+
+    test('つつかれ続けると驚く', () => {
+      expect(decideReaction({ ...touch, recentPokes: 3 }, () => 0)).toBe('startle');
+    });
+  });
+
+  describe('波紋', () => {
+    test('少し動いただけではなぞったことにならない', () => {
+      expect(isDrag({ x: 0, y: 0 }, { x: 5, y: 5 })).toBe(false);
+      expect(isDrag({ x: 0, y: 0 }, { x: 20, y: 0 })).toBe(true);
+    });
+
+    test('前の波紋から離れたところにだけ加える', () => {
+      let ripples = addRipple([], { x: 0, y: 0 }, 0, 1);
+      ripples = addRipple(ripples, { x: RIPPLE_SPACING / 2, y: 0 }, 10, 2);
+      ripples = addRipple(ripples, { x: RIPPLE_SPACING, y: 0 }, 20, 3);
+      expect(ripples.map((ripple) => ripple.id)).toEqual([1, 3]);
+    });
+
+    test('数を抑え、時間がたったものは消える', () => {
+      let ripples: Ripple[] = [];
+      for (let i = 0; i < MAX_RIPPLES + 5; i++) {
+        ripples = addRipple(ripples, { x: i * RIPPLE_SPACING, y: 0 }, i, i);
+      }
+      expect(ripples).toHaveLength(MAX_RIPPLES);
+      expect(ripples[0].id).toBe(5);
+      const remaining = pruneRipples(ripples, RIPPLE_LIFETIME_MS + 10);
+      expect(remaining.map((ripple) => ripple.id)).toEqual([11, 12, 13, 14, 15, 16]);
+    });
+  });
+});
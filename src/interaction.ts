@@ -0,0 +1,137 @@
+import type { Condition } from './logic';
+import { TimeOfDay } from './timeOfDay';
+
+// 画面上の位置
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// オオサンショウウオの姿の範囲（中心と大きさ）
+export interface Body {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// タップした場所（姿に触れた / すぐそば / 離れたところ）
+export type TapZone = 'touch' | 'near' | 'far';
+
+// タップへの反応
+// pulse: 小さくふくらむ / turn: こちらを向く / startle: 驚いて身を縮め、向こうを向く
+export type Reaction = 'none' | 'pulse' | 'turn' | 'startle';
+
+// 反応のしやすさを決める状況
+export interface ReactionContext {
+  condition: Condition;
+  timeOfDay: TimeOfDay;
+  zone: TapZone;
+  // 最近つついた回数（今回を含まない）
+  recentPokes: number;
+  // その子の物おじしなさ（人見知りの子ほど小さい。なければ 1）
+  boldness?: number;
+}
+
+// 水面の波紋
+export interface Ripple {
+  id: number;
+  x: number;
+  y: number;
+  createdAt: number;
+}
+
+// 長押しとみなすまでの時間
+export const LONG_PRESS_MS = 500;
+// これ以上指が動いたらなぞったとみなす
+export const DRAG_THRESHOLD = 10;
+// 「すぐそば」とみなす距離（姿の大きさに対する倍率）
+export const NEAR_DISTANCE = 1.5;
+// 最近つついた回数を数える期間
+export const POKE_WINDOW_MS = 60 * 1000;
+// 1回つつくごとに反応しにくくなる割合
+export const POKE_FATIGUE = 0.6;
+// 続けてこの回数つつかれていると驚く
+export const STARTLE_POKES = 3;
+// 反応する確率の上限
+export const MAX_REACTION_CHANCE = 0.9;
+// 波紋の間隔・消えるまでの時間・同時に出す数
+export const RIPPLE_SPACING = 40;
+export const RIPPLE_LIFETIME_MS = 1200;
+export const MAX_RIPPLES = 12;
+
+const BASE_CHANCES: Record<Condition, number> = { healthy: 0.3, weak: 0.05, dead: 0 };
+// 夜行性なので夜ほど反応しやすく、昼は岩の下でほとんど反応しない
+const TIME_OF_DAY_FACTORS: Record<TimeOfDay, number> = { dawn: 1.2, day: 0.5, dusk: 1.2, night: 1.5 };
+const ZONE_FACTORS: Record<TapZone, number> = { touch: 1, near: 0.6, far: 0 };
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// タップした場所が姿からどのくらい離れているか
+export const classifyTap = (tap: Point, body: Body): TapZone => {
+  const dx = Math.abs(tap.x - body.x);
+  const dy = Math.abs(tap.y - body.y);
+  if (dx <= body.width / 2 && dy <= body.height / 2) {
+    return 'touch';
+  }
+  const reach = (Math.max(body.width, body.height) / 2) * NEAR_DISTANCE;
+  return distance(tap, body) <= reach ? 'near' : 'far';
+};
+
+// つついた時刻を記録する（期間を過ぎたものは捨てる）
+export const rememberPoke = (pokes: number[], now: number): number[] => {
+  return [...pokes.filter((time) => now - time < POKE_WINDOW_MS), now];
+};
+
+// 最近つついた回数
+export const countRecentPokes = (pokes: number[], now: number): number => {
+  return pokes.filter((time) => now - time < POKE_WINDOW_MS).length;
+};
+
+// 反応する確率（状態・時間帯・場所・最近つついた回数・その子の性格で決まる）
+export const getReactionChance = (context: ReactionContext): number => {
+  const chance =
+    BASE_CHANCES[context.condition] *
+    TIME_OF_DAY_FACTORS[context.timeOfDay] *
+    ZONE_FACTORS[context.zone] *
+    Math.pow(POKE_FATIGUE, context.recentPokes) *
+    (context.boldness ?? 1);
+  return Math.min(MAX_REACTION_CHANCE, chance);
+};
+
+// タップへの反応を決める
+export const decideReaction = (context: ReactionContext, random: () => number): Reaction => {
+  if (random() >= getReactionChance(context)) {
+    return 'none';
+  }
+  if (context.recentPokes >= STARTLE_POKES) {
+    return 'startle';
+  }
+  return context.zone === 'touch' ? 'pulse' : 'turn';
+};
+
+// 向き（1: 画像のまま左向き / -1: 右向き）
+export type Facing = 1 | -1;
+
+// 指の方を向くときの向き
+export const getFacingToward = (target: Point, body: Body): Facing => (target.x > body.x ? -1 : 1);
+
+// 指の反対を向くときの向き
+export const getFacingAway = (target: Point, body: Body): Facing => (target.x > body.x ? 1 : -1);
+
+// 指が押した位置から動いて、なぞる操作になったか
+export const isDrag = (start: Point, current: Point): boolean => distance(start, current) > DRAG_THRESHOLD;
+
+// なぞった位置に波紋を加える（前の波紋から離れたときだけ、古いものから消える）
+export const addRipple = (ripples: Ripple[], point: Point, now: number, id: number): Ripple[] => {
+  const last = ripples[ripples.length - 1];
+  if (last && distance(last, point) < RIPPLE_SPACING) {
+    return ripples;
+  }
+  return [...ripples, { id, x: point.x, y: point.y, createdAt: now }].slice(-MAX_RIPPLES);
+};
+
+// 消えた波紋を取り除く
+export const pruneRipples = (ripples: Ripple[], now: number): Ripple[] => {
+  return ripples.filter((ripple) => now - ripple.createdAt < RIPPLE_LIFETIME_MS);
+};
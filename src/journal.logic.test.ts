@@ -0,0 +1,123 @@
+import { addDays } from './calendar';
+import {
+  JournalEntry,
+  compactJournal,
+  createJournalEntry,
+  getJournalEntriesInRange,
+  recordVisit,
+  upsertJournalEntry,
+} from './journal';
+import { AppState, processVisitWithHistory } from './logic';
+import { createSeededContext } from './simulation';
+
+const entry = (date: string, visited: boolean = true): JournalEntry => ({
+  date,
+  condition: 'healthy',
+  sizeFactor: 1.0,
+  log: `${date} のログ`,
+  visited,
+});
+
+// 連続した日付の日記を作成
+const makeJournal = (from: string, days: number): JournalEntry[] => {
+  return Array.from({ length: days }, (_, i) => entry(addDays(from, i)));
+};
+
+describe('日記のテスト', () => {
+  const state: AppState = {
+    startDate: '2024-01-01',
+    lastVisitDate: '2024-01-10',
+    lastGrowthDate: '2024-01-10',
+    sizeFactor: 1.0,
+    condition: 'healthy',
+    latestLog: '岩の陰で休んでいます。',
+  };
+
+  describe('createJournalEntry', () => {
+    test('状態から1日分を作成する', () => {
+      expect(createJournalEntry(state, '2024-01-10', true)).toEqual({
+        date: '2024-01-10',
+        condition: 'healthy',
+        sizeFactor: 1.0,
+        log: '岩の陰で休んでいます。',
+        visited: true,
+      });
+    });
+  });
+
+  describe('upsertJournalEntry', () => {
+    test('日付順に並べて追加する', () => {
+      const journal = [entry('2024-01-01'), entry('2024-01-03')];
+      const result = upsertJournalEntry(journal, entry('2024-01-02'));
+
+      expect(result.map((e) => e.date)).toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+    });
+
+    test('同じ日付は置き換える', () => {
+      const journal = [entry('2024-01-01', false)];
+      const result = upsertJournalEntry(journal, entry('2024-01-01', true));
+
+      expect(result).toEqual([entry('2024-01-01', true)]);
+    });
+  });
+
+  describe('recordVisit', () => {
+    test('訪れなかった日と今日を記録する', () => {
+      const ctx = createSeededContext(5, '2024-01-13T12:00:00Z');
+      const { state: visited, missedDays } = processVisitWithHistory(state, ctx);
+      const result = recordVisit([entry('2024-01-10')], missedDays, visited);
+
+      expect(result.map((e) => [e.date, e.visited])).toEqual([
+        ['2024-01-10', true],
+        ['2024-01-11', false],
+        ['2024-01-12', false],
+        ['2024-01-13', true],
+      ]);
+      expect(result[3].condition).toBe('weak');
+      expect(result[3].log).toBe(visited.latestLog);
+      expect(result[2].sizeFactor).toBe(visited.sizeFactor);
+    });
+  });
+
+  describe('compactJournal', () => {
+    test('直近の日記はすべて残す', () => {
+      const journal = makeJournal('2024-01-01', 90);
+      expect(compactJournal(journal)).toEqual(journal);
+    });
+
+    test('古い日記は1週間に1日だけ残す', () => {
+      // 2024-01-04 から始まる週で区切られる
+      const journal = makeJournal('2024-01-04', 90 + 70);
+      const result = compactJournal(journal);
+
+      // 古い70日（10週間）は10件に間引かれる
+      expect(result).toHaveLength(90 + 10);
+      expect(result.slice(-90)).toEqual(journal.slice(-90));
+    });
+
+    test('最大件数を超えたら古いものから消える', () => {
+      const journal = makeJournal('2024-01-01', 30);
+      const result = compactJournal(journal, 90, 10);
+
+      expect(result).toEqual(journal.slice(-10));
+    });
+
+    test('空の日記はそのまま', () => {
+      expect(compactJournal([])).toEqual([]);
+    });
+  });
+
+  describe('getJournalEntriesInRange', () => {
+    test('期間内の日記を両端を含めて返す', () => {
+      const journal = makeJournal('2024-01-01', 10);
+      const result = getJournalEntriesInRange(journal, '2024-01-03', '2024-01-05');
+
+      expect(result.map((e) => e.date)).toEqual(['2024-01-03', '2024-01-04', '2024-01-05']);
+    });
+
+    test('期間外なら空', () => {
+      const journal = makeJournal('2024-01-01', 3);
+      expect(getJournalEntriesInRange(journal, '2024-02-01', '2024-02-10')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { toDayNumber } from './calendar';
+import { AppState, Condition } from './logic';
+
+// 日記の1日分
+export interface JournalEntry {
+  date: string;
+  condition: Condition;
+  sizeFactor: number;
+  log: string;
+  // その日にユーザーが川を訪れたか
+  visited: boolean;
+}
+
+// 直近この日数分の日記はすべて残す
+export const JOURNAL_RECENT_DAYS = 90;
+// 日記の最大件数（これを超えた分は古いものから消える）
+export const JOURNAL_MAX_ENTRIES = 500;
+
+// 状態から日記の1日分を作成
+export const createJournalEntry = (state: AppState, date: string, visited: boolean): JournalEntry => ({
+  date,
+  condition: state.condition,
+  sizeFactor: state.sizeFactor,
+  log: state.latestLog,
+  visited,
+});
+
+// 日記に1日分を追加（同じ日付があれば置き換え、日付順に並べる）
+export const upsertJournalEntry = (journal: JournalEntry[], entry: JournalEntry): JournalEntry[] => {
+  const others = journal.filter((existing) => existing.date !== entry.date);
+  return [...others, entry].sort((a, b) => toDayNumber(a.date) - toDayNumber(b.date));
+};
+
+// 古い日記を間引く
+// 最新の日から JOURNAL_RECENT_DAYS 日より前は、1週間ごとに最初の1日だけ残す
+export const compactJournal = (
+  journal: JournalEntry[],
+  recentDays: number = JOURNAL_RECENT_DAYS,
+  maxEntries: number = JOURNAL_MAX_ENTRIES
+): JournalEntry[] => {
+  if (journal.length === 0) {
+    return journal;
+  }
+
+  const latestDay = toDayNumber(journal[journal.length - 1].date);
+  const keptWeeks = new Set<number>();
+  const compacted = journal.filter((entry) => {
+    const day = toDayNumber(entry.date);
+    if (latestDay - day < recentDays) {
+      return true;
+    }
+    const week = Math.floor(day / 7);
+    if (keptWeeks.has(week)) {
+      return false;
+    }
+    keptWeeks.add(week);
+    return true;
+  });
+
+  return compacted.slice(Math.max(0, compacted.length - maxEntries));
+};
+
+// 訪問の結果を日記に記録する
+// missedDays は訪れなかった日、visitedState は今日訪れたときの状態
+export const recordVisit = (
+  journal: JournalEntry[],
+  missedDays: AppState[],
+  visitedState: AppState
+): JournalEntry[] => {
+  // 最後に訪れた日より後の日記は残さない（進めた時計が元に戻され、その訪問が取り消された場合）
+  let updated = journal.filter((entry) => toDayNumber(entry.date) <= toDayNumber(visitedState.lastVisitDate));
+  missedDays.forEach((day) => {
+    updated = upsertJournalEntry(updated, createJournalEntry(day, day.lastGrowthDate, false));
+  });
+  updated = upsertJournalEntry(updated, createJournalEntry(visitedState, visitedState.lastVisitDate, true));
+  return compactJournal(updated);
+};
+
+// 期間内（両端を含む）の日記を取得
+export const getJournalEntriesInRange = (
+  journal: JournalEntry[],
+  from: string,
+  to: string
+): JournalEntry[] => {
+  const fromDay = toDayNumber(from);
+  const toDay = toDayNumber(to);
+  return journal.filter((entry) => {
+    const day = toDayNumber(entry.date);
+    return day >= fromDay && day <= toDay;
+  });
+};
@@ -0,0 +1,22 @@
+// 表示言語
+export type Locale = 'ja' | 'en';
+
+export const SUPPORTED_LOCALES: Locale[] = ['ja', 'en'];
+
+// 言語が指定されていないときの既定値
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+// 言語タグ（ja-JP, en-US など）から対応する言語を選ぶ
+export const resolveLocale = (languageTag: string): Locale => {
+  const language = languageTag.toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find((locale) => locale === language) ?? 'en';
+};
+
+// 端末の言語設定から表示言語を選ぶ
+export const getDeviceLocale = (): Locale => {
+  try {
+    return resolveLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+  } catch (error) {
+    return DEFAULT_LOCALE;
+  }
+};
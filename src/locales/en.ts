@@ -0,0 +1,71 @@
+// 英語の文言
+const en: Record<string, string> = {
+  'system.initial': 'Resting quietly at the bottom of the river.',
+  'system.welcome': 'A new little one has come to the river.',
+
+  'reminder.title': 'Salamander River',
+  'reminder.nextDay': 'The river is flowing quietly today.',
+  'reminder.fewDays': 'Whenever you like, come take a peek at the river.',
+  'reminder.longer': 'It is spending slow days at the bottom of the river.',
+
+  'farewell.summary': 'From {startDate}, it spent {days} quiet days in this river.',
+  'farewell.namedSummary': 'From {startDate}, {name} spent {days} quiet days in this river.',
+
+  'dead.river': 'Only the quiet flow of the river remains.',
+  'firstDay.newHome': 'It has found a new home.',
+
+  'weak.quiet': 'Spending another quiet day.',
+  'weak.timePasses': 'Time is passing slowly.',
+  'weak.riverSound': 'You can hear the sound of the river.',
+
+  'healthy.quiet': 'Spending another quiet day.',
+  'healthy.growing': 'Growing, little by little.',
+  'healthy.drifting': 'Letting the current carry it along.',
+  'healthy.underRock': 'Resting in the shade of a rock.',
+  'healthy.amongWeeds': 'Swimming among the waterweeds.',
+
+  'larva.gills': 'Its tiny gills are swaying.',
+  'larva.gravel': 'Hiding between the pebbles.',
+  'juvenile.insects': 'Chasing a small insect.',
+  'juvenile.farther': 'It swam a little farther than before.',
+  'subadult.ownRock': 'It seems to have claimed a rock as its own.',
+  'subadult.sturdy': 'Its body is getting sturdier.',
+  'adult.leisurely': 'Taking its time with its big body.',
+  'adult.master': 'As calm as the master of the river.',
+  'elder.years': 'It has spent many long years with the river.',
+  'elder.still': 'Barely moving, just feeling the current.',
+
+  'spring.warmWater': 'The water is getting a little warmer.',
+  'summer.shade': 'Keeping still in the cool water under the trees.',
+  'autumn.leaves': 'Fallen leaves drift slowly over the surface.',
+  'winter.waiting': 'Waiting quietly for spring in the cold water.',
+
+  'dawn.mist': 'The river glimmers quietly in the morning mist.',
+  'dawn.returning': 'Done with its night walk, it heads back under its rock.',
+  'day.resting': 'Staying still under a rock while it is light.',
+  'day.eyesOnly': 'While it is light out, it hides under a rock with only its eyes peeking out.',
+  'dusk.light': 'The evening light flickers on the water.',
+  'dusk.waking': 'As the sun sets, it quietly pokes its head out from under the rock.',
+  'night.moving': 'Night has come, and it is slowly starting to move.',
+  'night.ambush': 'On the dark riverbed, it lies in wait for small fish drifting by.',
+  'night.stars': 'Starlight is flickering on the surface.',
+
+  'spawningMigration.upstream': 'It senses others making their way upstream.',
+  'highWater.waiting': 'The rain has raised the water; it waits it out behind a rock.',
+  'midsummer.cicadas': 'Cicadas are singing along the riverbank.',
+  'autumnLeaves.redLeaf': 'A red leaf fluttered down right in front of it.',
+  'winterDormancy.sleep': 'Barely moving, it is settled in for the winter.',
+
+  'rain.ripples': 'Raindrops are spreading rings across the surface.',
+  'heavyRain.hiding': 'Heavy rain. It waits in a gap between the rocks for the current to calm.',
+  'muddy.feeling': 'The river is cloudy; it feels its way along the bottom with its snout.',
+  'cold.slow': 'The water is cold, and it moves slowly.',
+  'hot.deepWater': 'A hot day. It has settled into the cool water of a deep pool.',
+
+  'shy.peeking': 'It peeks out from behind a rock, watching you carefully.',
+  'shy.footsteps': 'Hearing footsteps on the bank, it slipped quietly under a stone.',
+  'bold.surface': 'It has come up near the surface and calmly watches the current.',
+  'bold.farPool': 'Today it wandered off to a pool farther away than usual.',
+};
+
+export default en;
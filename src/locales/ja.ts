@@ -0,0 +1,71 @@
+// 日本語の文言
+const ja: Record<string, string> = {
+  'system.initial': '川の底で静かに過ごしています。',
+  'system.welcome': '新しい子が川にやってきました。',
+
+  'reminder.title': 'オオサンショウウオの川',
+  'reminder.nextDay': '川は今日も静かに流れています。',
+  'reminder.fewDays': '気が向いたら、川をのぞいてみませんか。',
+  'reminder.longer': '川の底で、のんびり過ごしています。',
+
+  'farewell.summary': '{startDate} から {days} 日間、この川で静かに過ごしました。',
+  'farewell.namedSummary': '{name}は、{startDate} から {days} 日間、この川で静かに過ごしました。',
+
+  'dead.river': '静かな川の流れだけが残っています。',
+  'firstDay.newHome': '新しい住処を見つけました。',
+
+  'weak.quiet': '今日も静かに過ごしています。',
+  'weak.timePasses': 'ゆっくりと時間が流れています。',
+  'weak.riverSound': '川の音が聞こえます。',
+
+  'healthy.quiet': '今日も静かに過ごしています。',
+  'healthy.growing': 'ゆっくりと成長しています。',
+  'healthy.drifting': '川の流れに身を任せています。',
+  'healthy.underRock': '岩の陰で休んでいます。',
+  'healthy.amongWeeds': '水草の間を泳いでいます。',
+
+  'larva.gills': '小さなえらをゆらしています。',
+  'larva.gravel': '砂利のすき間に隠れています。',
+  'juvenile.insects': '小さな虫を追いかけています。',
+  'juvenile.farther': '少しだけ遠くまで泳いでみました。',
+  'subadult.ownRock': '岩の下を自分の場所に決めたようです。',
+  'subadult.sturdy': '体つきがしっかりしてきました。',
+  'adult.leisurely': '大きな体で悠々と過ごしています。',
+  'adult.master': '川の主のように落ち着いています。',
+  'elder.years': '長い年月を川と共に過ごしています。',
+  'elder.still': 'ほとんど動かず、流れを感じています。',
+
+  'spring.warmWater': '水が少しぬるんできました。',
+  'summer.shade': '木陰の冷たい水の中でじっとしています。',
+  'autumn.leaves': '落ち葉が川面をゆっくり流れていきます。',
+  'winter.waiting': '冷たい水の中で、じっと春を待っています。',
+
+  'dawn.mist': '朝もやの中、川が静かに光っています。',
+  'dawn.returning': '夜の散歩を終えて、岩の下へ戻っていきます。',
+  'day.resting': '明るいうちは岩の下でじっとしています。',
+  'day.eyesOnly': '明るいうちは岩の下にもぐって、目だけをのぞかせています。',
+  'dusk.light': '夕暮れの光が水面に揺れています。',
+  'dusk.waking': '日が傾き、岩の下からそっと顔を出しました。',
+  'night.moving': '夜になって、ゆっくりと動き出しました。',
+  'night.ambush': '暗い川底で、流れてくる小魚をじっと待ち伏せしています。',
+  'night.stars': '水面に星の光がゆれています。',
+
+  'spawningMigration.upstream': '川をさかのぼる仲間の気配がします。',
+  'highWater.waiting': '雨で水かさが増え、岩陰でじっとしています。',
+  'midsummer.cicadas': 'セミの声が川辺に響いています。',
+  'autumnLeaves.redLeaf': '赤い葉がひらりと目の前に落ちてきました。',
+  'winterDormancy.sleep': 'ほとんど動かず、冬の眠りについています。',
+
+  'rain.ripples': '水面に雨の輪がいくつも広がっています。',
+  'heavyRain.hiding': '強い雨。岩のすき間で、流れが落ち着くのを待っています。',
+  'muddy.feeling': '川が濁っています。鼻先でそっと川底を確かめています。',
+  'cold.slow': '水が冷たく、動きがゆっくりです。',
+  'hot.deepWater': '暑い日です。深いところの冷たい水に身を沈めています。',
+
+  'shy.peeking': '岩陰から少しだけ顔を出して、こちらの様子をうかがっています。',
+  'shy.footsteps': '川辺の足音に気づいて、そっと石の下へもぐりました。',
+  'bold.surface': '水面の近くまで上がってきて、堂々と流れを眺めています。',
+  'bold.farPool': '今日はいつもより遠くの淵まで出かけていきました。',
+};
+
+export default ja;
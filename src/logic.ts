@@ -1,113 +1,416 @@
+import { addDays, fromDayNumber, toDateKey, toDayNumber } from './calendar';
+import { ClockRecord, ClockStatus, assessClock, canRestoreCheckpoint, recordClock } from './clock';
+import { Traits, generateTraits, getPersonality, getTraitRandom } from './identity';
+import { DEFAULT_LOCALE, Locale } from './locale';
+import { MessageRule, formatMessage, getCandidateMessages, getMessageText, rememberMessage, selectMessage } from './messages';
+import { getRiverEvent, getSeason } from './season';
+import { SimulationContext, getDayRandom, systemContext } from './simulation';
+import { getTimeOfDay } from './timeOfDay';
+import { getWeatherTags } from './weather';
+
+export type { SimulationContext };
+
 // 状態の型定義
 export type Condition = 'healthy' | 'weak' | 'dead';
 
 export interface AppState {
+  // 名前（なければ迎えた順で呼ぶ）
+  name?: string;
+  // その子だけの個性（古い保存データには存在しない）
+  traits?: Traits;
   startDate: string;
   lastVisitDate: string;
   lastGrowthDate: string;
   sizeFactor: number;
   condition: Condition;
   latestLog: string;
+  // latestLog の文言の ID（表示する言葉を変えても同じログを出せる。古い保存データには存在しない）
+  latestLogId?: string;
+  // 日次ログを選んだ日（同じ日に何度開いても選び直さない。古い保存データには存在しない）
+  latestLogDate?: string;
+  // 日付を計算したタイムゾーン（古い保存データには存在しない）
+  timeZone?: string;
+  // 姿が消えた日（dead になった日）
+  endDate?: string;
+  // これまでこの川で過ごしたオオサンショウウオの記録
+  farewells?: Farewell[];
+  // 最近表示した日次ログの ID（同じログを続けて出さないため）
+  recentLogIds?: string[];
+  // 端末の時計の記録（時計の巻き戻しや大きな進みに気づくため）
+  clock?: ClockRecord;
+}
+
+// 姿が消えたオオサンショウウオのお別れの記録
+export interface Farewell {
+  // 名前をつけていた子だけ
+  name?: string;
+  startDate: string;
+  endDate: string;
+  finalSizeFactor: number;
+  daysLived: number;
+}
+
+// 放置日数のしきい値
+export const WEAK_THRESHOLD_DAYS = 3;
+export const DEAD_THRESHOLD_DAYS = 7;
+
+// 元気がなくなる・姿が消えるまでの日数
+export interface ConditionThresholds {
+  weakDays: number;
+  deadDays: number;
 }
 
+export const DEFAULT_THRESHOLDS: ConditionThresholds = {
+  weakDays: WEAK_THRESHOLD_DAYS,
+  deadDays: DEAD_THRESHOLD_DAYS,
+};
+
+// コンテキストのしきい値（指定がなければ既定の日数）
+export const getThresholds = (ctx: SimulationContext = systemContext): ConditionThresholds =>
+  ctx.thresholds ?? DEFAULT_THRESHOLDS;
+
+// コンテキストの時計とタイムゾーンから今日の日付（YYYY-MM-DD）を取得
+export const getToday = (ctx: SimulationContext = systemContext): string => {
+  return toDateKey(ctx.now(), ctx.timeZone);
+};
+
 // 初期状態を生成
-export const createInitialState = (): AppState => {
-  const today = new Date().toISOString().split('T')[0];
+// farewells には以前の子たちの記録を引き継ぐ
+export const createInitialState = (
+  ctx: SimulationContext = systemContext,
+  farewells: Farewell[] = []
+): AppState => {
+  const today = getToday(ctx);
   return {
     startDate: today,
     lastVisitDate: today,
     lastGrowthDate: today,
     sizeFactor: 1.0,
     condition: 'healthy',
-    latestLog: '川の底で静かに過ごしています。',
+    latestLog: getMessageText('system.initial', ctx.locale ?? DEFAULT_LOCALE),
+    latestLogId: 'system.initial',
+    timeZone: ctx.timeZone,
+    traits: generateTraits(getTraitRandom(ctx)),
+    farewells,
   };
 };
 
-// 日付の差分を計算（日数）
+// 日付の差分を計算（暦日の日数）
+// 時刻を持たない暦日どうしで比較するため、夏時間やタイムゾーン変更の影響を受けない
 export const getDaysDiff = (date1: string, date2: string): number => {
-  const d1 = new Date(date1);
-  const d2 = new Date(date2);
-  const diffTime = Math.abs(d2.getTime() - d1.getTime());
-  return Math.floor(diffTime / (1000 * 60 * 60 * 24));
+  return Math.abs(toDayNumber(date2) - toDayNumber(date1));
+};
+
+// 2つの日付のうち遅いほう（タイムゾーンの移動などで暦日が戻っても日付を巻き戻さないため）
+const laterDate = (date1: string, date2: string): string => {
+  return toDayNumber(date1) >= toDayNumber(date2) ? date1 : date2;
+};
+
+// 1日あたりの成長率の範囲（0.1% 〜 0.3%）
+export const MIN_DAILY_GROWTH = 0.001;
+export const MAX_DAILY_GROWTH = 0.003;
+
+// 大きさの上限（成長は上限に近づくほどゆるやかになる）
+export const MAX_SIZE_FACTOR = 3.0;
+
+// 大きさに応じて成長をゆるめる係数（初期サイズ 1.0 で 1、上限で 0）
+export const getGrowthDamping = (sizeFactor: number): number => {
+  return Math.max(0, (MAX_SIZE_FACTOR - sizeFactor) / (MAX_SIZE_FACTOR - 1.0));
+};
+
+// 1日分の成長率（初期サイズで 0.1% 〜 0.3%、上限に向かって漸近的に小さくなる）
+export const getDailyGrowthRate = (random: () => number, sizeFactor: number = 1.0): number => {
+  const baseRate = random() * (MAX_DAILY_GROWTH - MIN_DAILY_GROWTH) + MIN_DAILY_GROWTH;
+  return 1.0 + baseRate * getGrowthDamping(sizeFactor);
+};
+
+// 成長段階
+export type LifeStage = 'larva' | 'juvenile' | 'subadult' | 'adult' | 'elder';
+
+// 各段階に進むための年齢（日数）と大きさの条件
+// 弱っていた期間が長いと、年齢を満たしても大きさが足りず次の段階に進まない
+export const LIFE_STAGE_THRESHOLDS: { stage: LifeStage; minAgeDays: number; minSizeFactor: number }[] = [
+  { stage: 'elder', minAgeDays: 3650, minSizeFactor: 2.8 },
+  { stage: 'adult', minAgeDays: 730, minSizeFactor: 2.3 },
+  { stage: 'subadult', minAgeDays: 365, minSizeFactor: 1.6 },
+  { stage: 'juvenile', minAgeDays: 90, minSizeFactor: 1.15 },
+];
+
+// 段階ごとの動き方
+// moveSpeed: 移動の速さの倍率 / wanderRange: 画面幅に対する移動範囲 / restChance: 長く休む確率
+export interface StageBehavior {
+  moveSpeed: number;
+  wanderRange: number;
+  restChance: number;
+}
+
+export const STAGE_BEHAVIORS: Record<LifeStage, StageBehavior> = {
+  larva: { moveSpeed: 1.4, wanderRange: 0.2, restChance: 0.1 },
+  juvenile: { moveSpeed: 1.2, wanderRange: 0.3, restChance: 0.15 },
+  subadult: { moveSpeed: 1.0, wanderRange: 0.3, restChance: 0.2 },
+  adult: { moveSpeed: 0.8, wanderRange: 0.25, restChance: 0.3 },
+  elder: { moveSpeed: 0.6, wanderRange: 0.2, restChance: 0.4 },
+};
+
+// 年齢（その日までの日数）と大きさから成長段階を判定
+export const getLifeStage = (state: AppState, date: string): LifeStage => {
+  const ageDays = getDaysDiff(state.startDate, date);
+  const reached = LIFE_STAGE_THRESHOLDS.find(
+    (threshold) => ageDays >= threshold.minAgeDays && state.sizeFactor >= threshold.minSizeFactor
+  );
+  return reached ? reached.stage : 'larva';
+};
+
+// 最後の訪問からの日数に応じた状態
+export const getConditionForGap = (
+  daysSinceVisit: number,
+  thresholds: ConditionThresholds = DEFAULT_THRESHOLDS
+): Condition => {
+  if (daysSinceVisit >= thresholds.deadDays) {
+    return 'dead';
+  }
+  if (daysSinceVisit >= thresholds.weakDays) {
+    return 'weak';
+  }
+  return 'healthy';
 };
 
 // 成長判定と更新
-export const processGrowth = (state: AppState): AppState => {
-  const today = new Date().toISOString().split('T')[0];
+export const processGrowth = (state: AppState, ctx: SimulationContext = systemContext): AppState => {
+  const today = getToday(ctx);
   
-  // 今日すでに成長処理済みなら何もしない
-  if (state.lastGrowthDate === today) {
+  // 今日すでに成長処理済み（または暦日が戻っている）なら何もしない
+  if (toDayNumber(today) <= toDayNumber(state.lastGrowthDate)) {
     return state;
   }
 
   // healthy のときのみ成長
   if (state.condition === 'healthy') {
-    // 0.1% 〜 0.3% のランダムな成長
-    const growthRate = 1.0 + (Math.random() * 0.002 + 0.001);
+    const growthRate = getDailyGrowthRate(ctx.random, state.sizeFactor);
     return {
       ...state,
       sizeFactor: state.sizeFactor * growthRate,
       lastGrowthDate: today,
+      timeZone: ctx.timeZone,
     };
   }
 
   return {
     ...state,
     lastGrowthDate: today,
+    timeZone: ctx.timeZone,
   };
 };
 
 // 放置状態の判定と更新
-export const processCondition = (state: AppState): AppState => {
-  const today = new Date().toISOString().split('T')[0];
-  const daysSinceVisit = getDaysDiff(state.lastVisitDate, today);
-
-  let newCondition: Condition = state.condition;
-
-  if (daysSinceVisit >= 7) {
-    newCondition = 'dead';
-  } else if (daysSinceVisit >= 3) {
-    newCondition = 'weak';
-  } else {
-    newCondition = 'healthy';
+export const processCondition = (state: AppState, ctx: SimulationContext = systemContext): AppState => {
+  const today = getToday(ctx);
+
+  // 一度姿が消えたら戻らない
+  if (state.condition === 'dead') {
+    return {
+      ...state,
+      lastVisitDate: laterDate(state.lastVisitDate, today),
+      timeZone: ctx.timeZone,
+    };
+  }
+
+  // 暦日が前回より戻っている場合は空白とみなさない
+  const thresholds = getThresholds(ctx);
+  const gap = Math.max(0, toDayNumber(today) - toDayNumber(state.lastVisitDate));
+  const newCondition = getConditionForGap(gap, thresholds);
+
+  if (newCondition === 'dead') {
+    return {
+      ...state,
+      condition: 'dead',
+      endDate: addDays(state.lastVisitDate, thresholds.deadDays),
+      lastVisitDate: today,
+      timeZone: ctx.timeZone,
+    };
   }
 
   return {
     ...state,
     condition: newCondition,
-    lastVisitDate: today,
+    lastVisitDate: laterDate(state.lastVisitDate, today),
+    timeZone: ctx.timeZone,
   };
 };
 
+// 姿が消えた子のお別れの記録を作成
+export const createFarewell = (state: AppState): Farewell => {
+  const endDate = state.endDate ?? state.lastVisitDate;
+  return {
+    ...(state.name ? { name: state.name } : {}),
+    startDate: state.startDate,
+    endDate,
+    finalSizeFactor: state.sizeFactor,
+    daysLived: getDaysDiff(state.startDate, endDate),
+  };
+};
+
+// 新しいオオサンショウウオを迎える（ユーザーが選んだときだけ）
+// 前の子がまだ川にいる場合は何もしない
+export const welcomeNewSalamander = (
+  state: AppState,
+  ctx: SimulationContext = systemContext
+): AppState => {
+  if (state.condition !== 'dead') {
+    return state;
+  }
+
+  const farewells = [...(state.farewells ?? []), createFarewell(state)];
+  return {
+    ...createInitialState(ctx, farewells),
+    latestLog: getMessageText('system.welcome', ctx.locale ?? DEFAULT_LOCALE),
+    latestLogId: 'system.welcome',
+    // 時計の記録は新しい子にも引き継ぐ（前の子のチェックポイントは残さない）
+    ...(state.clock ? { clock: { lastSeenAt: state.clock.lastSeenAt } } : {}),
+  };
+};
+
+// お別れの記録を穏やかな文章にする
+export const describeFarewell = (farewell: Farewell, locale: Locale = DEFAULT_LOCALE): string => {
+  const values = { startDate: farewell.startDate, days: farewell.daysLived };
+  return farewell.name
+    ? formatMessage('farewell.namedSummary', locale, { ...values, name: farewell.name })
+    : formatMessage('farewell.summary', locale, values);
+};
+
+// 表示する日次ログ（文言の ID があれば今の言葉で表す。古い保存データは保存した文章のまま）
+export const getLatestLogText = (state: AppState, locale: Locale = DEFAULT_LOCALE): string => {
+  return state.latestLogId ? getMessageText(state.latestLogId, locale) : state.latestLog;
+};
+
+// 日次ログをカタログから選ぶ
+export const pickDailyLog = (
+  state: AppState,
+  ctx: SimulationContext = systemContext
+): { rule: MessageRule; text: string } => {
+  const candidates = getCandidateMessages({
+    condition: state.condition,
+    stage: getLifeStage(state, state.lastVisitDate),
+    season: getSeason(state.lastVisitDate),
+    timeOfDay: getTimeOfDay(ctx.now(), ctx.timeZone),
+    event: getRiverEvent(state.lastVisitDate),
+    isFirstDay: getDaysDiff(state.startDate, state.lastVisitDate) === 0,
+    weather: ctx.weather ? getWeatherTags(ctx.weather) : undefined,
+    personality: state.traits ? getPersonality(state.traits) : null,
+  });
+  const rule = selectMessage(candidates, ctx.random, state.recentLogIds);
+  return { rule, text: getMessageText(rule.id, ctx.locale ?? DEFAULT_LOCALE) };
+};
+
 // 日次ログを生成
-export const generateDailyLog = (state: AppState): string => {
-  const daysSinceStart = getDaysDiff(state.startDate, state.lastVisitDate);
-  
-  if (state.condition === 'dead') {
-    return '静かな川の流れだけが残っています。';
+export const generateDailyLog = (state: AppState, ctx: SimulationContext = systemContext): string => {
+  return pickDailyLog(state, ctx).text;
+};
+
+// その日の日次ログを選んで状態に反映する
+const withDailyLog = (state: AppState, date: string, ctx: SimulationContext): AppState => {
+  const { rule, text } = pickDailyLog(state, ctx);
+  return {
+    ...state,
+    latestLog: text,
+    latestLogId: rule.id,
+    latestLogDate: date,
+    recentLogIds: rememberMessage(state.recentLogIds, rule.id),
+  };
+};
+
+// 訪問しなかった日を1日ずつ順番に再現し、各日の終わりの状態を返す（今日の前日まで）
+// 放置日数がしきい値を越えるまでは毎日開いていた場合と同じように成長し、
+// 越えたあとは弱り、やがて姿が消える（姿が消えた日で終わる）
+export const simulateMissedDays = (state: AppState, ctx: SimulationContext = systemContext): AppState[] => {
+  const lastDay = toDayNumber(getToday(ctx)) - 1;
+  const thresholds = getThresholds(ctx);
+  const days: AppState[] = [];
+  let current = state;
+
+  for (let day = toDayNumber(state.lastGrowthDate) + 1; day <= lastDay && current.condition !== 'dead'; day++) {
+    const date = fromDayNumber(day);
+    const random = getDayRandom(ctx, date);
+
+    const condition = getConditionForGap(getDaysDiff(current.lastVisitDate, date), thresholds);
+    if (condition === 'dead') {
+      current = { ...current, condition, endDate: date, lastGrowthDate: date };
+    } else if (condition === 'healthy') {
+      const growthRate = getDailyGrowthRate(random, current.sizeFactor);
+      current = { ...current, condition, sizeFactor: current.sizeFactor * growthRate, lastGrowthDate: date };
+    } else {
+      current = { ...current, condition, lastGrowthDate: date };
+    }
+
+    // 訪れなかった日の天気はわからないので、今日の天気は使わない
+    current = withDailyLog(current, date, { ...ctx, random, weather: undefined });
+    days.push(current);
   }
-  
-  if (state.condition === 'weak') {
-    const messages = [
-      '今日も静かに過ごしています。',
-      'ゆっくりと時間が流れています。',
-      '川の音が聞こえます。',
-    ];
-    return messages[Math.floor(Math.random() * messages.length)];
+
+  return days;
+};
+
+// 再現した空白の日を状態に反映する
+const applyMissedDays = (state: AppState, days: AppState[], ctx: SimulationContext): AppState => {
+  const yesterday = addDays(getToday(ctx), -1);
+  const current = days.length > 0 ? days[days.length - 1] : state;
+
+  // 姿が消えたあとは何も起きないので残りの日は飛ばす
+  if (current.condition === 'dead' && toDayNumber(current.lastGrowthDate) < toDayNumber(yesterday)) {
+    return { ...current, lastGrowthDate: yesterday };
   }
 
-  // healthy
-  if (daysSinceStart === 0) {
-    return '新しい住処を見つけました。';
+  return current;
+};
+
+// 訪問しなかった日をまとめて再現した後の状態
+export const replayMissedDays = (state: AppState, ctx: SimulationContext = systemContext): AppState => {
+  return applyMissedDays(state, simulateMissedDays(state, ctx), ctx);
+};
+
+// 訪問時の一連の処理（時計の確認 → 空白の日の再現 → 放置判定 → 成長 → 日次ログ）
+// 再現した空白の日の状態と、時計の様子もあわせて返す
+//
+// 端末の時計は次のように扱う
+// - 前回より戻っている: 何も進めない。一番新しく見た時刻を越えるまで成長も放置判定も止まるので、
+//   時計を進めて育てた日が、元に戻したあとにもう一度数えられることはない
+// - 大きく進んだ: 長い留守として通常どおり処理するが、訪問前の状態をチェックポイントとして残す
+// - 大きく進んだあとで、進む前の時刻まで戻された: 時計の誤りとみなし、チェックポイントから処理し直す
+export const processVisitWithHistory = (
+  state: AppState,
+  ctx: SimulationContext = systemContext
+): { state: AppState; missedDays: AppState[]; clockStatus: ClockStatus } => {
+  // 姿が消えるほど時計が進んだら、戻されたときに取り消せるようにする
+  const forwardJumpDays = getThresholds(ctx).deadDays;
+  const clockStatus = assessClock(state, forwardJumpDays, ctx);
+
+  if (clockStatus === 'backward') {
+    const checkpoint = state.clock?.checkpoint;
+    // 戻された時計で見ても姿が消える日を過ぎているなら、本当に長く留守にしていたので取り消さない
+    const reallyGone = state.condition === 'dead' && state.endDate !== undefined && getToday(ctx) >= state.endDate;
+    if (!checkpoint || reallyGone || !canRestoreCheckpoint(state, forwardJumpDays, ctx)) {
+      return { state, missedDays: [], clockStatus };
+    }
+    const restored = processVisitWithHistory({ ...checkpoint.state, clock: { lastSeenAt: checkpoint.seenAt } }, ctx);
+    return { ...restored, clockStatus };
   }
 
-  const messages = [
-    '今日も静かに過ごしています。',
-    'ゆっくりと成長しています。',
-    '川の流れに身を任せています。',
-    '岩の陰で休んでいます。',
-    '水草の間を泳いでいます。',
-  ];
+  const today = getToday(ctx);
+  const missedDays = simulateMissedDays(state, ctx);
+
+  let updatedState = applyMissedDays(state, missedDays, ctx);
+  updatedState = processCondition(updatedState, ctx);
+  updatedState = processGrowth(updatedState, ctx);
+
+  // その日のログはその日の最初に開いたときに1度だけ選ぶ（開くたびに選ぶと、繰り返さない日数が開いた回数で減ってしまう）
+  if (updatedState.lastVisitDate === today && updatedState.latestLogDate !== today) {
+    updatedState = withDailyLog(updatedState, today, ctx);
+  }
+
+  return { state: { ...updatedState, clock: recordClock(state, clockStatus, ctx) }, missedDays, clockStatus };
+};
 
-  return messages[Math.floor(Math.random() * messages.length)];
+// 訪問時の一連の処理（空白の日の再現 → 放置判定 → 成長 → 日次ログ）
+export const processVisit = (state: AppState, ctx: SimulationContext = systemContext): AppState => {
+  return processVisitWithHistory(state, ctx).state;
 };
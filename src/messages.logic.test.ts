@@ -0,0 +1,156 @@
+import { SUPPORTED_LOCALES, resolveLocale } from './locale';
+import {
+  LOCALE_MESSAGES,
+  MESSAGE_RULES,
+  MessageContext,
+  NO_REPEAT_DAYS,
+  SYSTEM_MESSAGE_IDS,
+  getCandidateMessages,
+  getMessageText,
+  rememberMessage,
+  selectMessage,
+} from './messages';
+
+describe('日次ログカタログのテスト', () => {
+  const context: MessageContext = {
+    condition: 'healthy',
+    stage: 'larva',
+    season: 'winter',
+    timeOfDay: 'day',
+    event: null,
+    isFirstDay: false,
+  };
+
+  describe('言語ごとの文言', () => {
+    const allIds = [...MESSAGE_RULES.map((rule) => rule.id), ...SYSTEM_MESSAGE_IDS];
+
+    test.each(SUPPORTED_LOCALES)('%s はすべてのキーを網羅している', (locale) => {
+      const messages = LOCALE_MESSAGES[locale];
+      allIds.forEach((id) => {
+        expect(typeof messages[id]).toBe('string');
+        expect(messages[id].length).toBeGreaterThan(0);
+      });
+    });
+
+    test.each(SUPPORTED_LOCALES)('%s にカタログにないキーがない', (locale) => {
+      expect(Object.keys(LOCALE_MESSAGES[locale]).sort()).toEqual([...allIds].sort());
+    });
+
+    test('ID は重複しない', () => {
+      const ids = MESSAGE_RULES.map((rule) => rule.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    test('重みはすべて正の数', () => {
+      MESSAGE_RULES.forEach((rule) => expect(rule.weight).toBeGreaterThan(0));
+    });
+
+    test('文言を言語ごとに取得できる', () => {
+      expect(getMessageText('dead.river', 'ja')).toBe('静かな川の流れだけが残っています。');
+      expect(getMessageText('dead.river', 'en')).toBe('Only the quiet flow of the river remains.');
+    });
+  });
+
+  describe('resolveLocale', () => {
+    test('端末の言語タグから言語を選ぶ', () => {
+      expect(resolveLocale('ja-JP')).toBe('ja');
+      expect(resolveLocale('en-US')).toBe('en');
+      expect(resolveLocale('en_GB')).toBe('en');
+    });
+
+    test('対応していない言語は英語', () => {
+      expect(resolveLocale('fr-FR')).toBe('en');
+    });
+  });
+
+  describe('getCandidateMessages', () => {
+    test('状態・段階・季節・時間帯に当てはまるものだけ', () => {
+      const ids = getCandidateMessages(context).map((rule) => rule.id);
+
+      expect(ids).toContain('healthy.quiet');
+      expect(ids).toContain('larva.gills');
+      expect(ids).toContain('winter.waiting');
+      expect(ids).toContain('day.resting');
+      expect(ids).not.toContain('adult.leisurely');
+      expect(ids).not.toContain('summer.shade');
+      expect(ids).not.toContain('night.moving');
+      expect(ids).not.toContain('weak.riverSound');
+      expect(ids).not.toContain('firstDay.newHome');
+    });
+
+    test('川の出来事のログはその期間だけ', () => {
+      const ids = getCandidateMessages(context).map((rule) => rule.id);
+      const dormantIds = getCandidateMessages({ ...context, event: 'winterDormancy' }).map((rule) => rule.id);
+
+      expect(ids).not.toContain('winterDormancy.sleep');
+      expect(dormantIds).toContain('winterDormancy.sleep');
+    });
+
+    test('冬眠の時期は活発に動くログが出ない', () => {
+      const ids = getCandidateMessages({
+        ...context,
+        stage: 'juvenile',
+        timeOfDay: 'night',
+        event: 'winterDormancy',
+      }).map((rule) => rule.id);
+
+      expect(ids).not.toContain('night.moving');
+      expect(ids).not.toContain('juvenile.insects');
+      expect(ids).not.toContain('healthy.amongWeeds');
+      expect(ids).toContain('healthy.underRock');
+    });
+
+    test('性格のログはその性格の子だけ', () => {
+      const plainIds = getCandidateMessages(context).map((rule) => rule.id);
+      const shyIds = getCandidateMessages({ ...context, personality: 'shy' }).map((rule) => rule.id);
+
+      expect(plainIds).not.toContain('shy.peeking');
+      expect(shyIds).toContain('shy.peeking');
+      expect(shyIds).not.toContain('bold.surface');
+    });
+
+    test('初日は初日のログだけ', () => {
+      const ids = getCandidateMessages({ ...context, isFirstDay: true }).map((rule) => rule.id);
+      expect(ids).toEqual(['firstDay.newHome']);
+    });
+
+    test('姿が消えたあとは決まったログだけ', () => {
+      const ids = getCandidateMessages({ ...context, condition: 'dead', isFirstDay: true }).map((rule) => rule.id);
+      expect(ids).toEqual(['dead.river']);
+    });
+  });
+
+  describe('selectMessage', () => {
+    const candidates = [
+      { id: 'a', weight: 1 },
+      { id: 'b', weight: 3 },
+    ];
+
+    test('重みに従って選ぶ', () => {
+      expect(selectMessage(candidates, () => 0).id).toBe('a');
+      expect(selectMessage(candidates, () => 0.24).id).toBe('a');
+      expect(selectMessage(candidates, () => 0.26).id).toBe('b');
+      expect(selectMessage(candidates, () => 0.99).id).toBe('b');
+    });
+
+    test('最近使ったログは避ける', () => {
+      expect(selectMessage(candidates, () => 0.99, ['b']).id).toBe('a');
+    });
+
+    test('すべて最近使ったものなら全候補から選ぶ', () => {
+      expect(selectMessage(candidates, () => 0.99, ['a', 'b']).id).toBe('b');
+    });
+  });
+
+  describe('rememberMessage', () => {
+    test('決まった日数分だけ記録する', () => {
+      let recent: string[] = [];
+      ['a', 'b', 'c', 'd', 'e'].forEach((id) => {
+        recent = rememberMessage(recent, id);
+      });
+
+      expect(recent).toHaveLength(NO_REPEAT_DAYS);
+      expect(recent[recent.length - 1]).toBe('e');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import type { Personality } from './identity';
+import { Locale } from './locale';
+import type { Condition, LifeStage } from './logic';
+import { RiverEvent, Season } from './season';
+import { TimeOfDay } from './timeOfDay';
+import { WeatherTag } from './weather';
+import en from './locales/en';
+import ja from './locales/ja';
+
+// 日次ログの1件の出現条件
+// conditions / stages / seasons / timesOfDay を省略した場合はどれにでも当てはまる
+export interface MessageRule {
+  id: string;
+  weight: number;
+  conditions?: Condition[];
+  stages?: LifeStage[];
+  seasons?: Season[];
+  timesOfDay?: TimeOfDay[];
+  events?: RiverEvent[];
+  // この出来事の期間中は出さない
+  excludedEvents?: RiverEvent[];
+  // いずれかの天気のときだけ出す
+  weather?: WeatherTag[];
+  // その子が来た初日だけのログ
+  firstDay?: boolean;
+  // この性格の子だけに出す
+  personality?: Personality[];
+}
+
+// ログを選ぶときの状況
+export interface MessageContext {
+  condition: Condition;
+  stage: LifeStage;
+  season: Season;
+  timeOfDay: TimeOfDay;
+  event: RiverEvent | null;
+  isFirstDay: boolean;
+  // 今日の天気の特徴（天気がわからなければ省略）
+  weather?: WeatherTag[];
+  // その子の性格（個性を持たない子やどちらでもない子は null か省略）
+  personality?: Personality | null;
+}
+
+// 同じログを繰り返さない日数
+export const NO_REPEAT_DAYS = 3;
+
+// 日次ログのカタログ（文言は locales に言語ごとに置く）
+export const MESSAGE_RULES: MessageRule[] = [
+  // 姿が消えたあと
+  { id: 'dead.river', weight: 1, conditions: ['dead'] },
+
+  // 初日
+  { id: 'firstDay.newHome', weight: 1, conditions: ['healthy'], firstDay: true },
+
+  // 弱っているとき
+  { id: 'weak.quiet', weight: 1, conditions: ['weak'] },
+  { id: 'weak.timePasses', weight: 1, conditions: ['weak'] },
+  { id: 'weak.riverSound', weight: 1, conditions: ['weak'] },
+
+  // 元気なとき
+  { id: 'healthy.quiet', weight: 1, conditions: ['healthy'] },
+  { id: 'healthy.growing', weight: 1, conditions: ['healthy'] },
+  { id: 'healthy.drifting', weight: 1, conditions: ['healthy'] },
+  { id: 'healthy.underRock', weight: 1, conditions: ['healthy'] },
+  { id: 'healthy.amongWeeds', weight: 1, conditions: ['healthy'], excludedEvents: ['winterDormancy'] },
+
+  // 成長段階
+  { id: 'larva.gills', weight: 1, conditions: ['healthy'], stages: ['larva'] },
+  { id: 'larva.gravel', weight: 1, conditions: ['healthy'], stages: ['larva'] },
+  {
+    id: 'juvenile.insects',
+    weight: 1,
+    conditions: ['healthy'],
+    stages: ['juvenile'],
+    excludedEvents: ['winterDormancy'],
+  },
+  {
+    id: 'juvenile.farther',
+    weight: 1,
+    conditions: ['healthy'],
+    stages: ['juvenile'],
+    excludedEvents: ['winterDormancy'],
+  },
+  { id: 'subadult.ownRock', weight: 1, conditions: ['healthy'], stages: ['subadult'] },
+  { id: 'subadult.sturdy', weight: 1, conditions: ['healthy'], stages: ['subadult'] },
+  { id: 'adult.leisurely', weight: 1, conditions: ['healthy'], stages: ['adult'] },
+  { id: 'adult.master', weight: 1, conditions: ['healthy'], stages: ['adult'] },
+  { id: 'elder.years', weight: 1, conditions: ['healthy'], stages: ['elder'] },
+  { id: 'elder.still', weight: 1, conditions: ['healthy'], stages: ['elder'] },
+
+  // 季節
+  { id: 'spring.warmWater', weight: 2, conditions: ['healthy', 'weak'], seasons: ['spring'] },
+  { id: 'summer.shade', weight: 2, conditions: ['healthy', 'weak'], seasons: ['summer'] },
+  { id: 'autumn.leaves', weight: 2, conditions: ['healthy', 'weak'], seasons: ['autumn'] },
+  { id: 'winter.waiting', weight: 2, conditions: ['healthy', 'weak'], seasons: ['winter'] },
+
+  // 時間帯
+  { id: 'dawn.mist', weight: 1, conditions: ['healthy'], timesOfDay: ['dawn'] },
+  { id: 'dawn.returning', weight: 1, conditions: ['healthy'], timesOfDay: ['dawn'] },
+  { id: 'day.resting', weight: 1, conditions: ['healthy'], timesOfDay: ['day'] },
+  { id: 'day.eyesOnly', weight: 1, conditions: ['healthy'], timesOfDay: ['day'] },
+  { id: 'dusk.light', weight: 1, conditions: ['healthy'], timesOfDay: ['dusk'] },
+  { id: 'dusk.waking', weight: 1, conditions: ['healthy'], timesOfDay: ['dusk'], excludedEvents: ['winterDormancy'] },
+  { id: 'night.moving', weight: 1, conditions: ['healthy'], timesOfDay: ['night'], excludedEvents: ['winterDormancy'] },
+  {
+    id: 'night.ambush',
+    weight: 2,
+    conditions: ['healthy'],
+    timesOfDay: ['night'],
+    excludedEvents: ['winterDormancy'],
+  },
+  { id: 'night.stars', weight: 1, conditions: ['healthy', 'weak'], timesOfDay: ['night'] },
+
+  // 川の出来事
+  { id: 'spawningMigration.upstream', weight: 2, conditions: ['healthy'], events: ['spawningMigration'] },
+  { id: 'highWater.waiting', weight: 2, conditions: ['healthy', 'weak'], events: ['highWater'] },
+  { id: 'midsummer.cicadas', weight: 2, conditions: ['healthy', 'weak'], events: ['midsummer'] },
+  { id: 'autumnLeaves.redLeaf', weight: 2, conditions: ['healthy'], events: ['autumnLeaves'] },
+  { id: 'winterDormancy.sleep', weight: 2, conditions: ['healthy', 'weak'], events: ['winterDormancy'] },
+
+  // 天気
+  { id: 'rain.ripples', weight: 2, conditions: ['healthy', 'weak'], weather: ['rain'] },
+  { id: 'heavyRain.hiding', weight: 3, conditions: ['healthy', 'weak'], weather: ['heavyRain'] },
+  { id: 'muddy.feeling', weight: 2, conditions: ['healthy'], weather: ['muddy'] },
+  { id: 'cold.slow', weight: 2, conditions: ['healthy', 'weak'], weather: ['cold'] },
+  { id: 'hot.deepWater', weight: 2, conditions: ['healthy', 'weak'], weather: ['hot'] },
+
+  // 性格
+  { id: 'shy.peeking', weight: 1, conditions: ['healthy'], personality: ['shy'] },
+  { id: 'shy.footsteps', weight: 1, conditions: ['healthy'], personality: ['shy'] },
+  {
+    id: 'bold.surface',
+    weight: 1,
+    conditions: ['healthy'],
+    personality: ['bold'],
+    excludedEvents: ['winterDormancy'],
+  },
+  {
+    id: 'bold.farPool',
+    weight: 1,
+    conditions: ['healthy'],
+    personality: ['bold'],
+    excludedEvents: ['winterDormancy'],
+  },
+];
+
+// ログ以外の決まった文言
+export const SYSTEM_MESSAGE_IDS = [
+  'system.initial',
+  'system.welcome',
+  'reminder.title',
+  'reminder.nextDay',
+  'reminder.fewDays',
+  'reminder.longer',
+  'farewell.summary',
+  'farewell.namedSummary',
+];
+
+// 言語ごとの文言
+export const LOCALE_MESSAGES: Record<Locale, Record<string, string>> = { ja, en };
+
+const matches = <T>(allowed: T[] | undefined, value: T): boolean => {
+  return allowed === undefined || allowed.includes(value);
+};
+
+// 状況に当てはまるログの候補
+export const getCandidateMessages = (context: MessageContext): MessageRule[] => {
+  const firstDayOnly =
+    context.isFirstDay && MESSAGE_RULES.some((rule) => rule.firstDay && matches(rule.conditions, context.condition));
+
+  return MESSAGE_RULES.filter(
+    (rule) =>
+      Boolean(rule.firstDay) === firstDayOnly &&
+      matches(rule.conditions, context.condition) &&
+      matches(rule.stages, context.stage) &&
+      matches(rule.seasons, context.season) &&
+      matches(rule.timesOfDay, context.timeOfDay) &&
+      (rule.events === undefined || (context.event !== null && rule.events.includes(context.event))) &&
+      (rule.weather === undefined || rule.weather.some((tag) => context.weather?.includes(tag))) &&
+      (rule.personality === undefined || (!!context.personality && rule.personality.includes(context.personality))) &&
+      !(context.event !== null && rule.excludedEvents?.includes(context.event))
+  );
+};
+
+// 重みに従って候補から1件選ぶ
+// 最近使ったログは避ける（すべて最近使ったものなら全候補から選ぶ）
+export const selectMessage = (
+  candidates: MessageRule[],
+  random: () => number,
+  recentIds: string[] = []
+): MessageRule => {
+  const fresh = candidates.filter((rule) => !recentIds.includes(rule.id));
+  const pool = fresh.length > 0 ? fresh : candidates;
+
+  const totalWeight = pool.reduce((sum, rule) => sum + rule.weight, 0);
+  let target = random() * totalWeight;
+  for (const rule of pool) {
+    target -= rule.weight;
+    if (target < 0) {
+      return rule;
+    }
+  }
+  return pool[pool.length - 1];
+};
+
+// 文言を取得（その言語に無ければ日本語）
+export const getMessageText = (id: string, locale: Locale): string => {
+  return LOCALE_MESSAGES[locale][id] ?? LOCALE_MESSAGES.ja[id] ?? id;
+};
+
+// 文言の {key} を値で埋める
+export const formatMessage = (
+  id: string,
+  locale: Locale,
+  values: Record<string, string | number>
+): string => {
+  return getMessageText(id, locale).replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+};
+
+// 最近使ったログの記録を更新（NO_REPEAT_DAYS 日分だけ残す）
+export const rememberMessage = (recentIds: string[] = [], id: string): string[] => {
+  return [...recentIds, id].slice(-NO_REPEAT_DAYS);
+};
@@ -0,0 +1,254 @@
+import {
+  Keyframe,
+  MIN_MOVE_MS,
+  RiverLayout,
+  WanderOptions,
+  expandForBody,
+  findPath,
+  getFacingForMove,
+  getLaneLayout,
+  planWander,
+  resolveRiverLayout,
+  segmentCrossesRect,
+} from './movement';
+import { createSeededRandom } from './simulation';
+
+const layout = resolveRiverLayout(400, 800);
+const options: WanderOptions = {
+  bodyWidth: 60,
+  bodyHeight: 30,
+  wanderRange: 0.3,
+  speed: 80,
+  restChance: 0.1,
+  activity: 1,
+};
+
+// 出発点から各区切りまでの線分
+const segments = (from: { x: number; y: number }, keyframes: Keyframe[]) =>
+  keyframes.map((keyframe, i) => [i === 0 ? from : keyframes[i - 1], keyframe] as const);
+
+describe('うろうろの道筋のテスト', () => {
+  describe('川の配置', () => {
+    test('割合と px から画面の大きさに合わせた位置を求める', () => {
+      const rock1 = layout.obstacles.find((obstacle) => obstacle.id === 'rock1');
+      const rock2 = layout.obstacles.find((obstacle) => obstacle.id === 'rock2');
+      expect(rock1?.rect).toEqual({ left: 40, bottom: 160, width: 120, height: 80 });
+      // 右からの位置は、右端がそこにそろうように置く
+      expect(rock2?.rect).toEqual({ left: 230, bottom: 120, width: 90, height: 60 });
+      expect(layout.home).toEqual({ x: 200, y: 240 });
+    });
+
+    test('休み場所は岩ごとに、岩の下の方にある', () => {
+      expect(layout.restSpots.map((spot) => spot.id)).toEqual(['rock1', 'rock2', 'rock3']);
+      expect(layout.restSpots[0]).toEqual({ id: 'rock1', x: 100, y: 168 });
+    });
+  });
+
+  describe('障害物', () => {
+    const rock = { left: 40, bottom: 0, width: 20, height: 100 };
+
+    test('線分が四角の内側を通るかを調べる', () => {
+      expect(segmentCrossesRect({ x: 0, y: 50 }, { x: 100, y: 50 }, rock)).toBe(true);
+      expect(segmentCrossesRect({ x: 0, y: 150 }, { x: 100, y: 150 }, rock)).toBe(false);
+      expect(segmentCrossesRect({ x: 0, y: 50 }, { x: 30, y: 50 }, rock)).toBe(false);
+      // 辺に沿って進むのは通れる
+      expect(segmentCrossesRect({ x: 40, y: 0 }, { x: 40, y: 100 }, rock)).toBe(false);
+    });
+
+    test('ふさがれていれば角を回って進む', () => {
+      const path = findPath({ x: 0, y: 50 }, { x: 100, y: 70 }, [rock]);
+      expect(path).toEqual([
+        { x: 40, y: 100 },
+        { x: 60, y: 100 },
+        { x: 100, y: 70 },
+      ]);
+      expect(findPath({ x: 0, y: 150 }, { x: 100, y: 150 }, [rock])).toEqual([{ x: 100, y: 150 }]);
+    });
+
+    test('範囲の外の角は通らない', () => {
+      const bounds = { left: 0, bottom: 0, width: 200, height: 100 };
+      expect(findPath({ x: 0, y: 50 }, { x: 100, y: 70 }, [rock], bounds)).toEqual([
+        { x: 40, y: 100 },
+        { x: 60, y: 100 },
+        { x: 100, y: 70 },
+      ]);
+      expect(findPath({ x: 0, y: 50 }, { x: 100, y: 70 }, [rock], { ...bounds, bottom: 10, height: 80 })).toBeNull();
+    });
+
+    test('囲まれていて行けなければ null', () => {
+      const walls = [
+        { left: 75, bottom: -15, width: 15, height: 220 },
+        { left: 110, bottom: -15, width: 15, height: 220 },
+        { left: 75, bottom: 190, width: 50, height: 15 },
+        { left: 75, bottom: -15, width: 50, height: 15 },
+      ];
+      expect(findPath({ x: 0, y: 50 }, { x: 100, y: 50 }, walls)).toBeNull();
+    });
+  });
+
+  describe('向き', () => {
+    test('右へ進むときは反転し、縦にだけ進むときはそのまま', () => {
+      expect(getFacingForMove({ x: 0, y: 0 }, { x: 50, y: 0 }, 1)).toBe(-1);
+      expect(getFacingForMove({ x: 50, y: 0 }, { x: 0, y: 0 }, -1)).toBe(1);
+      expect(getFacingForMove({ x: 0, y: 0 }, { x: 0, y: 50 }, -1)).toBe(-1);
+    });
+  });
+
+  describe('動きの区切り', () => {
+    const seeds = Array.from({ length: 40 }, (_, i) => i + 1);
+
+    test('岩や水草を通り抜けず、動ける範囲の中で止まる', () => {
+      const obstacles = layout.obstacles.map((obstacle) => ({
+        id: obstacle.id,
+        rect: expandForBody(obstacle.rect, options.bodyWidth, options.bodyHeight),
+      }));
+
+      seeds.forEach((seed) => {
+        const keyframes = planWander(layout.home, layout, { ...options, restChance: 0 }, createSeededRandom(seed));
+        const last = keyframes[keyframes.length - 1];
+        segments(layout.home, keyframes).forEach(([from, to]) => {
+          obstacles.forEach(({ rect }) => expect(segmentCrossesRect(from, to, rect)).toBe(false));
+        });
+        expect(Math.abs(last.x - layout.home.x)).toBeLessThanOrEqual(400 * options.wanderRange);
+        expect(last.y).toBeGreaterThanOrEqual(layout.swimArea.bottom);
+        expect(last.y).toBeLessThanOrEqual(layout.swimArea.bottom + layout.swimArea.height);
+      });
+    });
+
+    test('岩の下にもぐるときは長めに休む', () => {
+      const keyframes = planWander(layout.home, layout, { ...options, restChance: 1 }, createSeededRandom(3));
+      const last = keyframes[keyframes.length - 1];
+      const spot = layout.restSpots.find((restSpot) => restSpot.id === last.restSpot);
+
+      expect(spot).toBeDefined();
+      expect({ x: last.x, y: last.y }).toEqual({ x: spot?.x, y: spot?.y });
+      expect(last.wait).toBeGreaterThanOrEqual(10000);
+      keyframes.slice(0, -1).forEach((keyframe) => expect(keyframe.wait).toBe(0));
+    });
+
+    test('お気に入りの岩が届く範囲にあれば、休むときはそこへ行く', () => {
+      const favourite = planWander(layout.home, layout, { ...options, restChance: 1 }, createSeededRandom(3)).pop()?.restSpot;
+      expect(favourite).toBeDefined();
+      seeds.forEach((seed) => {
+        const keyframes = planWander(
+          layout.home,
+          layout,
+          { ...options, restChance: 1, preferredRestSpot: favourite },
+          createSeededRandom(seed)
+        );
+        expect(keyframes[keyframes.length - 1].restSpot).toBe(favourite);
+      });
+    });
+
+    test('活発でないときほど長く休む', () => {
+      const lively = planWander(layout.home, layout, options, createSeededRandom(7));
+      const sleepy = planWander(layout.home, layout, { ...options, activity: 0.5 }, createSeededRandom(7));
+      expect(sleepy[sleepy.length - 1].wait).toBeCloseTo(lively[lively.length - 1].wait * 2);
+    });
+
+    test('進む向きに合わせて向きを変え、短すぎる移動はしない', () => {
+      seeds.forEach((seed) => {
+        let previous = layout.home;
+        planWander(layout.home, layout, options, createSeededRandom(seed)).forEach((keyframe) => {
+          if (Math.abs(keyframe.x - previous.x) >= 1) {
+            expect(keyframe.facing).toBe(keyframe.x > previous.x ? -1 : 1);
+          }
+          expect(keyframe.duration).toBeGreaterThanOrEqual(MIN_MOVE_MS);
+          previous = keyframe;
+        });
+      });
+    });
+
+    test('もぐっていた岩からはそのまま出ていける', () => {
+      const spot = layout.restSpots[0];
+      const keyframes = planWander(spot, layout, { ...options, restChance: 0 }, createSeededRandom(11));
+      expect(keyframes.length).toBeGreaterThan(0);
+      expect(keyframes[keyframes.length - 1].duration).toBeGreaterThan(0);
+    });
+
+    test('行ける場所がなければその場で休む', () => {
+      const boxed: RiverLayout = {
+        ...layout,
+        obstacles: [
+          { id: 'left', kind: 'rock', rect: { left: 0, bottom: 0, width: 190, height: 800 } },
+          { id: 'right', kind: 'rock', rect: { left: 210, bottom: 0, width: 190, height: 800 } },
+        ],
+      };
+      const keyframes = planWander(
+        layout.home,
+        boxed,
+        { ...options, bodyWidth: 0, bodyHeight: 0 },
+        () => 0.9,
+        -1
+      );
+      expect(keyframes).toEqual([{ x: 200, y: 240, duration: 0, wait: expect.any(Number), facing: -1 }]);
+    });
+
+    test('隠れる時間は動ける範囲の外でもお気に入りの岩の下へ行き、着いたらそこから動かない', () => {
+      const hiding = { ...options, wanderRange: 0.05, hiding: true, preferredRestSpot: 'rock1' };
+      const spot = layout.restSpots.find((restSpot) => restSpot.id === 'rock1')!;
+
+      const keyframes = planWander(layout.home, layout, hiding, createSeededRandom(2));
+      const last = keyframes[keyframes.length - 1];
+      expect(last).toMatchObject({ x: spot.x, y: spot.y, restSpot: 'rock1' });
+      expect(last.wait).toBeGreaterThanOrEqual(10000);
+
+      expect(planWander(spot, layout, hiding, createSeededRandom(3))).toEqual([
+        { x: spot.x, y: spot.y, duration: 0, wait: expect.any(Number), facing: 1, restSpot: 'rock1' },
+      ]);
+    });
+
+    test('隠れる時間にお気に入りの岩がなければ、いちばん近い岩の下へ行く', () => {
+      const keyframes = planWander(layout.home, layout, { ...options, hiding: true }, createSeededRandom(4));
+      const nearest = [...layout.restSpots].sort(
+        (a, b) => Math.hypot(a.x - 200, a.y - 240) - Math.hypot(b.x - 200, b.y - 240)
+      )[0];
+      expect(keyframes[keyframes.length - 1].restSpot).toBe(nearest.id);
+    });
+
+    test('同じ乱数からは同じ動きになる', () => {
+      expect(planWander(layout.home, layout, options, createSeededRandom(5))).toEqual(
+        planWander(layout.home, layout, options, createSeededRandom(5))
+      );
+    });
+  });
+
+  describe('何匹かで暮らすとき', () => {
+    test('1匹だけなら川をそのまま使う', () => {
+      expect(getLaneLayout(layout, 0, 1)).toBe(layout);
+    });
+
+    test('泳げる範囲を横に区切り、休み場所は持ち場の中の岩だけ', () => {
+      const lanes = [0, 1, 2].map((index) => getLaneLayout(layout, index, 3));
+      expect(lanes.map((lane) => lane.home.x)).toEqual([80, 200, 320]);
+      expect(lanes[0].restSpots.map((spot) => spot.id)).toEqual(['rock1']);
+      expect(lanes[2].restSpots.map((spot) => spot.id)).toEqual(['rock2', 'rock3']);
+    });
+
+    test('隠れる時間は自分の持ち場の岩の下へ行き、岩のない持ち場ではその場で休む', () => {
+      const lanes = [0, 1, 2].map((index) => getLaneLayout(layout, index, 3));
+      const hiding = { ...options, bodyWidth: 20, hiding: true, preferredRestSpot: 'rock2' };
+      const [first, middle, last] = lanes.map((lane) => planWander(lane.home, lane, hiding, createSeededRandom(6)));
+
+      expect(first[first.length - 1].restSpot).toBe('rock1');
+      expect(middle).toEqual([{ x: 200, y: 240, duration: 0, wait: expect.any(Number), facing: 1 }]);
+      expect(last[last.length - 1].restSpot).toBe('rock2');
+    });
+
+    test('自分の持ち場から出ないので、ほかの子と重ならない', () => {
+      const lanes = [0, 1, 2].map((index) => getLaneLayout(layout, index, 3));
+      const wideOptions = { ...options, wanderRange: 1 };
+
+      Array.from({ length: 20 }, (_, i) => i + 1).forEach((seed) => {
+        lanes.forEach((lane) => {
+          const left = lane.swimArea.left + options.bodyWidth / 2;
+          const right = lane.swimArea.left + lane.swimArea.width - options.bodyWidth / 2;
+          planWander(lane.home, lane, wideOptions, createSeededRandom(seed)).forEach((keyframe) => {
+            expect(keyframe.x).toBeGreaterThanOrEqual(left - 1);
+            expect(keyframe.x).toBeLessThanOrEqual(right + 1);
+          });
+        });
+      });
+    });
+  });
+});
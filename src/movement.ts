@@ -0,0 +1,375 @@
+import { Facing, Point } from './interaction';
+
+// 画面下端・左端からの位置と大きさ（px）
+export interface Rect {
+  left: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+// 川の中の岩と水草の配置（位置は画面に対する割合、大きさは px）
+// left か right のどちらかで横の位置を決める
+export interface LayoutItem {
+  id: string;
+  kind: 'rock' | 'weed';
+  left?: number;
+  right?: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+// lane: 何匹かで暮らすときの持ち場の境目（見えない壁）
+export interface Obstacle {
+  id: string;
+  kind: 'rock' | 'weed' | 'lane';
+  rect: Rect;
+}
+
+// 休み場所（岩の下にもぐる位置）
+export interface RestSpot {
+  id: string;
+  x: number;
+  y: number;
+}
+
+// 画面の大きさに合わせた川の配置
+export interface RiverLayout {
+  width: number;
+  height: number;
+  // オオサンショウウオがふだんいる位置（姿の下端の中央）
+  home: Point;
+  // 泳げる範囲
+  swimArea: Rect;
+  obstacles: Obstacle[];
+  restSpots: RestSpot[];
+}
+
+// 動きの1区切り（位置は姿の下端の中央）
+// duration: 移動にかける時間 / wait: 着いてから休む時間 / restSpot: 岩の下で休むときの岩
+export interface Keyframe {
+  x: number;
+  y: number;
+  duration: number;
+  wait: number;
+  facing: Facing;
+  restSpot?: string;
+}
+
+// 1回の移動の決め方
+// wanderRange: ふだんの位置から動ける範囲（画面に対する割合）/ speed: 泳ぐ速さ（px/秒）
+// restChance: 長めに休む（岩の下にもぐる）確率 / activity: 活発さ（高いほど休みが短い）
+// preferredRestSpot: お気に入りの岩（届く範囲にあれば、休むときはいつもそこへ行く）
+// hiding: 岩の下に隠れる時間か（うろうろせず、持ち場の休み場所へ行ってそこから動かない）
+export interface WanderOptions {
+  bodyWidth: number;
+  bodyHeight: number;
+  wanderRange: number;
+  speed: number;
+  restChance: number;
+  activity: number;
+  preferredRestSpot?: string;
+  hiding?: boolean;
+}
+
+// 岩と水草の配置（どちらの描き方でも、川に描くものと同じ）
+export const RIVER_LAYOUT: LayoutItem[] = [
+  { id: 'rock1', kind: 'rock', left: 0.1, bottom: 0.2, width: 120, height: 80 },
+  { id: 'rock2', kind: 'rock', right: 0.2, bottom: 0.15, width: 90, height: 60 },
+  { id: 'rock3', kind: 'rock', left: 0.6, bottom: 0.25, width: 70, height: 50 },
+  { id: 'weed1', kind: 'weed', left: 0.25, bottom: 0, width: 8, height: 150 },
+  { id: 'weed2', kind: 'weed', left: 0.5, bottom: 0, width: 6, height: 120 },
+  { id: 'weed3', kind: 'weed', right: 0.3, bottom: 0, width: 7, height: 100 },
+];
+
+// ふだんの位置（画面下から 30%）
+export const HOME_BOTTOM = 0.3;
+// 泳げる範囲（画面の左右 5% をのぞき、下から 10%〜50%）
+export const SWIM_AREA = { left: 0.05, right: 0.95, bottom: 0.1, top: 0.5 };
+// 基本の泳ぐ速さ（px/秒）
+export const BASE_SPEED = 80;
+// 1区切りの移動にかける最短の時間
+export const MIN_MOVE_MS = 300;
+// 行き先を選び直す回数
+const MAX_TARGET_TRIES = 12;
+
+// 配置を画面の大きさの px に直す
+export const resolveRect = (item: LayoutItem, width: number, height: number): Rect => ({
+  left: item.left !== undefined ? item.left * width : width * (1 - (item.right ?? 0)) - item.width,
+  bottom: item.bottom * height,
+  width: item.width,
+  height: item.height,
+});
+
+// 画面の大きさに合わせた川の配置
+export const resolveRiverLayout = (width: number, height: number): RiverLayout => {
+  const obstacles = RIVER_LAYOUT.map((item) => ({
+    id: item.id,
+    kind: item.kind,
+    rect: resolveRect(item, width, height),
+  }));
+  return {
+    width,
+    height,
+    home: { x: width / 2, y: height * HOME_BOTTOM },
+    swimArea: {
+      left: width * SWIM_AREA.left,
+      bottom: height * SWIM_AREA.bottom,
+      width: width * (SWIM_AREA.right - SWIM_AREA.left),
+      height: height * (SWIM_AREA.top - SWIM_AREA.bottom),
+    },
+    obstacles,
+    restSpots: obstacles
+      .filter((obstacle) => obstacle.kind === 'rock')
+      .map(({ id, rect }) => ({ id, x: rect.left + rect.width / 2, y: rect.bottom + rect.height * 0.1 })),
+  };
+};
+
+// 姿の大きさの分だけ障害物を広げる（姿の下端の中央がこの中に入ると重なる）
+export const expandForBody = (rect: Rect, bodyWidth: number, bodyHeight: number): Rect => ({
+  left: rect.left - bodyWidth / 2,
+  bottom: rect.bottom - bodyHeight,
+  width: rect.width + bodyWidth,
+  height: rect.height + bodyHeight,
+});
+
+const EPSILON = 0.5;
+
+// 点が四角の内側にあるか（辺の上は含まない）
+export const containsPoint = (rect: Rect, point: Point): boolean =>
+  point.x > rect.left + EPSILON &&
+  point.x < rect.left + rect.width - EPSILON &&
+  point.y > rect.bottom + EPSILON &&
+  point.y < rect.bottom + rect.height - EPSILON;
+
+// 線分が四角の内側を通るか（Liang–Barsky 法。辺に沿って進むのは通れるものとする）
+export const segmentCrossesRect = (from: Point, to: Point, rect: Rect): boolean => {
+  const inner = {
+    left: rect.left + EPSILON,
+    right: rect.left + rect.width - EPSILON,
+    bottom: rect.bottom + EPSILON,
+    top: rect.bottom + rect.height - EPSILON,
+  };
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dx, from.x - inner.left],
+    [dx, inner.right - from.x],
+    [-dy, from.y - inner.bottom],
+    [dy, inner.top - from.y],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q <= 0) return false;
+    } else {
+      const t = q / p;
+      if (p < 0) {
+        if (t > t1) return false;
+        t0 = Math.max(t0, t);
+      } else {
+        if (t < t0) return false;
+        t1 = Math.min(t1, t);
+      }
+    }
+  }
+  return t0 < t1;
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// 障害物を避けて from から to へ進む道筋（from を含まず to を含む。行けなければ null）
+// 広げた障害物の角を経由点にして、いちばん短い道を探す（bounds があればその外の角は通らない）
+export const findPath = (from: Point, to: Point, obstacles: Rect[], bounds?: Rect): Point[] | null => {
+  const isBlocked = (a: Point, b: Point) => obstacles.some((rect) => segmentCrossesRect(a, b, rect));
+  if (!isBlocked(from, to)) {
+    return [to];
+  }
+
+  const corners = obstacles
+    .flatMap((rect) => [
+      { x: rect.left, y: rect.bottom },
+      { x: rect.left + rect.width, y: rect.bottom },
+      { x: rect.left, y: rect.bottom + rect.height },
+      { x: rect.left + rect.width, y: rect.bottom + rect.height },
+    ])
+    .filter((corner) => !obstacles.some((rect) => containsPoint(rect, corner)))
+    .filter(
+      (corner) =>
+        !bounds ||
+        (corner.x >= bounds.left &&
+          corner.x <= bounds.left + bounds.width &&
+          corner.y >= bounds.bottom &&
+          corner.y <= bounds.bottom + bounds.height)
+    );
+  const nodes = [from, ...corners, to];
+
+  // ダイクストラ法（点の数が少ないので素朴に）
+  const dist = nodes.map(() => Infinity);
+  const previous: number[] = nodes.map(() => -1);
+  const done = nodes.map(() => false);
+  dist[0] = 0;
+  for (;;) {
+    let current = -1;
+    nodes.forEach((_, i) => {
+      if (!done[i] && dist[i] < Infinity && (current < 0 || dist[i] < dist[current])) current = i;
+    });
+    if (current < 0 || current === nodes.length - 1) break;
+    done[current] = true;
+    nodes.forEach((node, i) => {
+      if (done[i] || i === current || isBlocked(nodes[current], node)) return;
+      const candidate = dist[current] + distance(nodes[current], node);
+      if (candidate < dist[i]) {
+        dist[i] = candidate;
+        previous[i] = current;
+      }
+    });
+  }
+
+  if (dist[nodes.length - 1] === Infinity) {
+    return null;
+  }
+  const path: Point[] = [];
+  for (let i = nodes.length - 1; i > 0; i = previous[i]) {
+    path.unshift(nodes[i]);
+  }
+  return path;
+};
+
+// 進む向き（右へ進むときは画像を反転する。縦にだけ進むときは向きを変えない）
+export const getFacingForMove = (from: Point, to: Point, current: Facing): Facing => {
+  if (Math.abs(to.x - from.x) < 1) return current;
+  return to.x > from.x ? -1 : 1;
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+// 隠れる時間に向かう岩（お気に入りの岩が持ち場にあればそこ、なければいちばん近い岩）
+const chooseHidingSpot = (from: Point, layout: RiverLayout, preferredRestSpot?: string): RestSpot | undefined =>
+  layout.restSpots.find((spot) => spot.id === preferredRestSpot) ??
+  [...layout.restSpots].sort((a, b) => distance(from, a) - distance(from, b))[0];
+
+// 次の移動を決めて、アニメーションの区切りにする
+// たまに近くの岩の下へもぐって長めに休み、それ以外は動ける範囲の中の空いている場所へ泳ぐ
+// 隠れる時間は動ける範囲に関わらず持ち場の岩の下へ行き、着いたらそこで休み続ける（持ち場に岩がなければその場で休む）
+export const planWander = (
+  from: Point,
+  layout: RiverLayout,
+  options: WanderOptions,
+  random: () => number,
+  facing: Facing = 1
+): Keyframe[] => {
+  const { bodyWidth, bodyHeight, wanderRange, speed, restChance, activity, preferredRestSpot, hiding } = options;
+  // 今いる場所に重なっている障害物（もぐっていた岩など）からは、そのまま出ていける
+  const expanded = layout.obstacles
+    .map((obstacle) => ({ id: obstacle.id, rect: expandForBody(obstacle.rect, bodyWidth, bodyHeight) }))
+    .filter((obstacle) => !containsPoint(obstacle.rect, from));
+  const area = layout.swimArea;
+  // 画面の外を回り込む道は選ばない
+  const screen = { left: 0, bottom: 0, width: layout.width, height: layout.height };
+  const rangeX = layout.width * wanderRange;
+  const rangeY = layout.height * wanderRange * 0.5;
+  const inRange = (point: Point) =>
+    Math.abs(point.x - layout.home.x) <= rangeX && Math.abs(point.y - layout.home.y) <= rangeY;
+
+  let target: Point | null = null;
+  let restSpot: string | undefined;
+  let path: Point[] | null = null;
+
+  if (hiding) {
+    const spot = chooseHidingSpot(from, layout, preferredRestSpot);
+    const wait = (10000 + random() * 5000) / activity;
+    if (spot && distance(from, spot) < 1) {
+      return [{ x: spot.x, y: spot.y, duration: 0, wait, facing, restSpot: spot.id }];
+    }
+    const others = expanded.filter((obstacle) => obstacle.id !== spot?.id).map((obstacle) => obstacle.rect);
+    path = spot ? findPath(from, spot, others, screen) : null;
+    if (!spot || !path) {
+      return [{ x: from.x, y: from.y, duration: 0, wait, facing }];
+    }
+    target = spot;
+    restSpot = spot.id;
+  }
+
+  const resting = !hiding && random() < restChance;
+  const spots = layout.restSpots.filter(inRange);
+
+  if (resting && spots.length > 0) {
+    // 岩の下にもぐるときは、その岩だけは避けずに進む
+    const spot =
+      spots.find((candidate) => candidate.id === preferredRestSpot) ?? spots[Math.floor(random() * spots.length)];
+    const others = expanded.filter((obstacle) => obstacle.id !== spot.id).map((obstacle) => obstacle.rect);
+    path = findPath(from, spot, others, screen);
+    if (path) {
+      target = spot;
+      restSpot = spot.id;
+    }
+  }
+
+  for (let i = 0; !target && i < MAX_TARGET_TRIES; i++) {
+    const candidate = {
+      x: clamp(layout.home.x + (random() * 2 - 1) * rangeX, area.left, area.left + area.width),
+      y: clamp(layout.home.y + (random() * 2 - 1) * rangeY, area.bottom, area.bottom + area.height),
+    };
+    const rects = expanded.map((obstacle) => obstacle.rect);
+    if (rects.some((rect) => containsPoint(rect, candidate))) continue;
+    path = findPath(from, candidate, rects, screen);
+    if (path) target = candidate;
+  }
+
+  // 行ける場所が見つからなければ、その場で少し休む
+  if (!target || !path) {
+    return [{ x: from.x, y: from.y, duration: 0, wait: (1000 + random() * 3000) / activity, facing }];
+  }
+
+  // 休む時間（1〜4秒、岩の下では10〜15秒。活発でないときほど長く休む）
+  const wait = (restSpot ? 10000 + random() * 5000 : 1000 + random() * 3000) / activity;
+  const keyframes: Keyframe[] = [];
+  let position = from;
+  path.forEach((point, index) => {
+    facing = getFacingForMove(position, point, facing);
+    const isLast = index === path!.length - 1;
+    keyframes.push({
+      x: point.x,
+      y: point.y,
+      duration: Math.max(MIN_MOVE_MS, (distance(position, point) / speed) * 1000),
+      wait: isLast ? wait : 0,
+      facing,
+      ...(isLast && restSpot ? { restSpot } : {}),
+    });
+    position = point;
+  });
+  return keyframes;
+};
+
+// 何匹かで暮らすときは泳げる範囲を横に区切り、それぞれ自分の持ち場の中だけを泳ぐ（姿が重ならない）
+// 持ち場の外は見えない壁でふさぎ、休み場所は持ち場の中の岩だけにする
+export const getLaneLayout = (layout: RiverLayout, index: number, count: number): RiverLayout => {
+  if (count <= 1) {
+    return layout;
+  }
+
+  const laneWidth = layout.swimArea.width / count;
+  const left = layout.swimArea.left + laneWidth * index;
+  const right = left + laneWidth;
+  // 壁は画面の上下の外まで伸ばし、角を回り込めないようにする
+  const wall = (id: string, wallLeft: number, wallRight: number): Obstacle => ({
+    id,
+    kind: 'lane',
+    rect: { left: wallLeft, bottom: -layout.height, width: wallRight - wallLeft, height: layout.height * 3 },
+  });
+
+  return {
+    ...layout,
+    home: { x: left + laneWidth / 2, y: layout.home.y },
+    swimArea: { ...layout.swimArea, left, width: laneWidth },
+    obstacles: [
+      ...layout.obstacles,
+      wall('lane-left', -layout.width, left),
+      wall('lane-right', right, layout.width * 2),
+    ],
+    restSpots: layout.restSpots.filter((spot) => spot.x >= left && spot.x <= right),
+  };
+};
@@ -0,0 +1,50 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { Reminder, ReminderScheduler } from './reminder';
+
+// Android の通知チャンネル
+const CHANNEL_ID = 'reminder';
+
+const scheduleReminders = async (reminders: Reminder[]): Promise<void> => {
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'お知らせ',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    for (const reminder of reminders) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: reminder.id,
+        content: { title: reminder.title, body: reminder.body },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.date,
+          channelId: CHANNEL_ID,
+        },
+      });
+    }
+  } catch (error) {
+    console.error('Failed to schedule reminders:', error);
+  }
+};
+
+// 端末の予約通知でお知らせを届ける（Web 版は notifications.web.ts）
+export const reminderScheduler: ReminderScheduler = {
+  isSupported: true,
+  requestPermission: async () => {
+    try {
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) {
+        return true;
+      }
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    } catch (error) {
+      console.error('Failed to request notification permission:', error);
+      return false;
+    }
+  },
+  schedule: scheduleReminders,
+};
@@ -0,0 +1,42 @@
+import { Reminder, ReminderScheduler } from './reminder';
+
+// Web 版のお知らせ（Notification API）
+// ブラウザには予約通知がないため、ページを開いている間だけタイマーで届ける
+let timers: ReturnType<typeof setTimeout>[] = [];
+
+const isSupported = typeof window !== 'undefined' && 'Notification' in window;
+
+const showReminder = async (reminder: Reminder): Promise<void> => {
+  const options = { body: reminder.body, tag: reminder.id, icon: '/icon-192.png' };
+  try {
+    // インストールした PWA ではサービスワーカーから出す（Android の Chrome は new Notification が使えない）
+    const registration =
+      'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(reminder.title, options);
+    } else {
+      new Notification(reminder.title, options);
+    }
+  } catch (error) {
+    console.error('Failed to show reminder:', error);
+  }
+};
+
+export const reminderScheduler: ReminderScheduler = {
+  isSupported,
+  requestPermission: async () => {
+    if (!isSupported) {
+      return false;
+    }
+    if (Notification.permission === 'granted') {
+      return true;
+    }
+    return (await Notification.requestPermission()) === 'granted';
+  },
+  schedule: async (reminders) => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers = reminders.map((reminder) =>
+      setTimeout(() => showReminder(reminder), Math.max(0, reminder.date.getTime() - Date.now()))
+    );
+  },
+};
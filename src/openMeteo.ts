@@ -0,0 +1,75 @@
+import { isRecord } from './storage';
+import { Weather, WeatherProvider, estimateTurbidity } from './weather';
+
+// Open-Meteo（API キー不要の天気予報サービス）から天気を取得する
+// 位置情報を外部に送るため、場所を指定したときだけ使う
+export interface OpenMeteoOptions {
+  latitude: number;
+  longitude: number;
+  // テストで差し替えるための fetch
+  fetch?: typeof fetch;
+}
+
+export const OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast';
+
+// 今の天気と過去1日の1時間ごとの雨量を求める URL
+export const buildOpenMeteoUrl = (latitude: number, longitude: number): string => {
+  const params = [
+    `latitude=${latitude.toFixed(2)}`,
+    `longitude=${longitude.toFixed(2)}`,
+    'current=temperature_2m,precipitation',
+    'hourly=precipitation',
+    'past_days=1',
+    'forecast_days=1',
+    'timeformat=unixtime',
+  ];
+  return `${OPEN_METEO_URL}?${params.join('&')}`;
+};
+
+// 応答の中の値を取り出す（オブジェクトでなければ undefined）
+const getField = (value: unknown, key: string): unknown => {
+  return isRecord(value) ? value[key] : undefined;
+};
+
+// 数の配列として取り出す（数でない値は NaN にしておき、合計では飛ばす）
+const getNumbers = (value: unknown): number[] => {
+  return Array.isArray(value) ? value.map((item: unknown) => (typeof item === 'number' ? item : NaN)) : [];
+};
+
+// 応答を天気に変換する（濁りは今より前の24時間の雨量から見積もる）
+export const parseOpenMeteoResponse = (body: unknown, now: Date): Weather => {
+  const current = getField(body, 'current');
+  const temperature = getField(current, 'temperature_2m');
+  const precipitation = getField(current, 'precipitation');
+  if (typeof temperature !== 'number' || typeof precipitation !== 'number') {
+    throw new Error('Open-Meteo の応答に今の天気がありません');
+  }
+
+  const hourly = getField(body, 'hourly');
+  const times = getNumbers(getField(hourly, 'time'));
+  const amounts = getNumbers(getField(hourly, 'precipitation'));
+  const nowSeconds = now.getTime() / 1000;
+  const rainLastDay = times.reduce((sum, time, index) => {
+    const amount = amounts[index];
+    if (isNaN(time) || amount === undefined || isNaN(amount)) return sum;
+    return time <= nowSeconds && time > nowSeconds - 24 * 60 * 60 ? sum + amount : sum;
+  }, 0);
+
+  return {
+    rain: precipitation,
+    temperature,
+    turbidity: estimateTurbidity(rainLastDay),
+  };
+};
+
+// Open-Meteo を使う天気の取得
+export const createOpenMeteoWeatherProvider = (options: OpenMeteoOptions): WeatherProvider => ({
+  getWeather: async (ctx) => {
+    const request = options.fetch ?? fetch;
+    const response = await request(buildOpenMeteoUrl(options.latitude, options.longitude));
+    if (!response.ok) {
+      throw new Error(`Open-Meteo から天気を取得できませんでした: ${response.status}`);
+    }
+    return parseOpenMeteoResponse(await response.json(), ctx.now());
+  },
+});
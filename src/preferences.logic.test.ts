@@ -0,0 +1,31 @@
+import { DEFAULT_PREFERENCES, GENTLE_THRESHOLDS, applyPreferences, shouldReduceMotion } from './preferences';
+import { getThresholds } from './logic';
+import { createSeededContext } from './simulation';
+
+const ctx = createSeededContext(1, '2024-01-10T12:00:00Z');
+
+describe('設定のテスト', () => {
+  test('既定の設定ではコンテキストを変えない', () => {
+    expect(applyPreferences(ctx, DEFAULT_PREFERENCES)).toEqual(ctx);
+  });
+
+  test('やさしいモードでは元気がなくなる・姿が消えるまでの日数が延びる', () => {
+    const gentle = applyPreferences(ctx, { ...DEFAULT_PREFERENCES, gentleMode: true });
+
+    expect(getThresholds(gentle)).toEqual(GENTLE_THRESHOLDS);
+    expect(GENTLE_THRESHOLDS.weakDays).toBeGreaterThan(getThresholds(ctx).weakDays);
+    expect(GENTLE_THRESHOLDS.deadDays).toBeGreaterThan(getThresholds(ctx).deadDays);
+  });
+
+  test('言葉を選ぶとその言語で、端末に合わせるときは元の言語のまま', () => {
+    expect(applyPreferences(ctx, { ...DEFAULT_PREFERENCES, language: 'en' }).locale).toBe('en');
+    expect(applyPreferences({ ...ctx, locale: 'ja' }, DEFAULT_PREFERENCES).locale).toBe('ja');
+  });
+
+  test('動きは端末に合わせるか、選んだ方に従う', () => {
+    expect(shouldReduceMotion(DEFAULT_PREFERENCES, true)).toBe(true);
+    expect(shouldReduceMotion(DEFAULT_PREFERENCES, false)).toBe(false);
+    expect(shouldReduceMotion({ ...DEFAULT_PREFERENCES, motion: 'reduce' }, false)).toBe(true);
+    expect(shouldReduceMotion({ ...DEFAULT_PREFERENCES, motion: 'full' }, true)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { Locale } from './locale';
+import { ConditionThresholds } from './logic';
+import { DEFAULT_REMINDER_SETTINGS, ReminderSettings } from './reminder';
+import { SimulationContext } from './simulation';
+import { DEFAULT_SOUND_SETTINGS, SoundSettings } from './sound';
+
+// 日次ログの言葉（auto: 端末の言語設定に合わせる）
+// お別れの記録とお知らせの文もこの言葉にする。画面のボタンや項目は日本語のまま
+export type LanguagePreference = 'auto' | Locale;
+// 動き（system: 端末の設定に合わせる / reduce: 減らす / full: 減らさない）
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+// ユーザーが選べる設定（川の状態とは別に保存する）
+// gentleMode: やさしいモード（しばらく開けなくても元気がなくなりにくい）
+// 音とお知らせの設定もここにまとめて保存する
+export interface Preferences {
+  gentleMode: boolean;
+  language: LanguagePreference;
+  motion: MotionPreference;
+  sound: SoundSettings;
+  reminder: ReminderSettings;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  gentleMode: false,
+  language: 'auto',
+  motion: 'system',
+  sound: DEFAULT_SOUND_SETTINGS,
+  reminder: DEFAULT_REMINDER_SETTINGS,
+};
+
+export const LANGUAGE_PREFERENCES: LanguagePreference[] = ['auto', 'ja', 'en'];
+export const MOTION_PREFERENCES: MotionPreference[] = ['system', 'reduce', 'full'];
+
+// やさしいモードで元気がなくなる・姿が消えるまでの日数（ふだんは 3日・7日）
+export const GENTLE_THRESHOLDS: ConditionThresholds = {
+  weakDays: 7,
+  deadDays: 21,
+};
+
+// 設定をシミュレーションのコンテキストに反映する（日次ログの言葉と、放置の日数のしきい値）
+export const applyPreferences = (ctx: SimulationContext, preferences: Preferences): SimulationContext => ({
+  ...ctx,
+  ...(preferences.language !== 'auto' ? { locale: preferences.language } : {}),
+  ...(preferences.gentleMode ? { thresholds: GENTLE_THRESHOLDS } : {}),
+});
+
+// 動きを減らすか（端末に合わせるときは端末の設定を使う）
+export const shouldReduceMotion = (preferences: Preferences, systemReduceMotion: boolean): boolean => {
+  if (preferences.motion === 'system') {
+    return systemReduceMotion;
+  }
+  return preferences.motion === 'reduce';
+};
@@ -0,0 +1,136 @@
+import { applyUpdate, getBuildId, getServiceWorkerUrl, registerServiceWorker, watchForUpdate } from './pwa';
+
+// イベントを手で発火できる簡単な偽物
+class FakeTarget {
+  private listeners: Record<string, (() => void)[]> = {};
+
+  addEventListener(type: string, listener: () => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  emit(type: string) {
+    (this.listeners[type] ?? []).forEach((listener) => listener());
+  }
+}
+
+class FakeWorker extends FakeTarget {
+  state = 'installing';
+  postMessage = jest.fn();
+}
+
+class FakeRegistration extends FakeTarget {
+  waiting: FakeWorker | null = null;
+  installing: FakeWorker | null = null;
+}
+
+class FakeContainer extends FakeTarget {
+  controller: FakeWorker | null = null;
+  active = new FakeWorker();
+  registration = new FakeRegistration();
+  register = jest.fn(async () => this.registration);
+  ready = Promise.resolve({ active: this.active });
+}
+
+const asRegistration = (registration: FakeRegistration) => registration as unknown as ServiceWorkerRegistration;
+const asContainer = (container: FakeContainer) => container as unknown as ServiceWorkerContainer;
+
+const BUNDLE = 'https://example.com/_expo/static/js/web/index-3f2a9c.js';
+
+describe('PWA のテスト', () => {
+  describe('getBuildId', () => {
+    test('書き出したバンドルのファイル名を ID にする', () => {
+      expect(getBuildId(['https://example.com/other.js', BUNDLE])).toBe('index-3f2a9c');
+      expect(getBuildId([`${BUNDLE}?v=1`])).toBe('index-3f2a9c');
+    });
+
+    test('開発サーバーのバンドルでは null', () => {
+      expect(getBuildId(['http://localhost:8081/index.bundle?platform=web&dev=true'])).toBeNull();
+      expect(getBuildId([])).toBeNull();
+    });
+  });
+
+  test('ビルドごとに別のサービスワーカーの URL になる', () => {
+    expect(getServiceWorkerUrl('index-3f2a9c')).toBe('/sw.js?build=index-3f2a9c');
+  });
+
+  describe('watchForUpdate', () => {
+    test('すでに待機中の版があれば知らせる', () => {
+      const container = new FakeContainer();
+      container.controller = new FakeWorker();
+      const registration = new FakeRegistration();
+      registration.waiting = new FakeWorker();
+      const onUpdateReady = jest.fn();
+
+      watchForUpdate(asRegistration(registration), asContainer(container), onUpdateReady);
+      expect(onUpdateReady).toHaveBeenCalledTimes(1);
+    });
+
+    test('新しい版のインストールが終わったら知らせる', () => {
+      const container = new FakeContainer();
+      container.controller = new FakeWorker();
+      const registration = new FakeRegistration();
+      const onUpdateReady = jest.fn();
+
+      watchForUpdate(asRegistration(registration), asContainer(container), onUpdateReady);
+      const installing = new FakeWorker();
+      registration.installing = installing;
+      registration.emit('updatefound');
+      expect(onUpdateReady).not.toHaveBeenCalled();
+
+      installing.state = 'installed';
+      installing.emit('statechange');
+      expect(onUpdateReady).toHaveBeenCalledTimes(1);
+    });
+
+    test('初めてのインストールは更新として知らせない', () => {
+      const container = new FakeContainer();
+      const registration = new FakeRegistration();
+      const onUpdateReady = jest.fn();
+
+      watchForUpdate(asRegistration(registration), asContainer(container), onUpdateReady);
+      const installing = new FakeWorker();
+      registration.installing = installing;
+      registration.emit('updatefound');
+      installing.state = 'installed';
+      installing.emit('statechange');
+      expect(onUpdateReady).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('registerServiceWorker', () => {
+    test('ビルドの URL で登録し、画像の保存を頼む', async () => {
+      const container = new FakeContainer();
+      const registration = await registerServiceWorker(asContainer(container), [BUNDLE], {
+        onUpdateReady: jest.fn(),
+        precacheUrls: ['/assets/river.png'],
+      });
+
+      expect(registration).not.toBeNull();
+      expect(container.register).toHaveBeenCalledWith('/sw.js?build=index-3f2a9c');
+      expect(container.active.postMessage).toHaveBeenCalledWith({ type: 'PRECACHE', urls: ['/assets/river.png'] });
+    });
+
+    test('開発サーバーでは登録しない', async () => {
+      const container = new FakeContainer();
+      const registration = await registerServiceWorker(asContainer(container), [], { onUpdateReady: jest.fn() });
+
+      expect(registration).toBeNull();
+      expect(container.register).not.toHaveBeenCalled();
+    });
+  });
+
+  test('applyUpdate は切り替わったときに一度だけ読み込み直す', () => {
+    const container = new FakeContainer();
+    const registration = new FakeRegistration();
+    registration.waiting = new FakeWorker();
+    const reload = jest.fn();
+
+    applyUpdate(asRegistration(registration), asContainer(container), reload);
+    expect(registration.waiting.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+    expect(reload).not.toHaveBeenCalled();
+
+    container.emit('controllerchange');
+    container.emit('controllerchange');
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+});
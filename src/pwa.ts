@@ -0,0 +1,102 @@
+// Web 版をオフラインで使えるようにする（サービスワーカーの登録と更新の通知）
+
+// public/sw.js がビルドのルートに置かれる
+export const SERVICE_WORKER_PATH = '/sw.js';
+
+// サービスワーカーに送るメッセージ（public/sw.js と合わせる）
+export type ServiceWorkerMessage =
+  | { type: 'PRECACHE'; urls: string[] }
+  | { type: 'SKIP_WAITING' };
+
+export interface ServiceWorkerOptions {
+  // 新しい版の準備ができたとき（すぐには切り替えない）
+  onUpdateReady: (registration: ServiceWorkerRegistration) => void;
+  // オフライン用に保存しておく画像などの URL
+  precacheUrls?: string[];
+}
+
+// 書き出したバンドルのファイル名（ハッシュ付き）からビルドを見分ける ID を取り出す
+// 開発サーバーのバンドルには当てはまらないので null になる
+export const getBuildId = (scriptSources: string[]): string | null => {
+  const bundle = scriptSources.find((src) => src.includes('/_expo/static/js/'));
+  if (!bundle) {
+    return null;
+  }
+  const fileName = bundle.split('?')[0].split('/').pop();
+  return fileName ? fileName.replace(/\.js$/, '') : null;
+};
+
+// ビルドごとに別の URL にして、新しいビルドを出したときにサービスワーカーが更新されるようにする
+export const getServiceWorkerUrl = (buildId: string): string =>
+  `${SERVICE_WORKER_PATH}?build=${encodeURIComponent(buildId)}`;
+
+// 新しい版が待機中になったら知らせる
+export const watchForUpdate = (
+  registration: ServiceWorkerRegistration,
+  container: ServiceWorkerContainer,
+  onUpdateReady: (registration: ServiceWorkerRegistration) => void
+): void => {
+  if (registration.waiting && container.controller) {
+    onUpdateReady(registration);
+    return;
+  }
+
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    if (!installing) return;
+
+    installing.addEventListener('statechange', () => {
+      // 初めてのインストール（まだ制御しているものがない）は更新ではない
+      if (installing.state === 'installed' && container.controller) {
+        onUpdateReady(registration);
+      }
+    });
+  });
+};
+
+// サービスワーカーを登録する（書き出したビルドのときだけ）
+export const registerServiceWorker = async (
+  container: ServiceWorkerContainer,
+  scriptSources: string[],
+  options: ServiceWorkerOptions
+): Promise<ServiceWorkerRegistration | null> => {
+  const buildId = getBuildId(scriptSources);
+  if (!buildId) {
+    return null;
+  }
+
+  try {
+    const registration = await container.register(getServiceWorkerUrl(buildId));
+    watchForUpdate(registration, container, options.onUpdateReady);
+
+    if (options.precacheUrls && options.precacheUrls.length > 0) {
+      const ready = await container.ready;
+      const message: ServiceWorkerMessage = { type: 'PRECACHE', urls: options.precacheUrls };
+      ready.active?.postMessage(message);
+    }
+    return registration;
+  } catch (error) {
+    console.error('Failed to register service worker:', error);
+    return null;
+  }
+};
+
+// 待機中の新しい版に切り替えて読み込み直す（ユーザーが選んだときだけ）
+export const applyUpdate = (
+  registration: ServiceWorkerRegistration,
+  container: ServiceWorkerContainer,
+  reload: () => void
+): void => {
+  const waiting = registration.waiting;
+  if (!waiting) return;
+
+  let reloaded = false;
+  container.addEventListener('controllerchange', () => {
+    if (reloaded) return;
+    reloaded = true;
+    reload();
+  });
+
+  const message: ServiceWorkerMessage = { type: 'SKIP_WAITING' };
+  waiting.postMessage(message);
+};
@@ -0,0 +1,102 @@
+import { AppState, DEFAULT_THRESHOLDS } from './logic';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  getReminderMessageId,
+  planReminders,
+  planRosterReminders,
+} from './reminder';
+import { createSeededContext } from './simulation';
+
+const state: AppState = {
+  startDate: '2024-01-01',
+  lastVisitDate: '2024-01-10',
+  lastGrowthDate: '2024-01-10',
+  sizeFactor: 1.01,
+  condition: 'healthy',
+  latestLog: 'テスト',
+};
+
+const enabled = { ...DEFAULT_REMINDER_SETTINGS, enabled: true };
+
+describe('お知らせのテスト', () => {
+  test('既定ではお知らせしない', () => {
+    const ctx = createSeededContext(1, '2024-01-10T12:00:00Z', 'Asia/Tokyo');
+    expect(DEFAULT_REMINDER_SETTINGS.enabled).toBe(false);
+    expect(planReminders(state, DEFAULT_REMINDER_SETTINGS, ctx)).toEqual([]);
+  });
+
+  test('訪れた翌日から姿が消える前日まで、設定した時刻に予約する', () => {
+    const ctx = createSeededContext(1, '2024-01-10T12:00:00Z', 'Asia/Tokyo');
+    const reminders = planReminders(state, { enabled: true, hour: 20, minute: 30 }, ctx);
+
+    expect(reminders).toHaveLength(DEFAULT_THRESHOLDS.deadDays - 1);
+    expect(reminders[0].id).toBe('reminder-2024-01-11');
+    expect(reminders[0].date.toISOString()).toBe('2024-01-11T11:30:00.000Z');
+    expect(reminders[reminders.length - 1].id).toBe('reminder-2024-01-16');
+  });
+
+  test('すでに過ぎた時刻は予約しない', () => {
+    // 訪れたのは2日前、いまは 1/12 の 21 時（東京）
+    const ctx = createSeededContext(1, '2024-01-12T12:00:00Z', 'Asia/Tokyo');
+    const reminders = planReminders(state, enabled, ctx);
+
+    expect(reminders[0].id).toBe('reminder-2024-01-13');
+    expect(reminders).toHaveLength(DEFAULT_THRESHOLDS.deadDays - 3);
+  });
+
+  test('姿が消えたあとはお知らせしない', () => {
+    const ctx = createSeededContext(1, '2024-01-10T12:00:00Z', 'Asia/Tokyo');
+    expect(planReminders({ ...state, condition: 'dead' }, enabled, ctx)).toEqual([]);
+  });
+
+  test('文言は間があくほど穏やかなものに変わる', () => {
+    expect(getReminderMessageId(1)).toBe('reminder.nextDay');
+    expect(getReminderMessageId(2)).toBe('reminder.fewDays');
+    expect(getReminderMessageId(3)).toBe('reminder.longer');
+    expect(getReminderMessageId(6)).toBe('reminder.longer');
+  });
+
+  test('しきい値が延びると、姿が消える前日までお知らせの日数も延びる', () => {
+    const ctx = { ...createSeededContext(1, '2024-01-10T00:00:00Z'), thresholds: { weakDays: 7, deadDays: 21 } };
+    const reminders = planReminders(state, enabled, ctx);
+
+    expect(reminders).toHaveLength(20);
+    expect(reminders[reminders.length - 1].id).toBe('reminder-2024-01-30');
+    expect(getReminderMessageId(6, ctx.thresholds)).toBe('reminder.fewDays');
+  });
+
+  test('コンテキストの言語で文言を作る', () => {
+    const ja = planReminders(state, enabled, createSeededContext(1, '2024-01-10T00:00:00Z'));
+    const en = planReminders(state, enabled, { ...createSeededContext(1, '2024-01-10T00:00:00Z'), locale: 'en' });
+
+    expect(ja[0].title).toBe('オオサンショウウオの川');
+    expect(ja[0].body).toBe('川は今日も静かに流れています。');
+    expect(en[0].body).toBe('The river is flowing quietly today.');
+  });
+
+  test('何匹いても、いちばん長く訪れていない子に合わせて1度に並べる', () => {
+    const ctx = createSeededContext(1, '2024-01-12T00:00:00Z', 'Asia/Tokyo');
+    const visitedToday = { ...state, lastVisitDate: '2024-01-12' };
+    const reminders = planRosterReminders([visitedToday, state], enabled, ctx);
+
+    expect(reminders).toEqual(planReminders(state, enabled, ctx));
+    expect(planRosterReminders([state, visitedToday], enabled, ctx)).toEqual(reminders);
+  });
+
+  test('姿が消えた子は数えず、みんな消えたらお知らせしない', () => {
+    const ctx = createSeededContext(1, '2024-01-12T00:00:00Z', 'Asia/Tokyo');
+    const gone = { ...state, lastVisitDate: '2024-01-01', condition: 'dead' as const };
+    const visitedToday = { ...state, lastVisitDate: '2024-01-12' };
+
+    expect(planRosterReminders([gone, visitedToday], enabled, ctx)).toEqual(planReminders(visitedToday, enabled, ctx));
+    expect(planRosterReminders([gone], enabled, ctx)).toEqual([]);
+    expect(planRosterReminders([], enabled, ctx)).toEqual([]);
+  });
+
+  test('責める表現を使わない', () => {
+    const reminders = planReminders(state, enabled, createSeededContext(1, '2024-01-10T00:00:00Z'));
+    reminders.forEach((reminder) => {
+      expect(reminder.body).not.toMatch(/弱|消え|死|早く|忘れ/);
+    });
+  });
+});
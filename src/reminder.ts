@@ -0,0 +1,93 @@
+import { addDays, fromLocalTime } from './calendar';
+import { DEFAULT_LOCALE } from './locale';
+import { AppState, ConditionThresholds, DEFAULT_THRESHOLDS, getThresholds } from './logic';
+import { getMessageText } from './messages';
+import { SimulationContext, systemContext } from './simulation';
+
+// お知らせの設定（既定はオフ。ユーザーが選んだときだけ届ける）
+export interface ReminderSettings {
+  enabled: boolean;
+  // お知らせする時刻（ユーザーのタイムゾーン）
+  hour: number;
+  minute: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  hour: 20,
+  minute: 0,
+};
+
+// 予約するお知らせの1件
+export interface Reminder {
+  id: string;
+  date: Date;
+  title: string;
+  body: string;
+}
+
+// お知らせを届ける仕組み（端末の予約通知、Web 版は Notification API）
+// schedule は前に予約したものをすべて取り消してから予約し直す
+export interface ReminderScheduler {
+  isSupported: boolean;
+  requestPermission: () => Promise<boolean>;
+  schedule: (reminders: Reminder[]) => Promise<void>;
+}
+
+// 訪れていない日数に合わせた文言（責めたり急かしたりしない）
+export const getReminderMessageId = (
+  daysSinceVisit: number,
+  thresholds: ConditionThresholds = DEFAULT_THRESHOLDS
+): string => {
+  if (daysSinceVisit <= 1) return 'reminder.nextDay';
+  if (daysSinceVisit < thresholds.weakDays) return 'reminder.fewDays';
+  return 'reminder.longer';
+};
+
+// 最後に訪れた日をもとに、これから届けるお知らせを並べる
+// 訪れた日の当日には届けず、翌日から姿が消える前日までを予約する
+// 姿が消えるまでの日数はコンテキストのしきい値に従う（やさしいモードではそのぶん先まで予約する）
+export const planReminders = (
+  state: AppState,
+  settings: ReminderSettings,
+  ctx: SimulationContext = systemContext
+): Reminder[] => {
+  if (!settings.enabled || state.condition === 'dead') {
+    return [];
+  }
+
+  const locale = ctx.locale ?? DEFAULT_LOCALE;
+  const thresholds = getThresholds(ctx);
+  const now = ctx.now().getTime();
+  const reminders: Reminder[] = [];
+  for (let days = 1; days < thresholds.deadDays; days++) {
+    const dateKey = addDays(state.lastVisitDate, days);
+    const date = fromLocalTime(dateKey, settings.hour, settings.minute, ctx.timeZone);
+    if (date.getTime() <= now) {
+      continue;
+    }
+    reminders.push({
+      id: `reminder-${dateKey}`,
+      date,
+      title: getMessageText('reminder.title', locale),
+      body: getMessageText(getReminderMessageId(days, thresholds), locale),
+    });
+  }
+  return reminders;
+};
+
+// 川に暮らす子たち全員をもとに、これから届けるお知らせを並べる
+// 子ごとに予約し直すと最後に保存した子の分しか残らないので、いちばん長く訪れていない子に合わせて1度だけ並べる
+export const planRosterReminders = (
+  states: AppState[],
+  settings: ReminderSettings,
+  ctx: SimulationContext = systemContext
+): Reminder[] => {
+  const living = states.filter((state) => state.condition !== 'dead');
+  if (living.length === 0) {
+    return [];
+  }
+
+  const earliest = living.reduce((a, b) => (b.lastVisitDate < a.lastVisitDate ? b : a));
+  return planReminders(earliest, settings, ctx);
+};
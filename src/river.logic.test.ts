@@ -0,0 +1,52 @@
+import {
+  DEFAULT_ROSTER,
+  MAX_RESIDENTS,
+  PRIMARY_RESIDENT_ID,
+  addToRoster,
+  canAddResident,
+  createResidentId,
+  focusResident,
+  getResidentLabel,
+} from './river';
+import { createSeededContext } from './simulation';
+import { createTestState } from './testFixtures';
+
+const state = createTestState();
+
+describe('川に暮らす子たちのテスト', () => {
+  test('はじめは最初の子だけが暮らしている', () => {
+    expect(DEFAULT_ROSTER).toEqual({ residentIds: [PRIMARY_RESIDENT_ID], focusedId: PRIMARY_RESIDENT_ID });
+  });
+
+  test('迎えた子は並びの最後に加わり、その子を見る', () => {
+    const roster = addToRoster(DEFAULT_ROSTER, 'r1');
+    expect(roster).toEqual({ residentIds: [PRIMARY_RESIDENT_ID, 'r1'], focusedId: 'r1' });
+    expect(() => addToRoster(roster, 'r1')).toThrow();
+  });
+
+  test(`一緒に暮らせるのは ${MAX_RESIDENTS} 匹まで`, () => {
+    let roster = DEFAULT_ROSTER;
+    for (let i = 1; i < MAX_RESIDENTS; i++) {
+      roster = addToRoster(roster, `r${i}`);
+    }
+    expect(canAddResident(roster)).toBe(false);
+    expect(() => addToRoster(roster, 'rx')).toThrow();
+  });
+
+  test('川にいる子だけを選べる', () => {
+    const roster = addToRoster(DEFAULT_ROSTER, 'r1');
+    expect(focusResident(roster, PRIMARY_RESIDENT_ID).focusedId).toBe(PRIMARY_RESIDENT_ID);
+    expect(focusResident(roster, 'unknown')).toBe(roster);
+  });
+
+  test('id は保存のキーに使える文字だけでできている', () => {
+    const ctx = createSeededContext(1, '2024-06-20T12:00:00Z');
+    expect(createResidentId(ctx)).toMatch(/^[a-z0-9]+$/);
+    expect(createResidentId(ctx)).not.toBe(createResidentId(ctx));
+  });
+
+  test('名前がなければ迎えた順で呼ぶ', () => {
+    expect(getResidentLabel(state, 1)).toBe('2匹目');
+    expect(getResidentLabel({ ...state, name: 'ハンザキ' }, 1)).toBe('ハンザキ');
+  });
+});
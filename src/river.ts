@@ -0,0 +1,51 @@
+import { JournalEntry } from './journal';
+import { AppState } from './logic';
+import { SimulationContext } from './simulation';
+
+// 川に暮らす1匹（保存の場所を分けるための id と、その子の状態・日記）
+export interface Resident {
+  id: string;
+  state: AppState;
+  journal: JournalEntry[];
+}
+
+// 川に暮らす子の並び（迎えた順）と、いま見ている子
+export interface Roster {
+  residentIds: string[];
+  focusedId: string;
+}
+
+// 最初の子の id（1匹だけだった頃の保存データをそのまま使う）
+export const PRIMARY_RESIDENT_ID = 'main';
+// 一緒に暮らせる数
+export const MAX_RESIDENTS = 3;
+
+export const DEFAULT_ROSTER: Roster = {
+  residentIds: [PRIMARY_RESIDENT_ID],
+  focusedId: PRIMARY_RESIDENT_ID,
+};
+
+// 新しく迎える子の id（英小文字と数字のみ。保存のキーに使う）
+export const createResidentId = (ctx: SimulationContext): string =>
+  `r${ctx.now().getTime().toString(36)}${Math.floor(ctx.random() * 36 ** 4).toString(36)}`;
+
+// まだ迎えられるか
+export const canAddResident = (roster: Roster): boolean => roster.residentIds.length < MAX_RESIDENTS;
+
+// 新しい子を並びの最後に加え、その子を見る
+export const addToRoster = (roster: Roster, id: string): Roster => {
+  if (!canAddResident(roster)) {
+    throw new Error(`一緒に暮らせるのは ${MAX_RESIDENTS} 匹までです`);
+  }
+  if (roster.residentIds.includes(id)) {
+    throw new Error(`${id} はすでに川にいます`);
+  }
+  return { residentIds: [...roster.residentIds, id], focusedId: id };
+};
+
+// 見る子を選ぶ（川にいない子なら変えない）
+export const focusResident = (roster: Roster, id: string): Roster =>
+  roster.residentIds.includes(id) ? { ...roster, focusedId: id } : roster;
+
+// 選ぶときの呼び名（名前がなければ迎えた順）
+export const getResidentLabel = (state: AppState, index: number): string => state.name ?? `${index + 1}匹目`;
@@ -0,0 +1,57 @@
+import { getRiverEvent, getSeason, getSeasonalScene } from './season';
+
+describe('季節のテスト', () => {
+  test('月から季節を判定する', () => {
+    expect(getSeason('2024-03-01')).toBe('spring');
+    expect(getSeason('2024-07-15')).toBe('summer');
+    expect(getSeason('2024-10-10')).toBe('autumn');
+    expect(getSeason('2024-12-31')).toBe('winter');
+    expect(getSeason('2024-02-29')).toBe('winter');
+  });
+
+  describe('getRiverEvent', () => {
+    test('暦に沿った出来事を返す', () => {
+      expect(getRiverEvent('2024-04-20')).toBe('spawningMigration');
+      expect(getRiverEvent('2024-06-20')).toBe('highWater');
+      expect(getRiverEvent('2024-08-10')).toBe('midsummer');
+      expect(getRiverEvent('2024-11-03')).toBe('autumnLeaves');
+    });
+
+    test('年をまたぐ期間も判定できる', () => {
+      expect(getRiverEvent('2024-12-20')).toBe('winterDormancy');
+      expect(getRiverEvent('2025-01-10')).toBe('winterDormancy');
+      expect(getRiverEvent('2024-02-29')).toBe('winterDormancy');
+    });
+
+    test('出来事のない日は null', () => {
+      expect(getRiverEvent('2024-03-10')).toBeNull();
+      expect(getRiverEvent('2024-09-20')).toBeNull();
+      expect(getRiverEvent('2024-12-01')).toBeNull();
+    });
+  });
+
+  describe('getSeasonalScene', () => {
+    test('出来事があればその様子になる', () => {
+      const scene = getSeasonalScene('2024-06-20');
+
+      expect(scene.id).toBe('highWater');
+      expect(scene.season).toBe('summer');
+      expect(scene.swaySpeed).toBeGreaterThan(1);
+    });
+
+    test('冬眠の時期は動きが少ない', () => {
+      const dormant = getSeasonalScene('2025-01-10');
+      const spring = getSeasonalScene('2024-03-10');
+
+      expect(dormant.activity).toBeLessThan(spring.activity);
+      expect(dormant.swaySpeed).toBeLessThan(spring.swaySpeed);
+    });
+
+    test('出来事がなければ季節の様子になる', () => {
+      const scene = getSeasonalScene('2024-09-20');
+
+      expect(scene.id).toBe('autumn');
+      expect(scene.event).toBeNull();
+    });
+  });
+});
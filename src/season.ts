@@ -0,0 +1,72 @@
+// 季節
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+// 暦に沿った川の出来事
+// spawningMigration: 春の遡上 / highWater: 梅雨の増水 / midsummer: 真夏
+// autumnLeaves: 紅葉の季節 / winterDormancy: 冬眠のようにじっと過ごす時期
+export type RiverEvent = 'spawningMigration' | 'highWater' | 'midsummer' | 'autumnLeaves' | 'winterDormancy';
+
+// 季節ごとの川の様子
+// tint: 背景に重ねる色 / swaySpeed: 水草の揺れの速さ / activity: うろうろの活発さ
+export interface SeasonalScene {
+  id: Season | RiverEvent;
+  season: Season;
+  event: RiverEvent | null;
+  tint: string;
+  swaySpeed: number;
+  activity: number;
+}
+
+// 出来事の期間（月日 MM-DD、両端を含む。年をまたぐ期間は start > end）
+export const RIVER_EVENT_PERIODS: { event: RiverEvent; start: string; end: string }[] = [
+  { event: 'spawningMigration', start: '04-01', end: '05-31' },
+  { event: 'highWater', start: '06-05', end: '07-20' },
+  { event: 'midsummer', start: '07-21', end: '08-31' },
+  { event: 'autumnLeaves', start: '10-15', end: '11-30' },
+  { event: 'winterDormancy', start: '12-15', end: '02-29' },
+];
+
+const SEASON_SCENES: Record<Season, Omit<SeasonalScene, 'id' | 'season' | 'event'>> = {
+  spring: { tint: 'rgba(180, 220, 170, 0.12)', swaySpeed: 1.0, activity: 1.0 },
+  summer: { tint: 'rgba(120, 200, 210, 0.1)', swaySpeed: 1.1, activity: 1.0 },
+  autumn: { tint: 'rgba(210, 150, 80, 0.12)', swaySpeed: 0.9, activity: 0.9 },
+  winter: { tint: 'rgba(200, 215, 235, 0.18)', swaySpeed: 0.7, activity: 0.7 },
+};
+
+const EVENT_SCENES: Record<RiverEvent, Omit<SeasonalScene, 'id' | 'season' | 'event'>> = {
+  spawningMigration: { tint: 'rgba(170, 225, 160, 0.15)', swaySpeed: 1.1, activity: 1.3 },
+  highWater: { tint: 'rgba(140, 120, 80, 0.25)', swaySpeed: 1.6, activity: 0.8 },
+  midsummer: { tint: 'rgba(110, 210, 220, 0.12)', swaySpeed: 1.0, activity: 0.9 },
+  autumnLeaves: { tint: 'rgba(220, 120, 60, 0.18)', swaySpeed: 0.9, activity: 0.9 },
+  winterDormancy: { tint: 'rgba(210, 225, 240, 0.25)', swaySpeed: 0.5, activity: 0.4 },
+};
+
+// 暦日（YYYY-MM-DD）から季節を判定
+export const getSeason = (dateKey: string): Season => {
+  const month = Number(dateKey.slice(5, 7));
+  if (month >= 3 && month <= 5) return 'spring';
+  if (month >= 6 && month <= 8) return 'summer';
+  if (month >= 9 && month <= 11) return 'autumn';
+  return 'winter';
+};
+
+// 暦日にあたる川の出来事（なければ null）
+export const getRiverEvent = (dateKey: string): RiverEvent | null => {
+  const monthDay = dateKey.slice(5, 10);
+  const period = RIVER_EVENT_PERIODS.find(({ start, end }) =>
+    start <= end ? monthDay >= start && monthDay <= end : monthDay >= start || monthDay <= end
+  );
+  return period ? period.event : null;
+};
+
+// 暦日の川の様子（出来事があればそちらを優先）
+export const getSeasonalScene = (dateKey: string): SeasonalScene => {
+  const season = getSeason(dateKey);
+  const event = getRiverEvent(dateKey);
+  return {
+    id: event ?? season,
+    season,
+    event,
+    ...(event ? EVENT_SCENES[event] : SEASON_SCENES[season]),
+  };
+};
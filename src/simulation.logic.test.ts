@@ -0,0 +1,90 @@
+import {
+  createSeededContext,
+  createSeededRandom,
+  getDayRandom,
+  hashSeed,
+  systemContext,
+} from './simulation';
+
+describe('シミュレーションコンテキストのテスト', () => {
+  describe('createSeededRandom', () => {
+    test('同じシードからは同じ乱数列が得られる', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+      const seqA = [a(), a(), a(), a()];
+      const seqB = [b(), b(), b(), b()];
+
+      expect(seqA).toEqual(seqB);
+    });
+
+    test('異なるシードからは異なる乱数列が得られる', () => {
+      const a = createSeededRandom(1);
+      const b = createSeededRandom(2);
+
+      expect(a()).not.toBe(b());
+    });
+
+    test('乱数は 0 以上 1 未満に収まる', () => {
+      const random = createSeededRandom(123);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('hashSeed', () => {
+    test('同じ文字列は同じシード値になる', () => {
+      expect(hashSeed('2024-01-01')).toBe(hashSeed('2024-01-01'));
+      expect(hashSeed('2024-01-01')).not.toBe(hashSeed('2024-01-02'));
+    });
+  });
+
+  describe('createSeededContext', () => {
+    test('時計は指定した時刻で固定される', () => {
+      const ctx = createSeededContext(7, '2024-03-10T12:00:00Z');
+
+      expect(ctx.now().toISOString()).toBe('2024-03-10T12:00:00.000Z');
+      expect(ctx.now().toISOString()).toBe('2024-03-10T12:00:00.000Z');
+    });
+
+    test('シードと日付が同じなら乱数列も同じ', () => {
+      const a = createSeededContext(7, '2024-03-10T08:00:00Z');
+      const b = createSeededContext(7, '2024-03-10T20:00:00Z');
+
+      expect([a.random(), a.random()]).toEqual([b.random(), b.random()]);
+    });
+
+    test('日付が変わると乱数列も変わる', () => {
+      const a = createSeededContext(7, '2024-03-10T12:00:00Z');
+      const b = createSeededContext(7, '2024-03-11T12:00:00Z');
+
+      expect(a.random()).not.toBe(b.random());
+    });
+  });
+
+  describe('getDayRandom', () => {
+    test('シード付きならその日のコンテキストと同じ乱数列になる', () => {
+      const today = createSeededContext(7, '2024-03-12T12:00:00Z');
+      const pastDay = createSeededContext(7, '2024-03-10T12:00:00Z');
+      const random = getDayRandom(today, '2024-03-10');
+
+      expect([random(), random()]).toEqual([pastDay.random(), pastDay.random()]);
+    });
+
+    test('シードがなければコンテキストの乱数をそのまま使う', () => {
+      expect(getDayRandom(systemContext, '2024-03-10')).toBe(systemContext.random);
+    });
+  });
+
+  describe('systemContext', () => {
+    test('現在時刻を返す', () => {
+      const before = Date.now();
+      const now = systemContext.now().getTime();
+
+      expect(now).toBeGreaterThanOrEqual(before);
+      expect(now).toBeLessThanOrEqual(Date.now());
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { getDeviceTimeZone, toDateKey } from './calendar';
+import { Locale, getDeviceLocale } from './locale';
+import type { ConditionThresholds } from './logic';
+import type { Weather } from './weather';
+
+// シミュレーションの実行環境（時計・乱数・タイムゾーン）
+// ロジック関数はすべてこのコンテキスト経由で「今」と乱数を取得する
+export interface SimulationContext {
+  now: () => Date;
+  random: () => number;
+  // 日付の境界を判定するタイムゾーン（IANA 名）
+  timeZone: string;
+  // シード付きコンテキストのシード値（日ごとの乱数列の再現に使う）
+  seed?: number;
+  // 日次ログの言語（省略時は日本語）
+  locale?: Locale;
+  // 今の川のまわりの天気（取得できなかったときは省略）
+  weather?: Weather;
+  // 元気がなくなる・姿が消えるまでの日数（省略時は 3日・7日。やさしいモードでは長くなる）
+  thresholds?: ConditionThresholds;
+}
+
+// 実際の時計と Math.random を使うコンテキストを生成
+// タイムゾーンを省略した場合は端末の設定に従う
+export const createSystemContext = (timeZone: string = getDeviceTimeZone()): SimulationContext => ({
+  now: () => new Date(),
+  random: () => Math.random(),
+  timeZone,
+});
+
+export const systemContext: SimulationContext = createSystemContext();
+
+// 端末の言語設定も反映したコンテキストを生成（アプリ本体で使う）
+export const createDeviceContext = (): SimulationContext => ({
+  ...createSystemContext(),
+  locale: getDeviceLocale(),
+});
+
+// 文字列を 32bit のシード値に変換（FNV-1a）
+export const hashSeed = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// シード付き乱数生成器（mulberry32）
+// 同じシードからは常に同じ乱数列が得られる
+export const createSeededRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 固定した時刻とシードからコンテキストを生成
+// 乱数列はシードと日付の組み合わせで決まるため、同じ日の結果を完全に再現できる
+export const createSeededContext = (
+  seed: number,
+  date: Date | string,
+  timeZone: string = 'UTC'
+): SimulationContext => {
+  const fixed = typeof date === 'string' ? new Date(date) : new Date(date.getTime());
+  const daySeed = hashSeed(`${seed}:${toDateKey(fixed, timeZone)}`);
+  return {
+    now: () => new Date(fixed.getTime()),
+    random: createSeededRandom(daySeed),
+    timeZone,
+    seed,
+  };
+};
+
+// 指定した日の乱数を取得
+// シード付きなら、その日に createSeededContext した場合と同じ乱数列になる
+export const getDayRandom = (ctx: SimulationContext, dateKey: string): (() => number) => {
+  if (ctx.seed === undefined) {
+    return ctx.random;
+  }
+  return createSeededRandom(hashSeed(`${ctx.seed}:${dateKey}`));
+};
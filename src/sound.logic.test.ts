@@ -0,0 +1,69 @@
+import {
+  DEFAULT_SOUND_SETTINGS,
+  MOVE_SPLASH_CHANCE,
+  getAmbientMix,
+  getMoveSplash,
+  getReactionSplash,
+} from './sound';
+import { Keyframe } from './movement';
+
+const clear = { rain: 0, temperature: 20, turbidity: 0 };
+const muted = { ...DEFAULT_SOUND_SETTINGS, muted: true };
+const move: Keyframe = { x: 100, y: 100, duration: 1000, wait: 2000, facing: 1 };
+
+describe('川の音のテスト', () => {
+  describe('環境音', () => {
+    test('晴れた昼はせせらぎだけが聞こえる', () => {
+      const mix = getAmbientMix(clear, 'day', DEFAULT_SOUND_SETTINGS);
+      expect(mix.river).toBeGreaterThan(0);
+      expect(mix.rain).toBe(0);
+    });
+
+    test('夜はせせらぎが静かになる', () => {
+      expect(getAmbientMix(clear, 'night', DEFAULT_SOUND_SETTINGS).river).toBeLessThan(
+        getAmbientMix(clear, 'day', DEFAULT_SOUND_SETTINGS).river
+      );
+    });
+
+    test('雨の日は雨音が加わり、強い雨ほど川の音も大きくなる', () => {
+      const rain = getAmbientMix({ ...clear, rain: 2 }, 'day', DEFAULT_SOUND_SETTINGS);
+      const heavy = getAmbientMix({ ...clear, rain: 20 }, 'day', DEFAULT_SOUND_SETTINGS);
+      const calm = getAmbientMix(clear, 'day', DEFAULT_SOUND_SETTINGS);
+
+      expect(rain.rain).toBeGreaterThan(0);
+      expect(heavy.rain).toBeGreaterThan(rain.rain);
+      expect(heavy.river).toBeGreaterThan(rain.river);
+      expect(rain.river).toBeGreaterThan(calm.river);
+    });
+
+    test('天気がわからなくても鳴らせる', () => {
+      expect(getAmbientMix(null, 'day', DEFAULT_SOUND_SETTINGS)).toEqual(
+        getAmbientMix(clear, 'day', DEFAULT_SOUND_SETTINGS)
+      );
+    });
+
+    test('音量に合わせて小さくなり、消しているときは鳴らさない', () => {
+      const loud = getAmbientMix(clear, 'day', { muted: false, volume: 1 });
+      const quiet = getAmbientMix(clear, 'day', { muted: false, volume: 0.2 });
+      expect(quiet.river).toBeCloseTo(loud.river * 0.2);
+      expect(getAmbientMix({ ...clear, rain: 20 }, 'day', muted)).toEqual({ river: 0, rain: 0 });
+    });
+  });
+
+  describe('水しぶき', () => {
+    test('反応したときだけ鳴り、驚いたときはいちばん大きい', () => {
+      expect(getReactionSplash('none', DEFAULT_SOUND_SETTINGS)).toBe(0);
+      expect(getReactionSplash('startle', DEFAULT_SOUND_SETTINGS)).toBeGreaterThan(
+        getReactionSplash('pulse', DEFAULT_SOUND_SETTINGS)
+      );
+      expect(getReactionSplash('startle', muted)).toBe(0);
+    });
+
+    test('うろうろの動き出しにはときどき、岩の下にもぐるときは必ず鳴る', () => {
+      expect(getMoveSplash(move, DEFAULT_SOUND_SETTINGS, () => MOVE_SPLASH_CHANCE)).toBe(0);
+      expect(getMoveSplash(move, DEFAULT_SOUND_SETTINGS, () => 0)).toBeGreaterThan(0);
+      expect(getMoveSplash({ ...move, restSpot: 'rock1' }, DEFAULT_SOUND_SETTINGS, () => 0.99)).toBeGreaterThan(0);
+      expect(getMoveSplash({ ...move, restSpot: 'rock1' }, muted, () => 0)).toBe(0);
+    });
+  });
+});
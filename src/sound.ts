@@ -0,0 +1,80 @@
+import type { Reaction } from './interaction';
+import type { Keyframe } from './movement';
+import { TimeOfDay } from './timeOfDay';
+import { Weather, getWeatherTags } from './weather';
+
+// 音の設定（音量は 0〜1。消しているあいだも音量は覚えておく）
+export interface SoundSettings {
+  muted: boolean;
+  volume: number;
+}
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  muted: false,
+  volume: 0.6,
+};
+
+// 選べる音量
+export const VOLUME_STEPS = [0.2, 0.4, 0.6, 0.8, 1];
+
+// 鳴らし続ける環境音（川のせせらぎと雨音）
+export type AmbientChannel = 'river' | 'rain';
+export type AmbientMix = Record<AmbientChannel, number>;
+
+// 水音を鳴らす仕組み（Web 版は Web Audio API、端末版は expo-audio）
+// ブラウザは画面に触れるまで音を鳴らせないため、unlock はユーザーが触れたときに呼ぶ
+// unlock の前に setAmbient した音量は覚えておき、鳴らせるようになったときに使う
+export interface SoundEngine {
+  isSupported: boolean;
+  unlock: () => Promise<boolean>;
+  setAmbient: (mix: AmbientMix) => void;
+  playSplash: (volume: number) => void;
+  stop: () => void;
+}
+
+// 川の音の大きさ（夜は静かに、雨で水かさが増えると大きくなる）
+const RIVER_BASE = 0.5;
+const TIME_OF_DAY_RIVER: Record<TimeOfDay, number> = { dawn: 0.8, day: 1, dusk: 0.8, night: 0.6 };
+const RAIN_RIVER_BOOST = 1.2;
+const HEAVY_RAIN_RIVER_BOOST = 1.5;
+// 雨音の大きさ
+const RAIN_LEVEL = 0.3;
+const HEAVY_RAIN_LEVEL = 0.6;
+// タップへの反応に合わせた水しぶきの大きさ（驚いたときは大きく）
+const REACTION_SPLASHES: Record<Reaction, number> = { none: 0, pulse: 0.3, turn: 0.2, startle: 0.7 };
+// うろうろの動き出しに水音を鳴らす確率と大きさ（岩の下にもぐるときは必ず鳴らす）
+export const MOVE_SPLASH_CHANCE = 0.2;
+const MOVE_SPLASH = 0.1;
+const DIVE_SPLASH = 0.25;
+
+// 実際の音量（消しているときは 0）
+export const getEffectiveVolume = (settings: SoundSettings): number => (settings.muted ? 0 : settings.volume);
+
+// 天気と時間帯に合わせた環境音の音量
+export const getAmbientMix = (weather: Weather | null, timeOfDay: TimeOfDay, settings: SoundSettings): AmbientMix => {
+  const volume = getEffectiveVolume(settings);
+  const tags = weather ? getWeatherTags(weather) : [];
+  const heavy = tags.includes('heavyRain');
+  const raining = tags.includes('rain');
+  const riverBoost = heavy ? HEAVY_RAIN_RIVER_BOOST : raining ? RAIN_RIVER_BOOST : 1;
+  return {
+    river: Math.min(1, RIVER_BASE * TIME_OF_DAY_RIVER[timeOfDay] * riverBoost * volume),
+    rain: (heavy ? HEAVY_RAIN_LEVEL : raining ? RAIN_LEVEL : 0) * volume,
+  };
+};
+
+// タップへの反応に合わせた水しぶきの音量（反応しなければ鳴らさない）
+export const getReactionSplash = (reaction: Reaction, settings: SoundSettings): number =>
+  REACTION_SPLASHES[reaction] * getEffectiveVolume(settings);
+
+// うろうろの1区切りの動き出しに鳴らす水音の音量（鳴らさないときは 0）
+export const getMoveSplash = (keyframe: Keyframe, settings: SoundSettings, random: () => number): number => {
+  const volume = getEffectiveVolume(settings);
+  if (volume === 0) {
+    return 0;
+  }
+  if (keyframe.restSpot) {
+    return DIVE_SPLASH * volume;
+  }
+  return random() < MOVE_SPLASH_CHANCE ? MOVE_SPLASH * volume : 0;
+};
@@ -0,0 +1,18 @@
+import { ImageSourcePropType } from 'react-native';
+import { LifeStage } from './logic';
+
+// 成長段階ごとのオオサンショウウオの絵
+// aspectRatio は幅に対する高さ（絵に合わせる。成長するほど頭が平たく、体が細長くなる）
+// 幼生は外えらのある大きな頭、育つほど斑点が増えて川底の岩のような焦げ茶になり、長老はしわといぼが刻まれる
+export interface StageSprite {
+  source: ImageSourcePropType;
+  aspectRatio: number;
+}
+
+export const STAGE_SPRITES: Record<LifeStage, StageSprite> = {
+  larva: { source: require('../assets/oosan_larva.png'), aspectRatio: 162 / 221 },
+  juvenile: { source: require('../assets/oosan_juvenile.png'), aspectRatio: 117 / 225 },
+  subadult: { source: require('../assets/oosan_subadult.png'), aspectRatio: 95 / 235 },
+  adult: { source: require('../assets/oosan_adult.png'), aspectRatio: 85 / 240 },
+  elder: { source: require('../assets/oosan_elder.png'), aspectRatio: 85 / 240 },
+};
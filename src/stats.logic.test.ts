@@ -0,0 +1,132 @@
+import { JournalEntry } from './journal';
+import { AppState, MAX_SIZE_FACTOR } from './logic';
+import {
+  calculateStats,
+  countWeakDays,
+  downsampleCurve,
+  getGrowthCurve,
+  getVisitStreaks,
+  projectMaxSizes,
+  projectSize,
+} from './stats';
+
+const entry = (
+  date: string,
+  visited: boolean,
+  condition: JournalEntry['condition'] = 'healthy',
+  sizeFactor: number = 1.0
+): JournalEntry => ({ date, condition, sizeFactor, log: 'テスト', visited });
+
+describe('統計のテスト', () => {
+  const journal: JournalEntry[] = [
+    entry('2024-01-01', true, 'healthy', 1.0),
+    entry('2024-01-02', true, 'healthy', 1.002),
+    entry('2024-01-03', true, 'healthy', 1.004),
+    entry('2024-01-04', false, 'healthy', 1.006),
+    entry('2024-01-05', false, 'healthy', 1.008),
+    entry('2024-01-06', true, 'weak', 1.008),
+    entry('2024-01-07', true, 'healthy', 1.01),
+  ];
+
+  describe('getVisitStreaks', () => {
+    test('現在と最長の連続日数を数える', () => {
+      expect(getVisitStreaks(journal, '2024-01-07')).toEqual({ current: 2, longest: 3 });
+    });
+
+    test('前日までの訪問なら連続は続いている', () => {
+      expect(getVisitStreaks(journal, '2024-01-08').current).toBe(2);
+    });
+
+    test('2日以上空くと現在の連続は 0', () => {
+      expect(getVisitStreaks(journal, '2024-01-09')).toEqual({ current: 0, longest: 3 });
+    });
+
+    test('日記がなければ 0', () => {
+      expect(getVisitStreaks([], '2024-01-01')).toEqual({ current: 0, longest: 0 });
+    });
+  });
+
+  describe('countWeakDays', () => {
+    test('今の子が weak だった日数を数える', () => {
+      expect(countWeakDays(journal, '2024-01-01')).toBe(1);
+      expect(countWeakDays(journal, '2024-01-07')).toBe(0);
+    });
+  });
+
+  describe('getGrowthCurve', () => {
+    test('今の子が来てからの大きさを並べる', () => {
+      const curve = getGrowthCurve(journal, '2024-01-05');
+
+      expect(curve).toEqual([
+        { date: '2024-01-05', sizeFactor: 1.008 },
+        { date: '2024-01-06', sizeFactor: 1.008 },
+        { date: '2024-01-07', sizeFactor: 1.01 },
+      ]);
+    });
+  });
+
+  describe('projectSize', () => {
+    test('成長率の範囲で1年後を見込む', () => {
+      const projection = projectSize(1.0);
+
+      expect(projection.min).toBeGreaterThan(1.0);
+      expect(projection.min).toBeLessThan(projection.expected);
+      expect(projection.expected).toBeLessThan(projection.max);
+      // 上限に向かって減速するので、単純な複利より小さい
+      expect(projection.max).toBeLessThan(Math.pow(1.003, 365));
+    });
+
+    test('上限を超える見込みは出さない', () => {
+      const projection = projectSize(2.9, 3650);
+
+      expect(projection.max).toBeLessThanOrEqual(MAX_SIZE_FACTOR);
+      expect(projection.max).toBeGreaterThan(2.99);
+    });
+  });
+
+  describe('projectMaxSizes', () => {
+    test('日数ごとの大きさは、その日数でいちばん大きく育った見込みと同じ', () => {
+      const sizes = projectMaxSizes(1.0, 365);
+
+      expect(sizes).toHaveLength(366);
+      expect(sizes[0]).toBe(1.0);
+      expect(sizes[30]).toBeCloseTo(projectSize(1.0, 30).max, 12);
+      expect(sizes[365]).toBeCloseTo(projectSize(1.0).max, 12);
+    });
+  });
+
+  describe('calculateStats', () => {
+    test('統計をまとめて計算する', () => {
+      const state: AppState = {
+        startDate: '2024-01-01',
+        lastVisitDate: '2024-01-07',
+        lastGrowthDate: '2024-01-07',
+        sizeFactor: 1.01,
+        condition: 'healthy',
+        latestLog: 'テスト',
+      };
+      const stats = calculateStats(state, journal, '2024-01-07');
+
+      expect(stats.daysSinceStart).toBe(6);
+      expect(stats.currentStreak).toBe(2);
+      expect(stats.longestStreak).toBe(3);
+      expect(stats.weakDays).toBe(1);
+      expect(stats.growthCurve).toHaveLength(7);
+      expect(stats.projectionInOneYear).toEqual(projectSize(1.01));
+    });
+  });
+
+  describe('downsampleCurve', () => {
+    test('最初と最後を残して間引く', () => {
+      const curve = journal.map((e) => ({ date: e.date, sizeFactor: e.sizeFactor }));
+      const result = downsampleCurve(curve, 3);
+
+      expect(result.map((p) => p.date)).toEqual(['2024-01-01', '2024-01-04', '2024-01-07']);
+    });
+
+    test('点が少なければそのまま', () => {
+      const curve = [{ date: '2024-01-01', sizeFactor: 1.0 }];
+      expect(downsampleCurve(curve, 10)).toBe(curve);
+    });
+  });
+});
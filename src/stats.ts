@@ -0,0 +1,125 @@
+import { addDays, toDayNumber } from './calendar';
+import { JournalEntry } from './journal';
+import {
+  AppState,
+  MAX_DAILY_GROWTH,
+  MIN_DAILY_GROWTH,
+  getDailyGrowthRate,
+  getDaysDiff,
+} from './logic';
+
+// 成長曲線の1点
+export interface GrowthPoint {
+  date: string;
+  sizeFactor: number;
+}
+
+// 1年後の大きさの見込み
+export interface SizeProjection {
+  min: number;
+  expected: number;
+  max: number;
+}
+
+// 統計画面に表示する値
+export interface RiverStats {
+  daysSinceStart: number;
+  currentStreak: number;
+  longestStreak: number;
+  weakDays: number;
+  growthCurve: GrowthPoint[];
+  projectionInOneYear: SizeProjection;
+}
+
+// 見込みを出す日数
+export const PROJECTION_DAYS = 365;
+
+// 日記から成長曲線を作成（今の子が来てからの分だけ）
+export const getGrowthCurve = (journal: JournalEntry[], startDate: string): GrowthPoint[] => {
+  const startDay = toDayNumber(startDate);
+  return journal
+    .filter((entry) => toDayNumber(entry.date) >= startDay)
+    .map((entry) => ({ date: entry.date, sizeFactor: entry.sizeFactor }));
+};
+
+// 連続して訪れた日数を数える
+// 現在の連続日数は today かその前日で途切れていないものだけを数える
+export const getVisitStreaks = (
+  journal: JournalEntry[],
+  today: string
+): { current: number; longest: number } => {
+  const visitedDays = journal.filter((entry) => entry.visited).map((entry) => toDayNumber(entry.date));
+
+  let longest = 0;
+  let run = 0;
+  let previousDay: number | null = null;
+  visitedDays.forEach((day) => {
+    run = previousDay !== null && day === previousDay + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previousDay = day;
+  });
+
+  const lastVisitedDay = visitedDays.length > 0 ? visitedDays[visitedDays.length - 1] : null;
+  const isOngoing = lastVisitedDay !== null && lastVisitedDay >= toDayNumber(addDays(today, -1));
+
+  return { current: isOngoing ? run : 0, longest };
+};
+
+// 今の子が weak だった日数
+export const countWeakDays = (journal: JournalEntry[], startDate: string): number => {
+  const startDay = toDayNumber(startDate);
+  return journal.filter((entry) => entry.condition === 'weak' && toDayNumber(entry.date) >= startDay).length;
+};
+
+// 一定の成長率で毎日成長した場合の大きさ（上限に向かう減速も含む）
+const simulateSize = (sizeFactor: number, dailyGrowth: number, days: number): number => {
+  // 乱数の代わりに、基本成長率が dailyGrowth になる値を渡す
+  const fixedRandom = () => (dailyGrowth - MIN_DAILY_GROWTH) / (MAX_DAILY_GROWTH - MIN_DAILY_GROWTH);
+  let size = sizeFactor;
+  for (let i = 0; i < days; i++) {
+    size *= getDailyGrowthRate(fixedRandom, size);
+  }
+  return size;
+};
+
+// 毎日元気に過ごした場合の大きさの見込み（成長率の下限・平均・上限）
+export const projectSize = (sizeFactor: number, days: number = PROJECTION_DAYS): SizeProjection => {
+  const averageGrowth = (MIN_DAILY_GROWTH + MAX_DAILY_GROWTH) / 2;
+  return {
+    min: simulateSize(sizeFactor, MIN_DAILY_GROWTH, days),
+    expected: simulateSize(sizeFactor, averageGrowth, days),
+    max: simulateSize(sizeFactor, MAX_DAILY_GROWTH, days),
+  };
+};
+
+// 毎日いちばん大きく育った場合の、日数ごとの大きさ（0 日目から days 日目まで）
+export const projectMaxSizes = (sizeFactor: number, days: number): number[] => {
+  const maxRandom = () => 1;
+  const sizes = [sizeFactor];
+  for (let i = 0; i < days; i++) {
+    sizes.push(sizes[i] * getDailyGrowthRate(maxRandom, sizes[i]));
+  }
+  return sizes;
+};
+
+// 統計をまとめて計算
+export const calculateStats = (state: AppState, journal: JournalEntry[], today: string): RiverStats => {
+  const streaks = getVisitStreaks(journal, today);
+  return {
+    daysSinceStart: getDaysDiff(state.startDate, today),
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    weakDays: countWeakDays(journal, state.startDate),
+    growthCurve: getGrowthCurve(journal, state.startDate),
+    projectionInOneYear: projectSize(state.sizeFactor),
+  };
+};
+
+// グラフ用に点を間引く（最初と最後は必ず残す）
+export const downsampleCurve = (curve: GrowthPoint[], maxPoints: number): GrowthPoint[] => {
+  if (curve.length <= maxPoints || maxPoints < 2) {
+    return curve;
+  }
+  const step = (curve.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => curve[Math.round(i * step)]);
+};
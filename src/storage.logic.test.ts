@@ -0,0 +1,472 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from './logic';
+import { createSeededContext } from './simulation';
+import {
+  BACKUP_KEY,
+  COLLECTION_KEY,
+  JOURNAL_BACKUP_KEY,
+  JOURNAL_KEY,
+  PREFERENCES_KEY,
+  PREFERENCES_SCHEMA_VERSION,
+  ROSTER_KEY,
+  SCHEMA_VERSION,
+  STORAGE_KEY,
+  discardBackup,
+  loadBackup,
+  loadCollection,
+  loadJournal,
+  loadPersistedState,
+  loadPreferences,
+  loadRoster,
+  loadState,
+  migrate,
+  parsePersistedData,
+  parsePersistedPreferences,
+  restoreBackup,
+  saveCollection,
+  saveJournal,
+  savePreferences,
+  saveRoster,
+  saveState,
+  serializeJournal,
+  serializePreferences,
+  serializeState,
+  validateAppState,
+  validateCollection,
+  validateJournal,
+  validatePreferences,
+  validateReminderSettings,
+  validateRoster,
+  validateSoundSettings,
+} from './storage';
+import { DEFAULT_ROSTER } from './river';
+import { DEFAULT_PREFERENCES, Preferences } from './preferences';
+import { JournalEntry } from './journal';
+
+// AsyncStorage のモック
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const validState: AppState = {
+  startDate: '2024-01-01',
+  lastVisitDate: '2024-01-05',
+  lastGrowthDate: '2024-01-05',
+  sizeFactor: 1.01,
+  condition: 'healthy',
+  latestLog: 'テスト',
+  timeZone: 'Asia/Tokyo',
+  farewells: [],
+};
+
+describe('保存データのテスト', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockAsyncStorage.getItem.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('validateAppState', () => {
+    test('正しい状態はエラーなし', () => {
+      expect(validateAppState(validState)).toEqual([]);
+    });
+
+    test('省略可能なフィールドがなくても通る', () => {
+      const { timeZone, farewells, ...legacy } = validState;
+      expect(validateAppState(legacy)).toEqual([]);
+    });
+
+    test('表示中のログの ID は文言にあるもの', () => {
+      expect(validateAppState({ ...validState, latestLogId: 'healthy.amongWeeds' })).toEqual([]);
+      expect(validateAppState({ ...validState, latestLogId: 'unknown' })).toEqual(['latestLogId が不正です']);
+      expect(validateAppState({ ...validState, latestLogId: 'constructor' })).toEqual(['latestLogId が不正です']);
+    });
+
+    test('名前は空でない文字列', () => {
+      expect(validateAppState({ ...validState, name: 'ハンザキ' })).toEqual([]);
+      expect(validateAppState({ ...validState, name: ' ' })).toEqual(['name が空でない文字列ではありません']);
+    });
+
+    test('個性は模様と人見知りの強さが正しい値', () => {
+      const traits = { spotPattern: 'dotted', tint: 'rgba(40, 40, 40, 0.2)', shyness: 0.4, restingSpot: 'rock1' };
+      expect(validateAppState({ ...validState, traits })).toEqual([]);
+      expect(validateAppState({ ...validState, traits: { ...traits, spotPattern: 'striped', shyness: 2 } })).toEqual([
+        'traits.spotPattern が不正です',
+        'traits.shyness が 0〜1 の数ではありません',
+      ]);
+    });
+
+    test('不正なフィールドをすべて報告する', () => {
+      const errors = validateAppState({
+        ...validState,
+        startDate: 'yesterday',
+        sizeFactor: NaN,
+        condition: 'sleepy',
+        latestLog: 3,
+        timeZone: 'Nowhere/City',
+        farewells: [{ startDate: '2023-01-01', endDate: '2023-02-01', finalSizeFactor: -1, daysLived: 31 }],
+      });
+
+      expect(errors).toEqual([
+        'startDate が日付ではありません',
+        'sizeFactor が正の数ではありません',
+        'condition が不正です',
+        'latestLog が文字列ではありません',
+        'timeZone が不正です',
+        'farewells[0].finalSizeFactor が正の数ではありません',
+      ]);
+    });
+
+    test('時計の記録とチェックポイントを検証する', () => {
+      const checkpoint = { seenAt: 1704888000000, state: validState };
+      expect(validateAppState({ ...validState, clock: { lastSeenAt: 1704974400000, checkpoint } })).toEqual([]);
+
+      expect(
+        validateAppState({
+          ...validState,
+          clock: { lastSeenAt: 'now', checkpoint: { seenAt: 1, state: { ...validState, sizeFactor: 0 } } },
+        })
+      ).toEqual(['clock.lastSeenAt が正の数ではありません', 'clock.checkpoint.sizeFactor が正の数ではありません']);
+      expect(
+        validateAppState({
+          ...validState,
+          clock: { lastSeenAt: 1, checkpoint: { seenAt: 1, state: { ...validState, clock: { lastSeenAt: 1 } } } },
+        })
+      ).toEqual(['clock.checkpoint.state に clock があります']);
+    });
+
+    test('オブジェクト以外は不正', () => {
+      expect(validateAppState(null)).toEqual(['state がオブジェクトではありません']);
+      expect(validateAppState([])).toEqual(['state がオブジェクトではありません']);
+    });
+  });
+
+  describe('migrate', () => {
+    test('バージョン番号のない古い形式を変換する', () => {
+      const { timeZone, farewells, ...legacy } = validState;
+      const result = migrate(legacy);
+
+      expect(result.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(result.state).toEqual({ ...legacy, farewells: [] });
+    });
+
+    test('現在のバージョンはそのまま', () => {
+      const data = { schemaVersion: SCHEMA_VERSION, state: validState };
+      expect(migrate(data)).toBe(data);
+    });
+
+    test('未来のバージョンは読み込まない', () => {
+      expect(() => migrate({ schemaVersion: SCHEMA_VERSION + 1, state: validState })).toThrow();
+    });
+  });
+
+  describe('parsePersistedData', () => {
+    test('保存した文字列を読み戻せる', () => {
+      const { data, migrated } = parsePersistedData(serializeState(validState));
+
+      expect(data.state).toEqual(validState);
+      expect(migrated).toBe(false);
+    });
+
+    test('壊れた JSON は例外になる', () => {
+      expect(() => parsePersistedData('{"startDate":')).toThrow();
+    });
+  });
+
+  describe('loadPersistedState / saveState', () => {
+    const ctx = createSeededContext(1, '2024-02-01T12:00:00Z');
+
+    test('バージョン付きで保存する', async () => {
+      await saveState(validState);
+
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        STORAGE_KEY,
+        JSON.stringify({ schemaVersion: SCHEMA_VERSION, state: validState })
+      );
+    });
+
+    test('保存データがなければ初期状態', async () => {
+      const result = await loadPersistedState(ctx);
+
+      expect(result.status).toBe('empty');
+      expect(result.state.startDate).toBe('2024-02-01');
+    });
+
+    test('保存した状態を読み込める', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(serializeState(validState));
+      const result = await loadPersistedState(ctx);
+
+      expect(result.status).toBe('loaded');
+      expect(result.state).toEqual(validState);
+    });
+
+    test('古い形式の保存データを変換して読み込む', async () => {
+      const { timeZone, farewells, ...legacy } = validState;
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(legacy));
+      const result = await loadPersistedState(ctx);
+
+      expect(result.status).toBe('migrated');
+      expect(result.state.sizeFactor).toBe(1.01);
+      expect(result.state.farewells).toEqual([]);
+    });
+
+    test('壊れたデータは退避してから初期状態で始める', async () => {
+      const broken = JSON.stringify({ ...validState, sizeFactor: 'big' });
+      mockAsyncStorage.getItem.mockImplementation(async (key) => (key === STORAGE_KEY ? broken : null));
+      const result = await loadPersistedState(ctx);
+
+      expect(result.status).toBe('recovered');
+      expect(result.errors).toEqual(['sizeFactor が正の数ではありません']);
+      expect(result.state.sizeFactor).toBe(1.0);
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(BACKUP_KEY, broken);
+    });
+
+    test('JSON として読めないデータも退避する', async () => {
+      mockAsyncStorage.getItem.mockImplementation(async (key) => (key === STORAGE_KEY ? 'not json' : null));
+      const result = await loadPersistedState(ctx);
+
+      expect(result.status).toBe('recovered');
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(BACKUP_KEY, 'not json');
+    });
+
+    test('戻すか消すかを選んでいない退避データがあれば、上書きしない', async () => {
+      mockAsyncStorage.getItem.mockImplementation(async (key) =>
+        key === STORAGE_KEY ? 'not json' : key === BACKUP_KEY ? 'earlier' : null
+      );
+      const result = await loadPersistedState(ctx);
+
+      expect(result.status).toBe('recovered');
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalledWith(BACKUP_KEY, expect.anything());
+    });
+
+    test('新しい版で保存されたデータは、退避せず未対応として知らせる', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify({ schemaVersion: SCHEMA_VERSION + 1, state: {} }));
+      const result = await loadPersistedState(ctx);
+
+      expect(result.status).toBe('unsupported');
+      expect(result.errors).toEqual([`未対応のスキーマバージョンです: ${SCHEMA_VERSION + 1}`]);
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    test('退避したデータを元の場所に戻すか、消せる', async () => {
+      mockAsyncStorage.getItem.mockImplementation(async (key) => (key === BACKUP_KEY ? 'not json' : null));
+      expect(await loadBackup()).toBe('not json');
+
+      expect(await restoreBackup()).toBe(true);
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(STORAGE_KEY, 'not json');
+      expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith(BACKUP_KEY);
+
+      await discardBackup('r1');
+      expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith(`${BACKUP_KEY}.r1`);
+    });
+
+    test('退避したデータがなければ戻さない', async () => {
+      expect(await restoreBackup()).toBe(false);
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    test('読み込み自体に失敗しても初期状態で始める', async () => {
+      mockAsyncStorage.getItem.mockRejectedValue(new Error('unavailable'));
+      const result = await loadPersistedState(ctx);
+
+      expect(result.status).toBe('empty');
+      expect(result.state.condition).toBe('healthy');
+    });
+  });
+
+  describe('日記の保存と読み込み', () => {
+    const entries: JournalEntry[] = [
+      { date: '2024-01-04', condition: 'healthy', sizeFactor: 1.0, log: '川の音が聞こえます。', visited: false },
+      { date: '2024-01-05', condition: 'healthy', sizeFactor: 1.01, log: 'テスト', visited: true },
+    ];
+
+    test('日記を検証する', () => {
+      expect(validateJournal(entries)).toEqual([]);
+      expect(validateJournal([{ ...entries[0], visited: 'yes' }])).toEqual([
+        'entries[0].visited が真偽値ではありません',
+      ]);
+      expect(validateJournal({})).toEqual(['entries が配列ではありません']);
+    });
+
+    test('日記を保存して読み込める', async () => {
+      await saveJournal(entries);
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(JOURNAL_KEY, serializeJournal(entries));
+
+      mockAsyncStorage.getItem.mockResolvedValue(serializeJournal(entries));
+      expect(await loadJournal()).toEqual(entries);
+    });
+
+    test('保存されていなければ空の日記', async () => {
+      expect(await loadJournal()).toEqual([]);
+    });
+
+    test('壊れた日記は退避して空の日記から始める', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue('{"schemaVersion":1,"entries":[{}]}');
+
+      expect(await loadJournal()).toEqual([]);
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        JOURNAL_BACKUP_KEY,
+        '{"schemaVersion":1,"entries":[{}]}'
+      );
+    });
+  });
+
+  describe('お知らせの設定の検証', () => {
+    const settings = { enabled: true, hour: 7, minute: 30 };
+
+    test('設定を検証する', () => {
+      expect(validateReminderSettings(settings)).toEqual([]);
+      expect(validateReminderSettings({ enabled: 'yes', hour: 24, minute: 1.5 })).toEqual([
+        'enabled が真偽値ではありません',
+        'hour が不正です',
+        'minute が不正です',
+      ]);
+    });
+
+  });
+
+  describe('音の設定の検証', () => {
+    const settings = { muted: true, volume: 0.4 };
+
+    test('設定を検証する', () => {
+      expect(validateSoundSettings(settings)).toEqual([]);
+      expect(validateSoundSettings({ muted: 'no', volume: 1.5 })).toEqual([
+        'muted が真偽値ではありません',
+        'volume が 0〜1 の数ではありません',
+      ]);
+    });
+
+  });
+
+  describe('設定の保存と読み込み', () => {
+    const sound = { muted: true, volume: 0.4 };
+    const reminder = { enabled: true, hour: 7, minute: 30 };
+    const preferences: Preferences = { gentleMode: true, language: 'en', motion: 'reduce', sound, reminder };
+
+    test('設定を検証する', () => {
+      expect(validatePreferences(preferences)).toEqual([]);
+      expect(
+        validatePreferences({ gentleMode: 1, language: 'fr', motion: 'slow', sound: { muted: true }, reminder })
+      ).toEqual([
+        'gentleMode が真偽値ではありません',
+        'language が不正です',
+        'motion が不正です',
+        'sound.volume が 0〜1 の数ではありません',
+      ]);
+    });
+
+    test('川の状態とは別のキーに、スキーマバージョンつきで保存して読み込める', async () => {
+      await savePreferences(preferences);
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(PREFERENCES_KEY, serializePreferences(preferences));
+      expect(JSON.parse(serializePreferences(preferences)).schemaVersion).toBe(PREFERENCES_SCHEMA_VERSION);
+
+      mockAsyncStorage.getItem.mockResolvedValue(serializePreferences(preferences));
+      expect(await loadPreferences()).toEqual(preferences);
+    });
+
+    test('未対応のスキーマバージョンは読み込まない', () => {
+      expect(() => parsePersistedPreferences(JSON.stringify({ schemaVersion: 2, preferences }))).toThrow(
+        '未対応の設定スキーマバージョンです: 2'
+      );
+      expect(() => parsePersistedPreferences(JSON.stringify({ preferences }))).toThrow(
+        '未対応の設定スキーマバージョンです: 0'
+      );
+    });
+
+    test('何も保存されていなければ、書き込まずに既定の設定', async () => {
+      expect(await loadPreferences()).toEqual(DEFAULT_PREFERENCES);
+      expect(mockAsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    test('保存されていない・壊れているときは既定の設定', async () => {
+      expect(await loadPreferences()).toEqual(DEFAULT_PREFERENCES);
+
+      mockAsyncStorage.getItem.mockResolvedValue('{"schemaVersion":1,"preferences":{"gentleMode":"yes"}}');
+      expect(await loadPreferences()).toEqual(DEFAULT_PREFERENCES);
+    });
+  });
+
+  describe('生きもの図鑑の保存と読み込み', () => {
+    const collection = { smallFish: { firstSeen: '2024-06-20', lastSeen: '2024-06-22', days: 2 } };
+
+    test('図鑑を検証する', () => {
+      expect(validateCollection(collection)).toEqual([]);
+      expect(validateCollection({ otter: collection.smallFish, crab: { firstSeen: 'x', lastSeen: '2024-06-20', days: 0 } })).toEqual([
+        'otter は知らない生きものです',
+        'crab.firstSeen が日付ではありません',
+        'crab.days が正の整数ではありません',
+      ]);
+    });
+
+    test('図鑑を保存して読み込める', async () => {
+      await saveCollection(collection);
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(COLLECTION_KEY, JSON.stringify(collection));
+
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(collection));
+      expect(await loadCollection()).toEqual(collection);
+    });
+
+    test('保存されていない・壊れているときは空の図鑑', async () => {
+      expect(await loadCollection()).toEqual({});
+
+      mockAsyncStorage.getItem.mockResolvedValue('[]');
+      expect(await loadCollection()).toEqual({});
+    });
+  });
+
+  describe('川に暮らす子たちの保存と読み込み', () => {
+    const ctx = createSeededContext(1, '2024-02-01T12:00:00Z');
+    const roster = { residentIds: ['main', 'r1'], focusedId: 'r1' };
+
+    test('並びを検証する', () => {
+      expect(validateRoster(roster)).toEqual([]);
+      expect(validateRoster({ residentIds: ['r1', 'r1'], focusedId: 'r2' })).toEqual([
+        'residentIds が最初の子から始まっていません',
+        'residentIds に同じ id があります',
+        'focusedId が川にいる子ではありません',
+      ]);
+      expect(validateRoster({ residentIds: ['main', 'R/1'], focusedId: 'main' })).toEqual([
+        'residentIds が id の配列ではありません',
+      ]);
+    });
+
+    test('並びを保存して読み込める', async () => {
+      await saveRoster(roster);
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(ROSTER_KEY, JSON.stringify(roster));
+
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(roster));
+      expect(await loadRoster()).toEqual(roster);
+    });
+
+    test('並びがなければ1匹だけだった頃の保存データを最初の子として読み込む', async () => {
+      mockAsyncStorage.getItem.mockImplementation(async (key) =>
+        key === STORAGE_KEY ? serializeState(validState) : null
+      );
+
+      expect(await loadRoster()).toEqual(DEFAULT_ROSTER);
+      expect(await loadState(ctx, DEFAULT_ROSTER.residentIds[0])).toEqual(validState);
+    });
+
+    test('2匹目からは子ごとのキーに保存する', async () => {
+      await saveState(validState, 'r1');
+      await saveJournal([], 'r1');
+
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(`${STORAGE_KEY}.r1`, serializeState(validState));
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(`${JOURNAL_KEY}.r1`, serializeJournal([]));
+    });
+
+    test('壊れたデータは子ごとの退避先に移す', async () => {
+      mockAsyncStorage.getItem.mockImplementation(async (key) => (key === `${STORAGE_KEY}.r1` ? 'not json' : null));
+      await loadPersistedState(ctx, 'r1');
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(`${BACKUP_KEY}.r1`, 'not json');
+    });
+  });
+});
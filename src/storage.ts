@@ -0,0 +1,647 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isValidTimeZone } from './calendar';
+import { CREATURES, CreatureCollection } from './ecosystem';
+import { SPOT_PATTERNS } from './identity';
+import { JournalEntry } from './journal';
+import { AppState, Condition, createInitialState } from './logic';
+import { LOCALE_MESSAGES } from './messages';
+import { DEFAULT_PREFERENCES, LANGUAGE_PREFERENCES, MOTION_PREFERENCES, Preferences } from './preferences';
+import { DEFAULT_ROSTER, PRIMARY_RESIDENT_ID, Roster } from './river';
+import { SimulationContext, systemContext } from './simulation';
+
+// AsyncStorage のキー
+export const STORAGE_KEY = 'oosanRiverState';
+// 読み込めなかったデータの退避先
+export const BACKUP_KEY = 'oosanRiverState.backup';
+// 日記のキーと退避先
+export const JOURNAL_KEY = 'oosanRiverJournal';
+export const JOURNAL_BACKUP_KEY = 'oosanRiverJournal.backup';
+// 生きもの図鑑のキー
+export const COLLECTION_KEY = 'oosanRiverCollection';
+// 川に暮らす子の並びのキー
+export const ROSTER_KEY = 'oosanRiverResidents';
+// 設定のキー
+export const PREFERENCES_KEY = 'oosanRiverPreferences';
+
+// 子ごとの保存のキー
+// 最初の子は1匹だけだった頃のキーをそのまま使い、2匹目からはキーに id をつけて分ける
+export const getResidentKey = (key: string, residentId: string = PRIMARY_RESIDENT_ID): string =>
+  residentId === PRIMARY_RESIDENT_ID ? key : `${key}.${residentId}`;
+
+// 保存データのスキーマバージョン
+// 形を変えるときは数値を上げ、migrations に変換処理を追加する
+export const SCHEMA_VERSION = 1;
+
+// 日記のスキーマバージョン
+export const JOURNAL_SCHEMA_VERSION = 1;
+
+// 設定のスキーマバージョン（川の状態とは別に数える）
+export const PREFERENCES_SCHEMA_VERSION = 1;
+
+// 保存データの形式
+export interface PersistedData {
+  schemaVersion: number;
+  state: AppState;
+}
+
+// 設定の保存形式
+export interface PersistedPreferences {
+  schemaVersion: number;
+  preferences: Preferences;
+}
+
+// 日記の保存形式
+export interface PersistedJournal {
+  schemaVersion: number;
+  entries: JournalEntry[];
+}
+
+// 読み込み結果
+// empty: 保存データなし / loaded: そのまま読み込めた / migrated: 古い形式から変換した
+// recovered: 壊れていたので退避して初期状態から始めた
+// unsupported: このアプリより新しい版で保存されていた（読めないので、そのまま残して上書きしない）
+export type LoadStatus = 'empty' | 'loaded' | 'migrated' | 'recovered' | 'unsupported';
+
+export interface LoadResult {
+  state: AppState;
+  status: LoadStatus;
+  errors: string[];
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CONDITIONS: Condition[] = ['healthy', 'weak', 'dead'];
+const RESIDENT_ID_PATTERN = /^[a-z0-9]+$/;
+
+// オブジェクトか（配列と null は除く。読み込んだデータを検証するときに使う）
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// 決められた文字列のどれかか
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T => {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+};
+
+// min 以上 max 以下の整数か
+const isIntegerInRange = (value: unknown, min: number, max: number = Infinity): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+};
+
+const isDateKey = (value: unknown): value is string => {
+  return typeof value === 'string' && DATE_KEY_PATTERN.test(value) && !isNaN(Date.parse(value));
+};
+
+const isPositiveNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+};
+
+// お別れの記録を検証（問題があればエラーメッセージを返す）
+const validateFarewell = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) {
+    return [`${path} がオブジェクトではありません`];
+  }
+  const errors: string[] = [];
+  if (value.name !== undefined && typeof value.name !== 'string') errors.push(`${path}.name が文字列ではありません`);
+  if (!isDateKey(value.startDate)) errors.push(`${path}.startDate が日付ではありません`);
+  if (!isDateKey(value.endDate)) errors.push(`${path}.endDate が日付ではありません`);
+  if (!isPositiveNumber(value.finalSizeFactor)) errors.push(`${path}.finalSizeFactor が正の数ではありません`);
+  if (!isIntegerInRange(value.daysLived, 0)) {
+    errors.push(`${path}.daysLived が 0 以上の整数ではありません`);
+  }
+  return errors;
+};
+
+// 個性を検証
+const validateTraits = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['traits がオブジェクトではありません'];
+  }
+  const errors: string[] = [];
+  if (!isOneOf(SPOT_PATTERNS, value.spotPattern)) errors.push('traits.spotPattern が不正です');
+  if (typeof value.tint !== 'string') errors.push('traits.tint が文字列ではありません');
+  if (typeof value.shyness !== 'number' || !(value.shyness >= 0 && value.shyness <= 1)) {
+    errors.push('traits.shyness が 0〜1 の数ではありません');
+  }
+  if (typeof value.restingSpot !== 'string') errors.push('traits.restingSpot が文字列ではありません');
+  return errors;
+};
+
+// AppState の全フィールドを検証（問題がなければ空配列）
+export const validateAppState = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['state がオブジェクトではありません'];
+  }
+
+  const errors: string[] = [];
+  if (!isDateKey(value.startDate)) errors.push('startDate が日付ではありません');
+  if (!isDateKey(value.lastVisitDate)) errors.push('lastVisitDate が日付ではありません');
+  if (!isDateKey(value.lastGrowthDate)) errors.push('lastGrowthDate が日付ではありません');
+  if (!isPositiveNumber(value.sizeFactor)) errors.push('sizeFactor が正の数ではありません');
+  if (!isOneOf(CONDITIONS, value.condition)) errors.push('condition が不正です');
+  if (typeof value.latestLog !== 'string') errors.push('latestLog が文字列ではありません');
+  if (value.name !== undefined && (typeof value.name !== 'string' || value.name.trim() === '')) {
+    errors.push('name が空でない文字列ではありません');
+  }
+  if (value.traits !== undefined) {
+    errors.push(...validateTraits(value.traits));
+  }
+  if (value.timeZone !== undefined && (typeof value.timeZone !== 'string' || !isValidTimeZone(value.timeZone))) {
+    errors.push('timeZone が不正です');
+  }
+  if (value.endDate !== undefined && !isDateKey(value.endDate)) {
+    errors.push('endDate が日付ではありません');
+  }
+  if (
+    value.latestLogId !== undefined &&
+    (typeof value.latestLogId !== 'string' || typeof LOCALE_MESSAGES.ja[value.latestLogId] !== 'string')
+  ) {
+    errors.push('latestLogId が不正です');
+  }
+  if (value.latestLogDate !== undefined && !isDateKey(value.latestLogDate)) {
+    errors.push('latestLogDate が日付ではありません');
+  }
+  if (
+    value.recentLogIds !== undefined &&
+    (!Array.isArray(value.recentLogIds) || !value.recentLogIds.every((id: unknown) => typeof id === 'string'))
+  ) {
+    errors.push('recentLogIds が文字列の配列ではありません');
+  }
+  if (value.farewells !== undefined) {
+    if (!Array.isArray(value.farewells)) {
+      errors.push('farewells が配列ではありません');
+    } else {
+      value.farewells.forEach((farewell: unknown, index: number) => {
+        errors.push(...validateFarewell(farewell, `farewells[${index}]`));
+      });
+    }
+  }
+  if (value.clock !== undefined) {
+    errors.push(...validateClock(value.clock));
+  }
+  return errors;
+};
+
+// 時計の記録を検証（チェックポイントの状態は時計の記録を持たない）
+const validateClock = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['clock がオブジェクトではありません'];
+  }
+  const errors: string[] = [];
+  if (!isPositiveNumber(value.lastSeenAt)) errors.push('clock.lastSeenAt が正の数ではありません');
+  if (value.checkpoint !== undefined) {
+    const checkpoint = value.checkpoint;
+    if (!isRecord(checkpoint)) {
+      errors.push('clock.checkpoint がオブジェクトではありません');
+    } else {
+      if (!isPositiveNumber(checkpoint.seenAt)) errors.push('clock.checkpoint.seenAt が正の数ではありません');
+      if (isRecord(checkpoint.state) && checkpoint.state.clock !== undefined) {
+        errors.push('clock.checkpoint.state に clock があります');
+      } else {
+        errors.push(...validateAppState(checkpoint.state).map((error) => `clock.checkpoint.${error}`));
+      }
+    }
+  }
+  return errors;
+};
+
+// 日記の1日分を検証
+const validateJournalEntry = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) {
+    return [`${path} がオブジェクトではありません`];
+  }
+  const errors: string[] = [];
+  if (!isDateKey(value.date)) errors.push(`${path}.date が日付ではありません`);
+  if (!isOneOf(CONDITIONS, value.condition)) errors.push(`${path}.condition が不正です`);
+  if (!isPositiveNumber(value.sizeFactor)) errors.push(`${path}.sizeFactor が正の数ではありません`);
+  if (typeof value.log !== 'string') errors.push(`${path}.log が文字列ではありません`);
+  if (typeof value.visited !== 'boolean') errors.push(`${path}.visited が真偽値ではありません`);
+  return errors;
+};
+
+// 日記全体を検証（問題がなければ空配列）
+export const validateJournal = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    return ['entries が配列ではありません'];
+  }
+  const errors: string[] = [];
+  value.forEach((entry: unknown, index: number) => {
+    errors.push(...validateJournalEntry(entry, `entries[${index}]`));
+  });
+  return errors;
+};
+
+// お知らせの設定を検証（問題がなければ空配列）
+export const validateReminderSettings = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['settings がオブジェクトではありません'];
+  }
+  const errors: string[] = [];
+  if (typeof value.enabled !== 'boolean') errors.push('enabled が真偽値ではありません');
+  if (!isIntegerInRange(value.hour, 0, 23)) errors.push('hour が不正です');
+  if (!isIntegerInRange(value.minute, 0, 59)) errors.push('minute が不正です');
+  return errors;
+};
+
+// 音の設定を検証（問題がなければ空配列）
+export const validateSoundSettings = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['settings がオブジェクトではありません'];
+  }
+  const errors: string[] = [];
+  if (typeof value.muted !== 'boolean') errors.push('muted が真偽値ではありません');
+  if (typeof value.volume !== 'number' || !(value.volume >= 0 && value.volume <= 1)) {
+    errors.push('volume が 0〜1 の数ではありません');
+  }
+  return errors;
+};
+
+// 設定を検証（問題がなければ空配列）
+export const validatePreferences = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['preferences がオブジェクトではありません'];
+  }
+  const errors: string[] = [];
+  if (typeof value.gentleMode !== 'boolean') errors.push('gentleMode が真偽値ではありません');
+  if (!isOneOf(LANGUAGE_PREFERENCES, value.language)) errors.push('language が不正です');
+  if (!isOneOf(MOTION_PREFERENCES, value.motion)) errors.push('motion が不正です');
+  validateSoundSettings(value.sound).forEach((error) => errors.push(`sound.${error}`));
+  validateReminderSettings(value.reminder).forEach((error) => errors.push(`reminder.${error}`));
+  return errors;
+};
+
+// 川に暮らす子の並びを検証（問題がなければ空配列）
+export const validateRoster = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['roster がオブジェクトではありません'];
+  }
+  const ids: unknown = value.residentIds;
+  const isResidentId = (id: unknown): id is string => typeof id === 'string' && RESIDENT_ID_PATTERN.test(id);
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(isResidentId)) {
+    return ['residentIds が id の配列ではありません'];
+  }
+  const errors: string[] = [];
+  if (ids[0] !== PRIMARY_RESIDENT_ID) errors.push('residentIds が最初の子から始まっていません');
+  if (new Set(ids).size !== ids.length) errors.push('residentIds に同じ id があります');
+  if (!isOneOf(ids, value.focusedId)) errors.push('focusedId が川にいる子ではありません');
+  return errors;
+};
+
+// 生きもの図鑑を検証（問題がなければ空配列）
+export const validateCollection = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['collection がオブジェクトではありません'];
+  }
+  const errors: string[] = [];
+  Object.entries(value).forEach(([id, sighting]) => {
+    if (!CREATURES.some((creature) => creature.id === id)) {
+      errors.push(`${id} は知らない生きものです`);
+      return;
+    }
+    if (!isRecord(sighting)) {
+      errors.push(`${id} がオブジェクトではありません`);
+      return;
+    }
+    if (!isDateKey(sighting.firstSeen)) errors.push(`${id}.firstSeen が日付ではありません`);
+    if (!isDateKey(sighting.lastSeen)) errors.push(`${id}.lastSeen が日付ではありません`);
+    if (!isIntegerInRange(sighting.days, 1)) errors.push(`${id}.days が正の整数ではありません`);
+  });
+  return errors;
+};
+
+// バージョンごとの変換処理（キーのバージョンから次のバージョンへ）
+// 変換後の形は最後に validateAppState で確かめる
+const migrations: Record<number, (data: unknown) => unknown> = {
+  // バージョン 0: バージョン番号のない AppState をそのまま保存していた形式
+  0: (data) => {
+    if (!isRecord(data)) {
+      throw new Error('state がオブジェクトではありません');
+    }
+    return {
+      schemaVersion: 1,
+      state: {
+        ...data,
+        farewells: data.farewells ?? [],
+      },
+    };
+  },
+};
+
+// 保存データのバージョンを取得（バージョン番号がなければ 0）
+export const getSchemaVersion = (data: unknown): number => {
+  if (isRecord(data) && typeof data.schemaVersion === 'number') {
+    return data.schemaVersion;
+  }
+  return 0;
+};
+
+// 古い形式の保存データを現在のバージョンまで順に変換
+export const migrate = (data: unknown): PersistedData => {
+  let current = data;
+  let version = getSchemaVersion(current);
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`未対応のスキーマバージョンです: ${version}`);
+  }
+
+  while (version < SCHEMA_VERSION) {
+    const step = migrations[version];
+    if (!step) {
+      throw new Error(`スキーマバージョン ${version} からの変換がありません`);
+    }
+    current = step(current);
+    version = getSchemaVersion(current);
+  }
+
+  // 最新のバージョンまで来ていれば schemaVersion を持つオブジェクト（state は呼び出し側で検証する）
+  return current as PersistedData;
+};
+
+// 保存されていた文字列を解析・変換・検証する
+export const parsePersistedData = (raw: string): { data: PersistedData; migrated: boolean } => {
+  const parsed: unknown = JSON.parse(raw);
+  const migrated = getSchemaVersion(parsed) !== SCHEMA_VERSION;
+  const data = migrate(parsed);
+
+  const errors = validateAppState(data.state);
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  return { data, migrated };
+};
+
+// 保存用のデータを作成
+export const serializeState = (state: AppState): string => {
+  const data: PersistedData = { schemaVersion: SCHEMA_VERSION, state };
+  return JSON.stringify(data);
+};
+
+// 日記の保存文字列を解析・検証する
+export const parsePersistedJournal = (raw: string): JournalEntry[] => {
+  const parsed: unknown = JSON.parse(raw);
+  const version = getSchemaVersion(parsed);
+  if (version !== JOURNAL_SCHEMA_VERSION) {
+    throw new Error(`未対応の日記スキーマバージョンです: ${version}`);
+  }
+
+  const entries = (parsed as PersistedJournal).entries;
+  const errors = validateJournal(entries);
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  return entries;
+};
+
+// 日記の保存用データを作成
+export const serializeJournal = (entries: JournalEntry[]): string => {
+  const data: PersistedJournal = { schemaVersion: JOURNAL_SCHEMA_VERSION, entries };
+  return JSON.stringify(data);
+};
+
+// 設定の保存文字列を解析・検証する
+export const parsePersistedPreferences = (raw: string): Preferences => {
+  const parsed: unknown = JSON.parse(raw);
+  const version = getSchemaVersion(parsed);
+  if (version !== PREFERENCES_SCHEMA_VERSION) {
+    throw new Error(`未対応の設定スキーマバージョンです: ${version}`);
+  }
+
+  const preferences = (parsed as PersistedPreferences).preferences;
+  const errors = validatePreferences(preferences);
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  return preferences;
+};
+
+// 設定の保存用データを作成
+export const serializePreferences = (preferences: Preferences): string => {
+  const data: PersistedPreferences = { schemaVersion: PREFERENCES_SCHEMA_VERSION, preferences };
+  return JSON.stringify(data);
+};
+
+// 読み込めなかったデータを退避する
+const backupBrokenData = async (key: string, raw: string): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key, raw);
+  } catch (error) {
+    console.error('Failed to back up state:', error);
+  }
+};
+
+// 保存されていた文字列のスキーマバージョン（JSON として読めなければ 0）
+const getStoredSchemaVersion = (raw: string): number => {
+  try {
+    return getSchemaVersion(JSON.parse(raw));
+  } catch (error) {
+    return 0;
+  }
+};
+
+// 退避してある状態を読む（なければ null）
+export const loadBackup = async (residentId: string = PRIMARY_RESIDENT_ID): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(getResidentKey(BACKUP_KEY, residentId));
+  } catch (error) {
+    console.error('Failed to load backup:', error);
+    return null;
+  }
+};
+
+// AsyncStorage から状態を読み込む（読み込み結果の詳細つき）
+export const loadPersistedState = async (
+  ctx: SimulationContext = systemContext,
+  residentId: string = PRIMARY_RESIDENT_ID
+): Promise<LoadResult> => {
+  let raw: string | null = null;
+  try {
+    raw = await AsyncStorage.getItem(getResidentKey(STORAGE_KEY, residentId));
+  } catch (error) {
+    console.error('Failed to load state:', error);
+  }
+
+  if (!raw) {
+    return { state: createInitialState(ctx), status: 'empty', errors: [] };
+  }
+
+  const version = getStoredSchemaVersion(raw);
+  if (version > SCHEMA_VERSION) {
+    return {
+      state: createInitialState(ctx),
+      status: 'unsupported',
+      errors: [`未対応のスキーマバージョンです: ${version}`],
+    };
+  }
+
+  try {
+    const { data, migrated } = parsePersistedData(raw);
+    return { state: data.state, status: migrated ? 'migrated' : 'loaded', errors: [] };
+  } catch (error) {
+    // 壊れたデータは上書きせずに退避してから初期状態で始める
+    // まだ戻すか消すかを選んでいない退避データがあれば、そちらを残す
+    console.error('Failed to parse state:', error);
+    if (!(await loadBackup(residentId))) {
+      await backupBrokenData(getResidentKey(BACKUP_KEY, residentId), raw);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { state: createInitialState(ctx), status: 'recovered', errors: [message] };
+  }
+};
+
+// 退避してある状態を元の場所に戻す（戻したら退避先は空にする）
+export const restoreBackup = async (residentId: string = PRIMARY_RESIDENT_ID): Promise<boolean> => {
+  const raw = await loadBackup(residentId);
+  if (!raw) {
+    return false;
+  }
+  try {
+    await AsyncStorage.setItem(getResidentKey(STORAGE_KEY, residentId), raw);
+    await AsyncStorage.removeItem(getResidentKey(BACKUP_KEY, residentId));
+    return true;
+  } catch (error) {
+    console.error('Failed to restore backup:', error);
+    return false;
+  }
+};
+
+// 退避してある状態を消す
+export const discardBackup = async (residentId: string = PRIMARY_RESIDENT_ID): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(getResidentKey(BACKUP_KEY, residentId));
+  } catch (error) {
+    console.error('Failed to discard backup:', error);
+  }
+};
+
+// AsyncStorage から状態を読み込む
+export const loadState = async (
+  ctx: SimulationContext = systemContext,
+  residentId: string = PRIMARY_RESIDENT_ID
+): Promise<AppState> => {
+  const result = await loadPersistedState(ctx, residentId);
+  return result.state;
+};
+
+// AsyncStorage に状態を保存
+export const saveState = async (state: AppState, residentId: string = PRIMARY_RESIDENT_ID): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(getResidentKey(STORAGE_KEY, residentId), serializeState(state));
+  } catch (error) {
+    console.error('Failed to save state:', error);
+  }
+};
+
+// AsyncStorage から日記を読み込む（壊れていれば退避して空の日記から始める）
+export const loadJournal = async (residentId: string = PRIMARY_RESIDENT_ID): Promise<JournalEntry[]> => {
+  let raw: string | null = null;
+  try {
+    raw = await AsyncStorage.getItem(getResidentKey(JOURNAL_KEY, residentId));
+  } catch (error) {
+    console.error('Failed to load journal:', error);
+  }
+
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return parsePersistedJournal(raw);
+  } catch (error) {
+    console.error('Failed to parse journal:', error);
+    await backupBrokenData(getResidentKey(JOURNAL_BACKUP_KEY, residentId), raw);
+    return [];
+  }
+};
+
+// AsyncStorage に日記を保存
+export const saveJournal = async (
+  entries: JournalEntry[],
+  residentId: string = PRIMARY_RESIDENT_ID
+): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(getResidentKey(JOURNAL_KEY, residentId), serializeJournal(entries));
+  } catch (error) {
+    console.error('Failed to save journal:', error);
+  }
+};
+
+// AsyncStorage から設定を読み込む（なければ・壊れていれば既定の設定）
+export const loadPreferences = async (): Promise<Preferences> => {
+  try {
+    const raw = await AsyncStorage.getItem(PREFERENCES_KEY);
+    if (!raw) {
+      return DEFAULT_PREFERENCES;
+    }
+    return parsePersistedPreferences(raw);
+  } catch (error) {
+    console.error('Failed to load preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+// AsyncStorage に設定を保存
+export const savePreferences = async (preferences: Preferences): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(PREFERENCES_KEY, serializePreferences(preferences));
+  } catch (error) {
+    console.error('Failed to save preferences:', error);
+  }
+};
+
+// AsyncStorage から生きもの図鑑を読み込む（なければ・壊れていれば空の図鑑）
+export const loadCollection = async (): Promise<CreatureCollection> => {
+  try {
+    const raw = await AsyncStorage.getItem(COLLECTION_KEY);
+    if (!raw) {
+      return {};
+    }
+    const parsed: unknown = JSON.parse(raw);
+    const errors = validateCollection(parsed);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+    return parsed as CreatureCollection;
+  } catch (error) {
+    console.error('Failed to load collection:', error);
+    return {};
+  }
+};
+
+// AsyncStorage に生きもの図鑑を保存
+export const saveCollection = async (collection: CreatureCollection): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(COLLECTION_KEY, JSON.stringify(collection));
+  } catch (error) {
+    console.error('Failed to save collection:', error);
+  }
+};
+
+// AsyncStorage から川に暮らす子の並びを読み込む（なければ・壊れていれば最初の子だけ）
+export const loadRoster = async (): Promise<Roster> => {
+  try {
+    const raw = await AsyncStorage.getItem(ROSTER_KEY);
+    if (!raw) {
+      return DEFAULT_ROSTER;
+    }
+    const parsed: unknown = JSON.parse(raw);
+    const errors = validateRoster(parsed);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+    return parsed as Roster;
+  } catch (error) {
+    console.error('Failed to load roster:', error);
+    return DEFAULT_ROSTER;
+  }
+};
+
+// AsyncStorage に川に暮らす子の並びを保存
+export const saveRoster = async (roster: Roster): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(ROSTER_KEY, JSON.stringify(roster));
+  } catch (error) {
+    console.error('Failed to save roster:', error);
+  }
+};
@@ -0,0 +1,12 @@
+import { AppState } from './logic';
+
+// テストで使う、6/20 に訪れたばかりの元気な子（overrides で一部だけ変えられる）
+export const createTestState = (overrides: Partial<AppState> = {}): AppState => ({
+  startDate: '2024-06-01',
+  lastVisitDate: '2024-06-20',
+  lastGrowthDate: '2024-06-20',
+  sizeFactor: 1.02,
+  condition: 'healthy',
+  latestLog: 'テスト',
+  ...overrides,
+});
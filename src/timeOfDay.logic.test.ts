@@ -0,0 +1,55 @@
+import { TIME_OF_DAY_SCENES, getLocalHour, getTimeOfDay, getTimeOfDayForHour, getTimeOfDayScene } from './timeOfDay';
+import { getCandidateMessages } from './messages';
+
+describe('時間帯のテスト', () => {
+  test('時刻から時間帯を判定する', () => {
+    expect(getTimeOfDayForHour(5)).toBe('dawn');
+    expect(getTimeOfDayForHour(12)).toBe('day');
+    expect(getTimeOfDayForHour(18)).toBe('dusk');
+    expect(getTimeOfDayForHour(23)).toBe('night');
+    expect(getTimeOfDayForHour(0)).toBe('night');
+  });
+
+  test('タイムゾーンの時刻で判定する', () => {
+    const date = new Date('2024-01-01T15:00:00Z');
+
+    expect(getLocalHour(date, 'UTC')).toBe(15);
+    expect(getLocalHour(date, 'Asia/Tokyo')).toBe(0);
+    expect(getTimeOfDay(date, 'UTC')).toBe('day');
+    expect(getTimeOfDay(date, 'Asia/Tokyo')).toBe('night');
+  });
+
+  test('夜はいちばん活発に動き、昼は岩の下に隠れる', () => {
+    const night = getTimeOfDayScene('night');
+    const day = getTimeOfDayScene('day');
+
+    Object.values(TIME_OF_DAY_SCENES).forEach((scene) => {
+      expect(night.activity).toBeGreaterThanOrEqual(scene.activity);
+    });
+    expect(day.hiding).toBe(true);
+    expect(day.wanderRange).toBeLessThan(night.wanderRange);
+    expect(Object.entries(TIME_OF_DAY_SCENES).filter(([, scene]) => scene.hiding)).toHaveLength(1);
+  });
+
+  test('昼は光を重ねず、夜は暗くする', () => {
+    expect(getTimeOfDayScene('day').lighting).toBeNull();
+    expect(getTimeOfDayScene('night').lighting).toMatch(/^rgba\(/);
+  });
+
+  test('時間帯ごとのログが候補になる', () => {
+    const base = {
+      condition: 'healthy' as const,
+      stage: 'adult' as const,
+      season: 'summer' as const,
+      event: null,
+      isFirstDay: false,
+    };
+    const night = getCandidateMessages({ ...base, timeOfDay: 'night' }).map((rule) => rule.id);
+    const day = getCandidateMessages({ ...base, timeOfDay: 'day' }).map((rule) => rule.id);
+
+    expect(night).toEqual(expect.arrayContaining(['night.moving', 'night.ambush', 'night.stars']));
+    expect(night).not.toContain('day.eyesOnly');
+    expect(day).toEqual(expect.arrayContaining(['day.resting', 'day.eyesOnly']));
+    expect(day).not.toContain('night.ambush');
+  });
+});
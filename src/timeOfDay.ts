@@ -0,0 +1,45 @@
+// 時間帯
+export type TimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
+
+// 時間帯ごとの川の様子（オオサンショウウオは夜に動き、昼は岩の下に隠れる）
+// lighting: 背景に重ねる光の色（昼は null）/ activity: うろうろの活発さ
+// wanderRange: うろうろする範囲の倍率 / hiding: 岩の下に隠れているか
+export interface TimeOfDayScene {
+  lighting: string | null;
+  activity: number;
+  wanderRange: number;
+  hiding: boolean;
+}
+
+export const TIME_OF_DAY_SCENES: Record<TimeOfDay, TimeOfDayScene> = {
+  dawn: { lighting: 'rgba(255, 190, 150, 0.15)', activity: 1.1, wanderRange: 0.6, hiding: false },
+  day: { lighting: null, activity: 0.5, wanderRange: 0.15, hiding: true },
+  dusk: { lighting: 'rgba(240, 140, 80, 0.2)', activity: 1.2, wanderRange: 1.0, hiding: false },
+  night: { lighting: 'rgba(10, 20, 50, 0.5)', activity: 1.5, wanderRange: 1.0, hiding: false },
+};
+
+// 指定タイムゾーンでの時刻（0〜23時）を取得
+export const getLocalHour = (date: Date, timeZone: string): number => {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).format(date);
+  return Number(hour) % 24;
+};
+
+// 時刻から時間帯を判定
+export const getTimeOfDayForHour = (hour: number): TimeOfDay => {
+  if (hour >= 4 && hour < 7) return 'dawn';
+  if (hour >= 7 && hour < 17) return 'day';
+  if (hour >= 17 && hour < 19) return 'dusk';
+  return 'night';
+};
+
+// 指定タイムゾーンでの時間帯
+export const getTimeOfDay = (date: Date, timeZone: string): TimeOfDay => {
+  return getTimeOfDayForHour(getLocalHour(date, timeZone));
+};
+
+// 時間帯の川の様子
+export const getTimeOfDayScene = (timeOfDay: TimeOfDay): TimeOfDayScene => TIME_OF_DAY_SCENES[timeOfDay];
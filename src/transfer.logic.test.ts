@@ -0,0 +1,245 @@
+import { CreatureCollection } from './ecosystem';
+import { JournalEntry } from './journal';
+import { AppState } from './logic';
+import { DEFAULT_ROSTER, Resident, Roster } from './river';
+import { createSeededContext } from './simulation';
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  TRANSFER_CODE_PREFIX,
+  MAX_DAYS_LIVED,
+  computeChecksum,
+  createExportBundle,
+  createSizeBound,
+  getMaxPlausibleSize,
+  importBundle,
+  serializeExportBundle,
+  toTransferCode,
+} from './transfer';
+
+// 検証に使う storage モジュールが AsyncStorage を読み込むため
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+const ctx = createSeededContext(1, '2024-01-12T12:00:00Z');
+
+const state: AppState = {
+  startDate: '2024-01-01',
+  lastVisitDate: '2024-01-10',
+  lastGrowthDate: '2024-01-10',
+  sizeFactor: 1.02,
+  condition: 'healthy',
+  latestLog: '水草の間を泳いでいます。',
+  timeZone: 'UTC',
+  farewells: [{ startDate: '2023-01-01', endDate: '2023-03-01', finalSizeFactor: 1.1, daysLived: 59 }],
+  recentLogIds: ['healthy.amongWeeds'],
+};
+
+const journal: JournalEntry[] = [
+  { date: '2024-01-09', condition: 'healthy', sizeFactor: 1.018, log: '川の音が聞こえます。', visited: true },
+  { date: '2024-01-10', condition: 'healthy', sizeFactor: 1.02, log: '水草の間を泳いでいます。', visited: true },
+];
+
+const residents: Resident[] = [{ id: 'main', state, journal }];
+
+// 2匹目の子と図鑑
+const second: Resident = {
+  id: 'rabc123',
+  state: { ...state, startDate: '2024-01-05', sizeFactor: 1.01, name: 'ゆら', farewells: [] },
+  journal: [],
+};
+const roster: Roster = { residentIds: ['main', second.id], focusedId: second.id };
+const collection: CreatureCollection = {
+  crab: { firstSeen: '2024-01-03', lastSeen: '2024-01-10', days: 2 },
+};
+
+// 中身にチェックサムを付けて書き出したときの形にする
+const sign = (payload: Record<string, unknown>): string =>
+  JSON.stringify({ ...payload, checksum: computeChecksum(payload) });
+
+// 書き出したデータの1匹目を書き換え、チェックサムも付け直す（ツールで改ざんした場合）
+const resign = (changes: Partial<AppState>): string => {
+  const { checksum, ...payload } = createExportBundle(DEFAULT_ROSTER, residents, {}, ctx);
+  const [first] = payload.residents;
+  return sign({ ...payload, residents: [{ ...first, state: { ...first.state, ...changes } }] });
+};
+
+describe('引き継ぎのテスト', () => {
+  test('書き出したファイルを読み込める', () => {
+    const bundle = createExportBundle(DEFAULT_ROSTER, residents, {}, ctx);
+    expect(bundle.format).toBe(EXPORT_FORMAT);
+    expect(bundle.exportedAt).toBe('2024-01-12T12:00:00.000Z');
+
+    const result = importBundle(serializeExportBundle(bundle), ctx);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.bundle.residents).toEqual(residents);
+      expect(result.preview).toEqual({
+        residents: [
+          {
+            label: '1匹目',
+            startDate: '2024-01-01',
+            daysLived: 9,
+            sizeFactor: 1.02,
+            stage: 'larva',
+            condition: 'healthy',
+            journalEntries: 2,
+            farewells: 1,
+          },
+        ],
+        creatures: 0,
+      });
+    }
+  });
+
+  test('川に暮らす子たち全員と図鑑をまとめて書き出し、読み込める', () => {
+    const bundle = createExportBundle(roster, [second, ...residents], collection, ctx);
+    expect(bundle.residents.map((resident) => resident.id)).toEqual(['main', second.id]);
+
+    const result = importBundle(toTransferCode(bundle), ctx);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.bundle.roster).toEqual(roster);
+      expect(result.bundle.residents).toEqual([...residents, second]);
+      expect(result.bundle.collection).toEqual(collection);
+      expect(result.preview.residents.map((resident) => resident.label)).toEqual(['1匹目', 'ゆら']);
+      expect(result.preview.creatures).toBe(1);
+    }
+  });
+
+  test('子たちの並びと中身のないデータは読み込まない', () => {
+    const result = importBundle(
+      sign({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: '2024-01-12T12:00:00.000Z', state, journal }),
+      ctx
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  test('子の並びと中身が食い違うデータは読み込まない', () => {
+    const { checksum, ...payload } = createExportBundle(roster, [...residents, second], collection, ctx);
+    expect(importBundle(sign({ ...payload, residents }), ctx)).toEqual({
+      ok: false,
+      errors: ['residents が roster の並びと一致しません'],
+    });
+    expect(importBundle(sign({ ...payload, version: EXPORT_VERSION + 1 }), ctx)).toEqual({
+      ok: false,
+      errors: [`未対応のデータのバージョンです: ${EXPORT_VERSION + 1}`],
+    });
+  });
+
+  test('今のバージョンでないデータは読み込まない', () => {
+    const { checksum, ...payload } = createExportBundle(DEFAULT_ROSTER, residents, {}, ctx);
+    expect(importBundle(sign({ ...payload, version: 1.5 }), ctx)).toEqual({
+      ok: false,
+      errors: ['未対応のデータのバージョンです: 1.5'],
+    });
+    expect(importBundle(sign({ ...payload, version: 0 }), ctx)).toEqual({
+      ok: false,
+      errors: ['未対応のデータのバージョンです: 0'],
+    });
+  });
+
+  test('時計の記録は端末ごとのものなので書き出さない', () => {
+    const clock = { lastSeenAt: Date.parse('2024-01-12T12:00:00Z') };
+    const withClock = [{ id: 'main', state: { ...state, clock }, journal }];
+    expect(createExportBundle(DEFAULT_ROSTER, withClock, {}, ctx).residents).toEqual(residents);
+
+    const result = importBundle(resign({ clock }), ctx);
+    expect(result.ok && result.bundle.residents).toEqual(residents);
+  });
+
+  test('引き継ぎコードでも読み込める（日本語を含む）', () => {
+    const code = toTransferCode(createExportBundle(DEFAULT_ROSTER, residents, {}, ctx));
+    expect(code.startsWith(TRANSFER_CODE_PREFIX)).toBe(true);
+    expect(code).toMatch(/^OOSAN1:[A-Za-z0-9_-]+$/);
+
+    const result = importBundle(`  ${code}\n`, ctx);
+    expect(result.ok && result.bundle.residents[0].state.latestLog).toBe('水草の間を泳いでいます。');
+  });
+
+  test('チェックサムはキーの順番に左右されない', () => {
+    const bundle = createExportBundle(roster, [...residents, second], collection, ctx);
+    const { checksum, collection: creatures, residents: saved, roster: order, version, exportedAt, format } = bundle;
+    const reordered = { checksum, collection: creatures, residents: saved, roster: order, version, exportedAt, format };
+    expect(importBundle(JSON.stringify(reordered), ctx).ok).toBe(true);
+  });
+
+  test('書き換えたファイルは読み込まない', () => {
+    const bundle = createExportBundle(DEFAULT_ROSTER, residents, {}, ctx);
+    const tampered = { ...bundle, collection };
+
+    expect(importBundle(JSON.stringify(tampered), ctx)).toEqual({
+      ok: false,
+      errors: ['データが書き換えられているか、壊れています'],
+    });
+  });
+
+  test('チェックサムを付け直しても、過ごした日数につり合わない大きさは読み込まない', () => {
+    expect(getMaxPlausibleSize('2024-01-01', '2024-01-10')).toBeLessThan(1.03);
+
+    const result = importBundle(resign({ sizeFactor: 2.9 }), ctx);
+    expect(result).toEqual({ ok: false, errors: ['1匹目: 大きさが過ごした日数とつり合いません'] });
+  });
+
+  test('未来の日付や順番の崩れた日付は読み込まない', () => {
+    expect(importBundle(resign({ lastVisitDate: '2024-02-01' }), ctx)).toEqual({
+      ok: false,
+      errors: ['1匹目: 未来の日付が含まれています'],
+    });
+    expect(importBundle(resign({ lastGrowthDate: '2024-01-11' }), ctx)).toEqual({
+      ok: false,
+      errors: ['1匹目: 日付の順番が正しくありません'],
+    });
+  });
+
+  test('何十年も前に来たことにした子は、大きさを確かめる前に読み込まない', () => {
+    expect(importBundle(resign({ startDate: '0001-01-01' }), ctx)).toEqual({
+      ok: false,
+      errors: ['1匹目: 来た日が古すぎます'],
+    });
+    const ancient = [{ startDate: '0001-01-01', endDate: '2023-03-01', finalSizeFactor: 1.1, daysLived: 738578 }];
+    expect(importBundle(resign({ farewells: ancient }), ctx)).toEqual({
+      ok: false,
+      errors: ['1匹目: 来た日が古すぎます'],
+    });
+    const future = [{ startDate: '2023-01-01', endDate: '9999-12-31', finalSizeFactor: 1.1, daysLived: 2914853 }];
+    expect(importBundle(resign({ farewells: future }), ctx)).toEqual({
+      ok: false,
+      errors: ['1匹目: 未来の日付が含まれています'],
+    });
+  });
+
+  test('大きさの上限は日数ごとにまとめて計算したものと同じ', () => {
+    const bound = createSizeBound(MAX_DAYS_LIVED);
+    expect(bound(9)).toBe(getMaxPlausibleSize('2024-01-01', '2024-01-10'));
+    expect(bound(MAX_DAYS_LIVED + 1)).toBe(bound(MAX_DAYS_LIVED));
+    expect(bound(-1)).toBe(bound(0));
+  });
+
+  test('お別れの記録の書き換えも見つける', () => {
+    const farewells = [{ startDate: '2023-01-01', endDate: '2023-03-01', finalSizeFactor: 2.5, daysLived: 59 }];
+    expect(importBundle(resign({ farewells }), ctx)).toEqual({
+      ok: false,
+      errors: ['1匹目: お別れの記録 1 件目の大きさが過ごした日数とつり合いません'],
+    });
+  });
+
+  test('形式の違うデータや壊れたデータは読み込まない', () => {
+    expect(importBundle('not json', ctx)).toEqual({ ok: false, errors: ['データを読み取れませんでした'] });
+    expect(importBundle(`${TRANSFER_CODE_PREFIX}***`, ctx)).toEqual({
+      ok: false,
+      errors: ['データを読み取れませんでした'],
+    });
+    expect(importBundle(JSON.stringify({ schemaVersion: 1, state }), ctx)).toEqual({
+      ok: false,
+      errors: ['オオサンショウウオの川のデータではありません'],
+    });
+    expect(importBundle(resign({ condition: 'sleepy' as AppState['condition'] }), ctx)).toEqual({
+      ok: false,
+      errors: ['1匹目: condition が不正です'],
+    });
+  });
+});
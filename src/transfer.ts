@@ -0,0 +1,330 @@
+import { toDayNumber } from './calendar';
+import { withoutClock } from './clock';
+import { CreatureCollection } from './ecosystem';
+import { JournalEntry } from './journal';
+import { AppState, Condition, LifeStage, getDaysDiff, getLifeStage, getToday } from './logic';
+import { Resident, Roster, getResidentLabel } from './river';
+import { SimulationContext, hashSeed, systemContext } from './simulation';
+import { projectMaxSizes } from './stats';
+import { isRecord, validateAppState, validateCollection, validateJournal, validateRoster } from './storage';
+
+// 書き出したデータの形式名とバージョン
+export const EXPORT_FORMAT = 'oosan-river-export';
+export const EXPORT_VERSION = 1;
+// 引き継ぎコードの先頭に付ける印
+export const TRANSFER_CODE_PREFIX = 'OOSAN1:';
+
+// 書き出す中身（チェックサムの対象）
+export interface ExportPayload {
+  format: string;
+  version: number;
+  exportedAt: string;
+  roster: Roster;
+  // roster の並びと同じ順の、子ごとの状態と日記
+  residents: Resident[];
+  collection: CreatureCollection;
+}
+
+// 書き出したファイルの形式
+export interface ExportBundle extends ExportPayload {
+  checksum: string;
+}
+
+// 読み込む前に見せる、データの中の子の様子
+export interface ResidentPreview {
+  label: string;
+  startDate: string;
+  daysLived: number;
+  sizeFactor: number;
+  stage: LifeStage;
+  condition: Condition;
+  journalEntries: number;
+  farewells: number;
+}
+
+// 読み込む前に見せる、データの中の川の様子
+export interface ImportPreview {
+  residents: ResidentPreview[];
+  // 図鑑に載っている生きものの数
+  creatures: number;
+}
+
+export type ImportResult =
+  | { ok: true; bundle: ExportBundle; preview: ImportPreview }
+  | { ok: false; errors: string[] };
+
+// 浮動小数点の誤差を見込んだ大きさの許容幅
+const SIZE_TOLERANCE = 1e-9;
+
+// 過ごした日数として受け付ける上限（これより前に来た子は書き換えとみなす）
+export const MAX_DAYS_LIVED = 100 * 365;
+
+// キーの順番に左右されない JSON（チェックサムの計算に使う）
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (isRecord(value)) {
+    const keys = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// 中身のチェックサム（FNV-1a を向きを変えて2回かけた 16 桁の16進数）
+// 読み込んだままの、まだ型の確かめられていない中身も受け取る
+// 壊れたデータを見つけるためのもので、計算し直せば付け替えられる（書き換えは checkPlausibility で見つける）
+export const computeChecksum = (payload: ExportPayload | Record<string, unknown>): string => {
+  const text = canonicalize(payload);
+  const reversed = text.split('').reverse().join('');
+  return [hashSeed(text), hashSeed(reversed)].map((hash) => hash.toString(16).padStart(8, '0')).join('');
+};
+
+// 中身にチェックサムを付ける
+const signPayload = (payload: ExportPayload): ExportBundle => ({ ...payload, checksum: computeChecksum(payload) });
+
+// 川に暮らす子たち全員と図鑑から書き出すデータを作成
+// 時計の記録はその端末だけのものなので書き出さない
+export const createExportBundle = (
+  roster: Roster,
+  residents: Resident[],
+  collection: CreatureCollection,
+  ctx: SimulationContext = systemContext
+): ExportBundle => {
+  const ordered = roster.residentIds
+    .map((id) => residents.find((resident) => resident.id === id))
+    .filter((resident): resident is Resident => resident !== undefined);
+  return signPayload({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: ctx.now().toISOString(),
+    roster,
+    residents: ordered.map((resident) => ({ ...resident, state: withoutClock(resident.state) })),
+    collection,
+  });
+};
+
+// 書き出すファイルの中身
+export const serializeExportBundle = (bundle: ExportBundle): string => JSON.stringify(bundle, null, 2);
+
+// UTF-8 のバイト列と文字列の変換（日本語のログを含むため）
+const toUtf8Bytes = (text: string): number[] => {
+  const encoded = encodeURIComponent(text);
+  const bytes: number[] = [];
+  for (let i = 0; i < encoded.length; i++) {
+    if (encoded[i] === '%') {
+      bytes.push(parseInt(encoded.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(encoded.charCodeAt(i));
+    }
+  }
+  return bytes;
+};
+
+const fromUtf8Bytes = (bytes: number[]): string => {
+  return decodeURIComponent(bytes.map((byte) => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+};
+
+// URL に使える base64（記号は - と _、末尾の = は付けない）
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const encodeBase64Url = (bytes: number[]): string => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const length = Math.min(3, bytes.length - i) + 1;
+    for (let j = 0; j < length; j++) {
+      output += BASE64_CHARS[(chunk >> (18 - j * 6)) & 63];
+    }
+  }
+  return output;
+};
+
+const decodeBase64Url = (code: string): number[] => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of code) {
+    const value = BASE64_CHARS.indexOf(char);
+    if (value < 0) {
+      throw new Error('引き継ぎコードに使えない文字が含まれています');
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 255);
+    }
+  }
+  return bytes;
+};
+
+// 引き継ぎコード（コピーして貼り付けられる1行の文字列）
+export const toTransferCode = (bundle: ExportBundle): string => {
+  return TRANSFER_CODE_PREFIX + encodeBase64Url(toUtf8Bytes(JSON.stringify(bundle)));
+};
+
+// ファイルの中身か引き継ぎコードを読む
+const parseImportText = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith(TRANSFER_CODE_PREFIX)) {
+    const code = trimmed.slice(TRANSFER_CODE_PREFIX.length).replace(/\s/g, '');
+    return JSON.parse(fromUtf8Bytes(decodeBase64Url(code)));
+  }
+  return JSON.parse(trimmed);
+};
+
+// 来た日からの日数ごとに、毎日いちばん大きく育った場合の大きさを返す（days 日分をまとめて1度だけ計算する）
+export const createSizeBound = (days: number): ((daysLived: number) => number) => {
+  const sizes = projectMaxSizes(1.0, days);
+  return (daysLived) => sizes[Math.min(Math.max(daysLived, 0), days)] * (1 + SIZE_TOLERANCE);
+};
+
+// 来た日から date までに、毎日いちばん大きく育った場合の大きさ
+export const getMaxPlausibleSize = (startDate: string, date: string): number => {
+  const days = getDaysDiff(startDate, date);
+  return createSizeBound(days)(days);
+};
+
+// 中身がありえる値か確かめる（書き換えられた大きさや未来の日付を見つける）
+// 日付が受け付ける範囲に収まっているのを確かめてから、大きさの上限を子ごとに1度だけ計算する
+export const checkPlausibility = (state: AppState, journal: JournalEntry[], today: string): string[] => {
+  const errors: string[] = [];
+  const todayDay = toDayNumber(today);
+  const startDay = toDayNumber(state.startDate);
+  const growthDay = toDayNumber(state.lastGrowthDate);
+  const visitDay = toDayNumber(state.lastVisitDate);
+  const farewells = state.farewells ?? [];
+
+  const earliestDay = todayDay - MAX_DAYS_LIVED;
+  if (startDay < earliestDay || farewells.some((farewell) => toDayNumber(farewell.startDate) < earliestDay)) {
+    return ['来た日が古すぎます'];
+  }
+  if (visitDay > todayDay || farewells.some((farewell) => toDayNumber(farewell.endDate) > todayDay)) {
+    return ['未来の日付が含まれています'];
+  }
+  if (!(startDay <= growthDay && growthDay <= visitDay)) {
+    errors.push('日付の順番が正しくありません');
+  }
+
+  const longestDays = Math.max(visitDay - startDay, ...farewells.map((farewell) => farewell.daysLived));
+  const maxSize = createSizeBound(Math.min(Math.max(longestDays, 0), MAX_DAYS_LIVED));
+  if (state.sizeFactor < 1.0 || state.sizeFactor > maxSize(growthDay - startDay)) {
+    errors.push('大きさが過ごした日数とつり合いません');
+  }
+
+  journal.forEach((entry, index) => {
+    const day = toDayNumber(entry.date);
+    if (day > visitDay) {
+      errors.push(`日記 ${index + 1} 件目の日付が最後に訪れた日より後です`);
+    } else if (day >= startDay && entry.sizeFactor > maxSize(day - startDay)) {
+      errors.push(`日記 ${index + 1} 件目の大きさが過ごした日数とつり合いません`);
+    }
+  });
+
+  farewells.forEach((farewell, index) => {
+    if (farewell.daysLived !== getDaysDiff(farewell.startDate, farewell.endDate)) {
+      errors.push(`お別れの記録 ${index + 1} 件目の日数が正しくありません`);
+    } else if (farewell.finalSizeFactor > maxSize(farewell.daysLived)) {
+      errors.push(`お別れの記録 ${index + 1} 件目の大きさが過ごした日数とつり合いません`);
+    }
+  });
+
+  return errors;
+};
+
+// 読み込む前に見せる様子
+export const createImportPreview = (bundle: ExportBundle): ImportPreview => ({
+  residents: bundle.residents.map(({ state, journal }, index) => ({
+    label: getResidentLabel(state, index),
+    startDate: state.startDate,
+    daysLived: getDaysDiff(state.startDate, state.endDate ?? state.lastVisitDate),
+    sizeFactor: state.sizeFactor,
+    stage: getLifeStage(state, state.lastVisitDate),
+    condition: state.condition,
+    journalEntries: journal.length,
+    farewells: (state.farewells ?? []).length,
+  })),
+  creatures: Object.keys(bundle.collection).length,
+});
+
+// 子ごとの状態と日記を確かめる（roster の並びと一致していなければ読み込まない）
+const validateResidents = (value: unknown, roster: unknown): string[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return ['residents が子の配列ではありません'];
+  }
+  const errors: string[] = [];
+  value.forEach((resident: unknown, index) => {
+    const prefix = `${index + 1}匹目: `;
+    if (!isRecord(resident)) {
+      errors.push(`${prefix}オブジェクトではありません`);
+      return;
+    }
+    [...validateAppState(resident.state), ...validateJournal(resident.journal)].forEach((error) =>
+      errors.push(prefix + error)
+    );
+  });
+  const ids: unknown[] = isRecord(roster) && Array.isArray(roster.residentIds) ? roster.residentIds : [];
+  const matches =
+    ids.length === value.length && value.every((resident: unknown, index) => isRecord(resident) && resident.id === ids[index]);
+  if (!matches) {
+    errors.push('residents が roster の並びと一致しません');
+  }
+  return errors;
+};
+
+// ファイルの中身か引き継ぎコードを検証して読み込む
+export const importBundle = (text: string, ctx: SimulationContext = systemContext): ImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = parseImportText(text);
+  } catch (error) {
+    return { ok: false, errors: ['データを読み取れませんでした'] };
+  }
+
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT) {
+    return { ok: false, errors: ['オオサンショウウオの川のデータではありません'] };
+  }
+  if (parsed.version !== EXPORT_VERSION) {
+    return { ok: false, errors: [`未対応のデータのバージョンです: ${parsed.version}`] };
+  }
+
+  const { checksum, ...payload } = parsed;
+  if (typeof checksum !== 'string' || checksum !== computeChecksum(payload)) {
+    return { ok: false, errors: ['データが書き換えられているか、壊れています'] };
+  }
+
+  const errors = [
+    ...validateRoster(payload.roster),
+    ...validateResidents(payload.residents, payload.roster),
+    ...validateCollection(payload.collection),
+  ];
+  if (typeof payload.exportedAt !== 'string') errors.push('exportedAt が文字列ではありません');
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  // ここまでで形を確かめたので型をつける
+  const residents = payload.residents as Resident[];
+  const today = getToday(ctx);
+  const implausible = residents.flatMap(({ state, journal }, index) =>
+    checkPlausibility(state, journal, today).map((error) => `${index + 1}匹目: ${error}`)
+  );
+  if (implausible.length > 0) {
+    return { ok: false, errors: implausible };
+  }
+
+  // 時計の記録は読み込まない（チェックポイントの中身は確かめていないため）
+  const bundle = signPayload({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: payload.exportedAt as string,
+    roster: payload.roster as Roster,
+    residents: residents.map(({ id, state, journal }) => ({ id, state: withoutClock(state), journal })),
+    collection: payload.collection as CreatureCollection,
+  });
+  return { ok: true, bundle, preview: createImportPreview(bundle) };
+};
@@ -0,0 +1,182 @@
+import { AppState, simulateMissedDays } from './logic';
+import { MESSAGE_RULES, getCandidateMessages } from './messages';
+import { buildOpenMeteoUrl, createOpenMeteoWeatherProvider, parseOpenMeteoResponse } from './openMeteo';
+import { createSeededContext } from './simulation';
+import {
+  CALM_WEATHER_SCENE,
+  Weather,
+  createMockWeatherProvider,
+  fetchWeather,
+  getMockWeather,
+  getWeatherScene,
+  getWeatherTags,
+  normalizeWeather,
+} from './weather';
+
+// 応答の検証に使う storage モジュールが AsyncStorage を読み込むため
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+const mild: Weather = { rain: 0, temperature: 18, turbidity: 0.05 };
+const storm: Weather = { rain: 25, temperature: 20, turbidity: 0.9 };
+
+describe('天気のテスト', () => {
+  describe('天気の特徴', () => {
+    test('雨・気温・濁りから特徴を決める', () => {
+      expect(getWeatherTags(mild)).toEqual([]);
+      expect(getWeatherTags({ ...mild, rain: 2 })).toEqual(['rain']);
+      expect(getWeatherTags(storm)).toEqual(['rain', 'heavyRain', 'muddy']);
+      expect(getWeatherTags({ ...mild, temperature: 3 })).toEqual(['cold']);
+      expect(getWeatherTags({ ...mild, temperature: 31 })).toEqual(['hot']);
+    });
+
+    test('数でない値は受け付けず、範囲外の値は整える', () => {
+      expect(normalizeWeather({ rain: -1, temperature: 10, turbidity: 1.5 })).toEqual({
+        rain: 0,
+        temperature: 10,
+        turbidity: 1,
+      });
+      expect(() => normalizeWeather({ rain: NaN, temperature: 10, turbidity: 0 })).toThrow();
+    });
+  });
+
+  describe('川の様子', () => {
+    test('天気がわからないときや穏やかな日は変わらない', () => {
+      expect(getWeatherScene(null)).toBe(CALM_WEATHER_SCENE);
+      expect(getWeatherScene({ rain: 0, temperature: 18, turbidity: 0 })).toEqual(CALM_WEATHER_SCENE);
+    });
+
+    test('濁った川は茶色く、強い雨では水草がよく揺れ、岩陰で休みがちになる', () => {
+      const scene = getWeatherScene(storm);
+      expect(scene.tint).toMatch(/^rgba\(\d+, \d+, \d+, 0\.\d+\)$/);
+      expect(scene.swaySpeed).toBeGreaterThan(1.5);
+      expect(scene.activity).toBeLessThan(0.6);
+    });
+
+    test('小雨の日は活発に、冷たい水ではゆっくり動く', () => {
+      expect(getWeatherScene({ ...mild, rain: 2 }).activity).toBeGreaterThan(1);
+      expect(getWeatherScene({ ...mild, temperature: 2 }).moveSpeed).toBeLessThan(0.7);
+      expect(getWeatherScene({ ...mild, temperature: 32 }).moveSpeed).toBeLessThan(1);
+    });
+  });
+
+  describe('日次ログ', () => {
+    const context = {
+      condition: 'healthy' as const,
+      stage: 'larva' as const,
+      season: 'summer' as const,
+      timeOfDay: 'day' as const,
+      event: null,
+      isFirstDay: false,
+    };
+
+    test('天気のログはその天気のときだけ候補になる', () => {
+      const calm = getCandidateMessages(context).map((rule) => rule.id);
+      const rainy = getCandidateMessages({ ...context, weather: getWeatherTags(storm) }).map((rule) => rule.id);
+
+      expect(calm).not.toContain('rain.ripples');
+      expect(rainy).toEqual(expect.arrayContaining(['rain.ripples', 'heavyRain.hiding', 'muddy.feeling']));
+      expect(rainy).not.toContain('cold.slow');
+    });
+
+    test('訪れなかった日の再現には今日の天気を使わない', () => {
+      const state: AppState = {
+        startDate: '2024-06-01',
+        lastVisitDate: '2024-06-10',
+        lastGrowthDate: '2024-06-10',
+        sizeFactor: 1.01,
+        condition: 'healthy',
+        latestLog: 'テスト',
+      };
+      const weatherIds = MESSAGE_RULES.filter((rule) => rule.weather).map((rule) => rule.id);
+      const ctx = { ...createSeededContext(5, '2024-06-20T12:00:00Z'), weather: storm };
+
+      simulateMissedDays(state, ctx).forEach((day) => {
+        expect(weatherIds).not.toContain(day.recentLogIds?.[day.recentLogIds.length - 1]);
+      });
+    });
+  });
+
+  describe('決まった天気（モック）', () => {
+    test('同じ日とシードからは同じ天気になる', () => {
+      expect(getMockWeather('2024-06-20', 1)).toEqual(getMockWeather('2024-06-20', 1));
+      expect(getMockWeather('2024-06-20', 1)).not.toEqual(getMockWeather('2024-06-21', 1));
+    });
+
+    test('冬は夏より寒い', () => {
+      const days = Array.from({ length: 20 }, (_, i) => String(i + 1).padStart(2, '0'));
+      const average = (month: string) =>
+        days.reduce((sum, day) => sum + getMockWeather(`2024-${month}-${day}`).temperature, 0) / days.length;
+      expect(average('01')).toBeLessThan(average('08') - 15);
+    });
+
+    test('コンテキストのタイムゾーンでの日付の天気を返す', async () => {
+      const provider = createMockWeatherProvider(3);
+      const ctx = createSeededContext(1, '2024-06-20T20:00:00Z', 'Asia/Tokyo');
+      await expect(provider.getWeather(ctx)).resolves.toEqual(getMockWeather('2024-06-21', 3));
+    });
+  });
+
+  describe('天気の取得', () => {
+    const ctx = createSeededContext(1, '2024-06-20T12:00:00Z');
+
+    test('失敗しても川は開けるように null を返す', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const failing = { getWeather: () => Promise.reject(new Error('offline')) };
+      await expect(fetchWeather(failing, ctx)).resolves.toBeNull();
+      warn.mockRestore();
+    });
+
+    test('時間がかかりすぎたら待たない', async () => {
+      const never = { getWeather: () => new Promise<Weather>(() => {}) };
+      await expect(fetchWeather(never, ctx, 10)).resolves.toBeNull();
+    });
+  });
+
+  describe('Open-Meteo', () => {
+    const now = new Date('2024-06-20T12:00:00Z');
+    const nowSeconds = now.getTime() / 1000;
+    const body = {
+      current: { temperature_2m: 21.5, precipitation: 3.2 },
+      hourly: {
+        time: [nowSeconds - 30 * 3600, nowSeconds - 10 * 3600, nowSeconds - 3600, nowSeconds + 3600],
+        precipitation: [50, 8, 12, 30],
+      },
+    };
+
+    test('位置は小数2桁に丸めて送る', () => {
+      expect(buildOpenMeteoUrl(35.012345, 135.98765)).toContain('latitude=35.01&longitude=135.99');
+    });
+
+    test('今の天気と、過去24時間の雨量から見積もった濁りを返す', () => {
+      expect(parseOpenMeteoResponse(body, now)).toEqual({ rain: 3.2, temperature: 21.5, turbidity: 0.5 });
+      expect(() => parseOpenMeteoResponse({}, now)).toThrow();
+    });
+
+    test('形の違う応答は読み飛ばすか、失敗する', () => {
+      expect(() => parseOpenMeteoResponse(null, now)).toThrow();
+      expect(() => parseOpenMeteoResponse({ current: [21.5, 3.2] }, now)).toThrow();
+      expect(() => parseOpenMeteoResponse({ current: { temperature_2m: '21', precipitation: 0 } }, now)).toThrow();
+      expect(
+        parseOpenMeteoResponse({ ...body, hourly: { time: [nowSeconds - 3600, 'x'], precipitation: [null, 4] } }, now)
+      ).toEqual({ rain: 3.2, temperature: 21.5, turbidity: 0 });
+    });
+
+    test('差し替えた fetch で取得する', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, json: async () => body });
+      const provider = createOpenMeteoWeatherProvider({ latitude: 35, longitude: 135, fetch: fetchMock });
+
+      await expect(provider.getWeather(createSeededContext(1, now))).resolves.toMatchObject({ rain: 3.2 });
+      expect(fetchMock).toHaveBeenCalledWith(buildOpenMeteoUrl(35, 135));
+    });
+
+    test('応答がエラーなら失敗する', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 503 });
+      const provider = createOpenMeteoWeatherProvider({ latitude: 35, longitude: 135, fetch: fetchMock });
+      await expect(provider.getWeather(createSeededContext(1, now))).rejects.toThrow('503');
+    });
+  });
+});
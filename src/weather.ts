@@ -0,0 +1,149 @@
+import { toDateKey } from './calendar';
+import { SimulationContext, createSeededRandom, hashSeed } from './simulation';
+
+// 川のまわりの天気
+export interface Weather {
+  // 1時間あたりの雨量（mm）
+  rain: number;
+  // 気温（℃）
+  temperature: number;
+  // 川の濁り（0: 澄んでいる 〜 1: 泥で濁っている）
+  turbidity: number;
+}
+
+// 天気を取得する仕組み（差し替えられるように）
+export interface WeatherProvider {
+  getWeather: (ctx: SimulationContext) => Promise<Weather>;
+}
+
+// 日次ログの出し分けに使う天気の特徴
+export type WeatherTag = 'rain' | 'heavyRain' | 'cold' | 'hot' | 'muddy';
+
+// 天気による川の様子
+// tint: 背景に重ねる色（変化がなければ null）/ swaySpeed: 水草の揺れの速さ
+// moveSpeed: うろうろの速さ / activity: 動き回る活発さ（休む長さ）
+export interface WeatherScene {
+  tint: string | null;
+  swaySpeed: number;
+  moveSpeed: number;
+  activity: number;
+}
+
+// 天気による変化がないときの様子
+export const CALM_WEATHER_SCENE: WeatherScene = { tint: null, swaySpeed: 1, moveSpeed: 1, activity: 1 };
+
+// しきい値
+export const LIGHT_RAIN_MM = 0.5;
+export const HEAVY_RAIN_MM = 10;
+export const COLD_TEMPERATURE = 8;
+export const HOT_TEMPERATURE = 28;
+export const MUDDY_TURBIDITY = 0.6;
+
+// 天気の取得を待つ時間（これを過ぎたら天気なしで川を開く）
+export const WEATHER_TIMEOUT_MS = 3000;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+// 取得した値を扱える範囲に整える（数でない値は受け付けない）
+export const normalizeWeather = (weather: Weather): Weather => {
+  const { rain, temperature, turbidity } = weather;
+  if (![rain, temperature, turbidity].every((value) => typeof value === 'number' && Number.isFinite(value))) {
+    throw new Error('天気の値が数ではありません');
+  }
+  return { rain: Math.max(0, rain), temperature, turbidity: clamp(turbidity, 0, 1) };
+};
+
+// 天気の特徴
+export const getWeatherTags = (weather: Weather): WeatherTag[] => {
+  const tags: WeatherTag[] = [];
+  if (weather.rain >= LIGHT_RAIN_MM) tags.push('rain');
+  if (weather.rain >= HEAVY_RAIN_MM) tags.push('heavyRain');
+  if (weather.temperature <= COLD_TEMPERATURE) tags.push('cold');
+  if (weather.temperature >= HOT_TEMPERATURE) tags.push('hot');
+  if (weather.turbidity >= MUDDY_TURBIDITY) tags.push('muddy');
+  return tags;
+};
+
+// 過去1日の雨量から川の濁りを見積もる（40mm で泥色になる）
+export const estimateTurbidity = (rainLastDay: number): number => clamp(rainLastDay / 40, 0, 1);
+
+// 天気による川の様子
+// 濁りは茶色、雨は灰青色を重ねる。雨で流れが速まると水草がよく揺れる
+// 冷たい水や暑すぎる日は動きがゆっくりになり、小雨では活発に、強い雨や濁りでは岩陰で休みがちになる
+export const getWeatherScene = (weather: Weather | null): WeatherScene => {
+  if (!weather) {
+    return CALM_WEATHER_SCENE;
+  }
+
+  const rainFactor = clamp(weather.rain / 20, 0, 1);
+  const muddy = weather.turbidity * 0.35;
+  const grey = rainFactor * 0.15;
+  const alpha = Math.min(0.45, muddy + grey);
+  const mix = (mud: number, rain: number) => Math.round((mud * muddy + rain * grey) / (muddy + grey));
+  const tint = alpha < 0.01 ? null : `rgba(${mix(140, 90)}, ${mix(110, 110)}, ${mix(60, 130)}, ${alpha.toFixed(2)})`;
+
+  let moveSpeed = 1;
+  if (weather.temperature < 12) {
+    moveSpeed = clamp(0.5 + weather.temperature * 0.04, 0.5, 1);
+  } else if (weather.temperature > 25) {
+    moveSpeed = clamp(1 - (weather.temperature - 25) * 0.05, 0.6, 1);
+  }
+
+  let activity = 1;
+  if (weather.rain >= HEAVY_RAIN_MM) {
+    activity = 0.6;
+  } else if (weather.rain >= LIGHT_RAIN_MM) {
+    activity = 1.2;
+  }
+  if (weather.turbidity >= MUDDY_TURBIDITY) {
+    activity *= 0.8;
+  }
+
+  return { tint, swaySpeed: 1 + rainFactor * 0.8, moveSpeed, activity };
+};
+
+// 取得を待ちすぎないように天気を取得する（失敗や時間切れのときは null）
+export const fetchWeather = async (
+  provider: WeatherProvider,
+  ctx: SimulationContext,
+  timeoutMs: number = WEATHER_TIMEOUT_MS
+): Promise<Weather | null> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), timeoutMs);
+  });
+  try {
+    const weather = await Promise.race([provider.getWeather(ctx), timeout]);
+    return weather && normalizeWeather(weather);
+  } catch (error) {
+    console.warn('Failed to get weather:', error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// 月ごとの平均気温（℃、山あいの川辺を想定）
+const MONTHLY_TEMPERATURES = [3, 4, 8, 13, 18, 22, 26, 27, 23, 17, 11, 6];
+// 月ごとの雨の降りやすさ（梅雨と秋の長雨で高い）
+const MONTHLY_RAIN_CHANCES = [0.2, 0.2, 0.3, 0.3, 0.35, 0.6, 0.55, 0.35, 0.45, 0.35, 0.25, 0.2];
+
+// 日付とシードから決まる天気（ネットワークを使わず、同じ日には同じ天気になる）
+export const getMockWeather = (dateKey: string, seed: number = 0): Weather => {
+  const random = createSeededRandom(hashSeed(`weather:${seed}:${dateKey}`));
+  const month = Number(dateKey.slice(5, 7)) - 1;
+
+  const temperature = MONTHLY_TEMPERATURES[month] + (random() - 0.5) * 8;
+  let rain = 0;
+  if (random() < MONTHLY_RAIN_CHANCES[month]) {
+    rain = random() < 0.25 ? HEAVY_RAIN_MM + random() * 20 : LIGHT_RAIN_MM + random() * 5;
+  }
+  const turbidity = estimateTurbidity(rain * 6 + random() * 4);
+
+  return { rain, temperature: Math.round(temperature * 10) / 10, turbidity };
+};
+
+// オフラインで使える決まった天気（テストや天気を取得しない環境向け）
+export const createMockWeatherProvider = (seed: number = 0): WeatherProvider => ({
+  getWeather: async (ctx) => getMockWeather(toDateKey(ctx.now(), ctx.timeZone), seed),
+});